@@ -1,7 +1,6 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
-
-const HH_API_BASE_URL = 'https://api.hh.ru';
+import { HHClient, authErrorResponse, isHHApiError, requireHHSession, type HHPayableAction } from '@/lib/hh';
 
 interface ApiActionInfo {
   id: string;
@@ -26,19 +25,8 @@ interface ManagerApiLimitInfo extends ApiLimitInfo {
   managerActions?: ApiActionInfo[]; // Make this optional
 }
 
-async function getEmployerId(accessToken: string): Promise<string> {
-  const response = await fetch(`${HH_API_BASE_URL}/me`, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'User-Agent': 'ResumeProcessor/1.0 (your@email.com)'
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to get user info: ${response.status}`);
-  }
-
-  const data = await response.json();
+async function getEmployerId(client: HHClient): Promise<string> {
+  const data = await client.getMe();
   if (!data.employer?.id) {
     throw new Error('No employer ID found in user data');
   }
@@ -46,27 +34,42 @@ async function getEmployerId(accessToken: string): Promise<string> {
   return data.employer.id;
 }
 
+function toActionInfo(item: HHPayableAction): ApiActionInfo {
+  return {
+    id: item.id,
+    serviceType: item.service_type,
+    activatedAt: item.activated_at,
+    expiresAt: item.expires_at,
+    balance: item.balance
+  };
+}
+
 export async function GET(request: NextRequest) {
   const searchParams = request.nextUrl.searchParams;
-  const accessToken = searchParams.get('accessToken');
   const managerId = searchParams.get('managerId');
 
-  if (!accessToken) {
-    return NextResponse.json({ error: 'Missing accessToken' }, { status: 400 });
-  }
-
   if (!managerId) {
     return NextResponse.json({ error: 'Missing managerId' }, { status: 400 });
   }
 
   try {
-    const employerId = await getEmployerId(accessToken);
-    const limitInfo = await checkApiLimit(accessToken, employerId, managerId);
+    const { accessToken } = requireHHSession(request);
+    const client = new HHClient({ accessToken });
+    const employerId = await getEmployerId(client);
+    const limitInfo = await checkApiLimit(client, employerId, managerId);
     return NextResponse.json(limitInfo);
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error('Error checking API limit:', error);
     
-    if (error instanceof Error) {
+    if (isHHApiError(error)) {
+      return NextResponse.json(
+        { error: 'Failed to check API limit', details: error.message, errors: error.codes, requestId: error.requestId },
+        { status: error.status === 403 ? 403 : 500 }
+      );
+    } else if (error instanceof Error) {
       return NextResponse.json(
         { error: 'Failed to check API limit', details: error.message },
         { status: 500 }
@@ -80,22 +83,8 @@ export async function GET(request: NextRequest) {
   }
 }
 
-async function checkApiLimit(accessToken: string, employerId: string, managerId: string): Promise<ManagerApiLimitInfo> {
-  const employerUrl = `${HH_API_BASE_URL}/employers/${employerId}/services/payable_api_actions/active`;
-  const managerUrl = `${HH_API_BASE_URL}/employers/${employerId}/managers/${managerId}/services/payable_api_actions/active`;
-
-  const employerResponse = await fetch(employerUrl, {
-    headers: {
-      'Authorization': `Bearer ${accessToken}`,
-      'Accept': 'application/json'
-    }
-  });
-
-  if (!employerResponse.ok) {
-    throw new Error(`HTTP error! Employer status: ${employerResponse.status}`);
-  }
-
-  const employerData = await employerResponse.json();
+async function checkApiLimit(client: HHClient, employerId: string, managerId: string): Promise<ManagerApiLimitInfo> {
+  const employerData = await client.getPayableActions(employerId);
 
   // Check if no active API packs
   if (!employerData.items?.length) {
@@ -107,42 +96,14 @@ async function checkApiLimit(accessToken: string, employerId: string, managerId:
 
   let managerData = null;
   try {
-    const managerResponse = await fetch(managerUrl, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Accept': 'application/json'
-      }
-    });
-
-    if (managerResponse.ok) {
-      managerData = await managerResponse.json();
-    } else {
-      console.warn(`Manager API call failed with status: ${managerResponse.status}`);
-    }
+    managerData = await client.getPayableActions(employerId, managerId);
   } catch (error) {
-    console.error('Error fetching manager data:', error);
+    console.warn('Manager API call failed:', error instanceof Error ? error.message : String(error));
   }
 
-  console.log('Employer API response:', JSON.stringify(employerData, null, 2));
-  if (managerData) {
-    console.log('Manager API response:', JSON.stringify(managerData, null, 2));
-  }
+  const actions: ApiActionInfo[] = employerData.items.map(toActionInfo);
 
-  const actions: ApiActionInfo[] = employerData.items.map((item: any) => ({
-    id: item.id,
-    serviceType: item.service_type,
-    activatedAt: item.activated_at,
-    expiresAt: item.expires_at,
-    balance: item.balance
-  }));
-
-  const managerActions: ApiActionInfo[] | null = managerData ? managerData.items.map((item: any) => ({
-    id: item.id,
-    serviceType: item.service_type,
-    activatedAt: item.activated_at,
-    expiresAt: item.expires_at,
-    balance: item.balance
-  })) : null;
+  const managerActions: ApiActionInfo[] | null = managerData ? managerData.items.map(toActionInfo) : null;
 
   return {
     actions,
@@ -0,0 +1,179 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { createCompanyNormalizer } from '@/lib/companyNames';
+import { loadCompanyNameRules } from '@/lib/companyNames/store';
+import {
+  getEmployerDecisions,
+  saveEmployerDecisions,
+  type EmployerDecisionUpdate
+} from '@/lib/db';
+import { createInnResolver, findEmployerCandidates, getEmployerDetails, type CompanyReviewItem } from '@/lib/employers';
+import {
+  HHClient,
+  authErrorResponse,
+  getMaxConcurrency,
+  isHHApiError,
+  isSessionExpiredError,
+  mapWithConcurrency,
+  requireHHSession,
+  resolveSessionUser
+} from '@/lib/hh';
+import { logEvent, type ProgressEmitter } from '@/lib/progress/events';
+import { createEventStream, wantsEventStream } from '@/lib/progress/server';
+import { fetchCompanyRowsFromSheet, groupCompaniesByCleanName } from '@/lib/resumeSearch';
+import { isSheetColumnsError, parseColumnOverrides } from '@/lib/sheets/columns';
+import { parseSheetInput, parseWorksheetRef, type InputSheetOptions, type SheetInput } from '@/lib/sheets/source';
+
+function errorResponse(error: unknown, status = 500) {
+  const authResponse = authErrorResponse(error);
+  if (authResponse) return authResponse;
+
+  if (isSheetColumnsError(error)) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+  console.error('Error handling company review:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+    { status }
+  );
+}
+
+async function buildReview(
+  client: HHClient,
+  source: SheetInput,
+  options: InputSheetOptions,
+  ownerId: string,
+  emit: ProgressEmitter
+): Promise<CompanyReviewItem[]> {
+  emit({ type: 'progress', phase: 'load', completed: 0, total: 0, message: 'Fetching companies' });
+  const rows = await fetchCompanyRowsFromSheet(source, options);
+  const normalizer = createCompanyNormalizer(loadCompanyNameRules(ownerId));
+  const { groups } = groupCompaniesByCleanName(rows.map(row => row.name), normalizer);
+  const innByName = new Map(rows.map(row => [row.name, row.inn]));
+  emit(logEvent(`Reviewing ${groups.length} companies`));
+
+  // Decisions are stored per company name and compared by key, like the search does
+  const decisions = getEmployerDecisions(ownerId);
+  const resolveInn = createInnResolver(client, normalizer);
+  let completed = 0;
+  return mapWithConcurrency(groups, getMaxConcurrency(), async group => {
+    const inn = group.companies.map(name => innByName.get(name)).find(Boolean) || null;
+    const companyDecisions = decisions.filter(decision => normalizer.key(decision.company) === group.key);
+    let candidates: CompanyReviewItem['candidates'] = [];
+    try {
+      const innEmployers = inn ? (await resolveInn(inn)).employers : [];
+      candidates = await findEmployerCandidates(client, group.cleanName, normalizer, { innEmployers, decisions: companyDecisions });
+    } catch (error) {
+      if (isSessionExpiredError(error) || !isHHApiError(error)) throw error;
+      emit(logEvent(`Failed to search employers for "${group.cleanName}": ${error.message}`, 'error'));
+    }
+    emit({
+      type: 'progress',
+      phase: 'search',
+      completed: ++completed,
+      total: groups.length,
+      current: group.cleanName,
+      message: 'Searching employers'
+    });
+    return { company: group.cleanName, companies: group.companies, inn, candidates, decisions: companyDecisions };
+  });
+}
+
+// Candidate HH employers for every company of the input, with the user's earlier decisions
+export async function POST(request: NextRequest) {
+  try {
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+    const { sheetUrl, uploadId, columns: columnsInput, worksheet: worksheetInput } = await request.json();
+
+    let source: SheetInput;
+    let options: InputSheetOptions;
+    try {
+      source = parseSheetInput({ sheetUrl, uploadId }, ownerId);
+      options = { columns: parseColumnOverrides(columnsInput), worksheet: parseWorksheetRef(worksheetInput) };
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    const client = new HHClient({ accessToken: session.accessToken });
+    if (wantsEventStream(request)) {
+      return createEventStream(async emit => {
+        const companies = await buildReview(client, source, options, ownerId, emit);
+        emit({ type: 'result', data: { companies, apiCalls: client.metrics } });
+      });
+    }
+
+    const companies = await buildReview(client, source, options, ownerId, () => undefined);
+    return NextResponse.json({ companies, apiCalls: client.metrics });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    return NextResponse.json({ decisions: getEmployerDecisions(ownerId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+function parseDecisionUpdates(input: unknown): EmployerDecisionUpdate[] {
+  if (!Array.isArray(input)) throw new Error('decisions must be an array');
+  return input.map((item, index) => {
+    const { company, employerId, employerName, status } = (item || {}) as Record<string, unknown>;
+    if (typeof company !== 'string' || !company.trim()) {
+      throw new Error(`decisions[${index}].company is required`);
+    }
+    const id = typeof employerId === 'number' ? String(employerId) : employerId;
+    if (typeof id !== 'string' || !/^\d+$/.test(id.trim())) {
+      throw new Error(`decisions[${index}].employerId must be a numeric HH employer id`);
+    }
+    if (status !== 'confirmed' && status !== 'rejected' && status !== null) {
+      throw new Error(`decisions[${index}].status must be "confirmed", "rejected" or null`);
+    }
+    return {
+      company: company.trim(),
+      employerId: id.trim(),
+      employerName: typeof employerName === 'string' && employerName ? employerName : null,
+      status
+    };
+  });
+}
+
+// Saves confirmations and rejections; later resume searches match confirmed employers by id
+export async function PUT(request: NextRequest) {
+  try {
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+
+    let updates: EmployerDecisionUpdate[];
+    try {
+      updates = parseDecisionUpdates((await request.json()).decisions);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+
+    // Ids typed in by hand are checked against HH before they are trusted
+    const client = new HHClient({ accessToken: session.accessToken });
+    for (const update of updates) {
+      if (update.status !== 'confirmed' || update.employerName) continue;
+      try {
+        update.employerName = (await getEmployerDetails(client, update.employerId)).name;
+      } catch (error) {
+        if (isHHApiError(error) && error.status === 404) {
+          return NextResponse.json({ error: `HH employer ${update.employerId} not found` }, { status: 400 });
+        }
+        throw error;
+      }
+    }
+
+    saveEmployerDecisions(ownerId, updates);
+    return NextResponse.json({ decisions: getEmployerDecisions(ownerId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export const dynamic = 'force-dynamic';
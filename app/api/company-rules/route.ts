@@ -0,0 +1,55 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { DEFAULT_COMPANY_NAME_RULES } from '@/lib/companyNames';
+import { loadCompanyNameRules, resetCompanyNameRules, saveCompanyNameRules } from '@/lib/companyNames/store';
+import { authErrorResponse, requireHHSession, resolveSessionUser } from '@/lib/hh';
+
+function errorResponse(error: unknown, status = 500) {
+  const authResponse = authErrorResponse(error);
+  if (authResponse) return authResponse;
+
+  console.error('Error handling company name rules:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+    { status }
+  );
+}
+
+// The user's company-name normalisation rules (stop words, transliteration, aliases, threshold)
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    return NextResponse.json({ rules: loadCompanyNameRules(ownerId), defaults: DEFAULT_COMPANY_NAME_RULES });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export async function PUT(request: NextRequest) {
+  let ownerId: string;
+  try {
+    ownerId = await resolveSessionUser(requireHHSession(request));
+  } catch (error) {
+    return errorResponse(error);
+  }
+
+  try {
+    const rules = saveCompanyNameRules(ownerId, await request.json());
+    return NextResponse.json({ rules });
+  } catch (error) {
+    // Validation messages from parseCompanyNameRules are meant for the user
+    return errorResponse(error, 400);
+  }
+}
+
+// Back to the built-in defaults
+export async function DELETE(request: NextRequest) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    return NextResponse.json({ rules: resetCompanyNameRules(ownerId) });
+  } catch (error) {
+    return errorResponse(error);
+  }
+}
+
+export const dynamic = 'force-dynamic';
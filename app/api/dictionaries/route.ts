@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import { getCached } from '@/lib/db';
+import { HHClient, type HHAreaNode, type HHIdName } from '@/lib/hh';
+
+// Dictionaries change a few times a year; a day-old copy is plenty fresh
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+interface AreaOption extends HHIdName {
+  // Country the region belongs to; unset for countries themselves
+  country?: string;
+}
+
+// Countries and their regions (incl. federal cities like Moscow). Cities inside regions
+// are left out to keep the dropdown usable.
+function flattenAreas(countries: HHAreaNode[]): AreaOption[] {
+  return countries.flatMap(country => [
+    { id: country.id, name: country.name },
+    ...country.areas
+      .map(region => ({ id: region.id, name: region.name, country: country.name }))
+      .sort((a, b) => a.name.localeCompare(b.name, 'ru'))
+  ]);
+}
+
+// Options for the resume search filter form. Reference data needs no HH.ru session.
+export async function GET() {
+  try {
+    const client = new HHClient();
+    const [dictionaries, areas, languages] = await Promise.all([
+      getCached('hh:dictionaries', CACHE_TTL_MS, async () => {
+        const data = await client.getDictionaries();
+        return {
+          currency: data.currency.map(({ code, abbr, name }) => ({ code, abbr, name })),
+          experience: data.experience,
+          educationLevel: data.education_level,
+          employment: data.employment,
+          schedule: data.schedule,
+          jobSearchStatus: data.job_search_statuses_employer || [],
+          languageLevel: data.language_level,
+          orderBy: data.resume_search_order,
+          relocation: data.resume_search_relocation
+        };
+      }),
+      getCached('hh:areas', CACHE_TTL_MS, async () => flattenAreas(await client.getAreas())),
+      getCached('hh:languages', CACHE_TTL_MS, () => client.getLanguages())
+    ]);
+
+    return NextResponse.json({ ...dictionaries, areas, languages });
+  } catch (error) {
+    console.error('Error loading HH dictionaries:', error);
+    return NextResponse.json(
+      { error: 'Failed to load HH.ru dictionaries', details: error instanceof Error ? error.message : String(error) },
+      { status: 502 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
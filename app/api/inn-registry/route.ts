@@ -0,0 +1,64 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { isValidInn, normalizeInn } from '@/lib/companyNames';
+import { getInnRecord, getInnRegistryStats, importInnRecords } from '@/lib/db';
+import { parseInnRegistry } from '@/lib/employers';
+import { authErrorResponse, requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { isSheetColumnsError } from '@/lib/sheets/columns';
+import { UploadError, parseUploadedFile } from '@/lib/sheets/upload';
+
+// Registry size, or the record of one INN with ?inn=
+export async function GET(request: NextRequest) {
+  try {
+    await resolveSessionUser(requireHHSession(request));
+    const inn = request.nextUrl.searchParams.get('inn');
+    if (inn) {
+      const normalized = normalizeInn(inn);
+      return NextResponse.json({ inn: normalized, valid: isValidInn(normalized), record: getInnRecord(normalized) });
+    }
+    return NextResponse.json(getInnRegistryStats());
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error('Error reading the INN registry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+// Imports INN → legal name/brand rows from an XLSX/CSV file (e.g. an EGRUL export)
+export async function POST(request: NextRequest) {
+  try {
+    await resolveSessionUser(requireHHSession(request));
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Attach the file as "file"' }, { status: 400 });
+    }
+
+    const { records, skipped } = parseInnRegistry(file.name, parseUploadedFile(file.name, Buffer.from(await file.arrayBuffer())));
+    if (records.length === 0) {
+      return NextResponse.json({ error: 'No rows with a valid INN and a name found in the file' }, { status: 400 });
+    }
+    const imported = importInnRecords(records);
+    return NextResponse.json({ imported, skipped, ...getInnRegistryStats() });
+  } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    if (error instanceof UploadError || isSheetColumnsError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error importing the INN registry:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { JobError, controlJob, getOwnedJob, jobErrorResponse, toJobSummary, type JobAction } from '@/lib/jobs';
+
+const ACTIONS: JobAction[] = ['pause', 'resume', 'cancel'];
+
+// Status and progress of a job
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    const job = await getOwnedJob(params.id, ownerId);
+    return NextResponse.json(toJobSummary(job));
+  } catch (error) {
+    return jobErrorResponse(error);
+  }
+}
+
+// { "action": "pause" | "resume" | "cancel" }
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    const { action } = await request.json();
+    if (!ACTIONS.includes(action)) {
+      throw new JobError(`Action must be one of: ${ACTIONS.join(', ')}`);
+    }
+
+    const job = await controlJob(params.id, ownerId, action);
+    return NextResponse.json(toJobSummary(job));
+  } catch (error) {
+    return jobErrorResponse(error);
+  }
+}
+
+export const dynamic = 'force-dynamic';
@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { getOwnedJob, jobErrorResponse, runJobChunk, toJobSummary } from '@/lib/jobs';
+import { createEventStream, wantsEventStream } from '@/lib/progress/server';
+
+// Advances the job by one time-boxed chunk and returns its updated status. The client keeps
+// calling this while the job is pending/running; each call uses the current session token,
+// so token refreshes between chunks are picked up automatically.
+// With `Accept: text/event-stream` the chunk's log lines and checkpoints are streamed as they
+// happen and the job summary arrives as the final `result` event.
+export async function POST(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+    const options = { ownerId, accessToken: session.accessToken };
+
+    if (wantsEventStream(request)) {
+      // Ownership is checked up front so a wrong id still gets a plain 404
+      await getOwnedJob(params.id, ownerId);
+      return createEventStream(async emit => {
+        const job = await runJobChunk(params.id, { ...options, onEvent: emit });
+        emit({ type: 'result', data: toJobSummary(job) });
+      });
+    }
+
+    const job = await runJobChunk(params.id, options);
+    return NextResponse.json(toJobSummary(job));
+  } catch (error) {
+    return jobErrorResponse(error);
+  }
+}
+
+export const dynamic = 'force-dynamic';
+
+export const maxDuration = 60;
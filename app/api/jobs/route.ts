@@ -0,0 +1,34 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { createJob, jobErrorResponse, listJobs, toJobSummary } from '@/lib/jobs';
+
+// Creates a background job, e.g. { "type": "resume-search", "params": { "sheetUrl": "...", "text": "..." } }.
+// The job does nothing until the client drives it with POST /api/jobs/:id/run.
+export async function POST(request: NextRequest) {
+  try {
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+    const { type, params } = await request.json();
+
+    const job = await createJob(type, ownerId, params);
+    return NextResponse.json(toJobSummary(job), { status: 201 });
+  } catch (error) {
+    return jobErrorResponse(error);
+  }
+}
+
+export async function GET(request: NextRequest) {
+  try {
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+    const type = request.nextUrl.searchParams.get('type');
+
+    const jobs = await listJobs(ownerId);
+    return NextResponse.json(jobs.filter(job => !type || job.type === type).map(toJobSummary));
+  } catch (error) {
+    return jobErrorResponse(error);
+  }
+}
+
+export const dynamic = 'force-dynamic';
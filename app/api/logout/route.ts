@@ -0,0 +1,87 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import {
+  ACCESS_TOKEN_COOKIE,
+  HHClient,
+  REFRESH_TOKEN_COOKIE,
+  dropRateLimiter,
+  resolveSessionUser
+} from '@/lib/hh';
+import { forgetSession, getUserSessions } from '@/lib/db';
+import { cancelActiveJobs } from '@/lib/jobs';
+
+interface LogoutResult {
+  revoked: number;
+  sessionsEnded: number;
+  jobsCancelled: number;
+}
+
+// Revokes the token at HH.ru and drops everything this server keeps for it.
+// A failed revocation is logged but doesn't block the logout: the cookies are cleared anyway.
+async function endSession(accessToken: string): Promise<boolean> {
+  let revoked = false;
+  try {
+    await new HHClient({ accessToken, retryPolicy: { maxRetries: 1 } }).revokeToken();
+    revoked = true;
+  } catch (error) {
+    console.error('Failed to revoke HH.ru token:', error instanceof Error ? error.message : String(error));
+  }
+
+  dropRateLimiter(accessToken);
+  forgetSession(accessToken);
+  return revoked;
+}
+
+async function logout(request: NextRequest, everywhere: boolean): Promise<LogoutResult> {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) {
+    return { revoked: 0, sessionsEnded: 0, jobsCancelled: 0 };
+  }
+
+  const tokens = new Set([accessToken]);
+  let jobsCancelled = 0;
+  // Resolved before the token is revoked; afterwards HH.ru wouldn't tell who it belonged to
+  try {
+    const userId = await resolveSessionUser({ accessToken });
+    if (everywhere) {
+      getUserSessions(userId).forEach(token => tokens.add(token));
+    }
+    // Jobs run with the token of whoever drives them, which is about to be revoked
+    jobsCancelled = await cancelActiveJobs(userId);
+  } catch (error) {
+    console.error('Could not resolve user for logout:', error instanceof Error ? error.message : String(error));
+  }
+
+  const results = await Promise.all(Array.from(tokens).map(endSession));
+  return {
+    revoked: results.filter(Boolean).length,
+    sessionsEnded: tokens.size,
+    jobsCancelled
+  };
+}
+
+function clearTokenCookies(response: NextResponse) {
+  response.cookies.delete(ACCESS_TOKEN_COOKIE);
+  response.cookies.delete(REFRESH_TOKEN_COOKIE);
+  return response;
+}
+
+// fetch() callers get JSON; `everywhere` ends every session of this HH.ru user known to the server
+// (sessions are stored in the database, so this covers every instance sharing it)
+export async function POST(request: NextRequest) {
+  const body = await request.json().catch(() => ({}));
+  const everywhere = body?.everywhere === true || request.nextUrl.searchParams.get('everywhere') === 'true';
+
+  const result = await logout(request, everywhere);
+  return clearTokenCookies(NextResponse.json({ success: true, ...result }));
+}
+
+// Plain navigation to /api/logout clears the session and lands back on the start page
+export async function GET(request: NextRequest) {
+  const everywhere = request.nextUrl.searchParams.get('everywhere') === 'true';
+
+  await logout(request, everywhere);
+  return clearTokenCookies(NextResponse.redirect(new URL('/', request.url), 303));
+}
+
+export const dynamic = 'force-dynamic';
@@ -1,6 +1,7 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
 import got from 'got'; // You'll need to install this package
+import { getHHApiBaseUrl, setTokenCookies } from '@/lib/hh';
 
 // Remove hardcoded values
 const CLIENT_ID = process.env.HH_CLIENT_ID || '';
@@ -20,7 +21,7 @@ async function getAccessToken(code: string, retryCount = 0): Promise<any> {
   }
 
   try {
-    const response = await got.post('https://api.hh.ru/token', {
+    const response = await got.post(`${getHHApiBaseUrl()}/token`, {
       form: {
         grant_type: 'authorization_code',
         client_id: CLIENT_ID,
@@ -76,20 +77,9 @@ export async function GET(request: NextRequest) {
 
   try {
     const tokenData = await getAccessToken(code);
-    console.log('Received token data:', tokenData);
     
     const response = NextResponse.redirect(new URL('/', request.url));
-    response.cookies.set('hh_access_token', tokenData.access_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: tokenData.expires_in
-    });
-    response.cookies.set('hh_refresh_token', tokenData.refresh_token, {
-      httpOnly: true,
-      secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict'
-    });
+    setTokenCookies(response, tokenData);
     
     console.log('Redirecting to:', response.url);
     console.log(`Access token will expire in ${tokenData.expires_in} seconds`);
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  isHHApiError,
+  refreshAccessToken,
+  setTokenCookies
+} from '@/lib/hh';
+
+// Exchanges the stored refresh token for a new token pair and rotates both cookies.
+// Called by the browser when an API route answers 401, before retrying that request once.
+export async function POST(request: NextRequest) {
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (!refreshToken) {
+    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
+  }
+
+  try {
+    const tokenData = await refreshAccessToken(refreshToken);
+    const response = NextResponse.json({ success: true, expiresIn: tokenData.expires_in });
+    setTokenCookies(response, tokenData);
+    console.log(`Access token refreshed, expires in ${tokenData.expires_in} seconds`);
+    return response;
+  } catch (error) {
+    console.error('Error refreshing access token:', error instanceof Error ? error.message : String(error));
+
+    // A rejected refresh token can't be reused; drop both cookies so the user re-authorizes
+    if (isHHApiError(error) && error.status >= 400 && error.status < 500) {
+      const response = NextResponse.json({ error: 'Refresh token is no longer valid' }, { status: 401 });
+      response.cookies.delete(ACCESS_TOKEN_COOKIE);
+      response.cookies.delete(REFRESH_TOKEN_COOKIE);
+      return response;
+    }
+
+    return NextResponse.json({ error: 'Failed to refresh access token' }, { status: 502 });
+  }
+}
+
+export const dynamic = 'force-dynamic';
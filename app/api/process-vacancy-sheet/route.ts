@@ -1,63 +1,122 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
-import { google } from 'googleapis';
-import path from 'path';
-import { parse } from 'url';
-import * as cheerio from 'cheerio'; // You'll need to install this package
-import fs from 'fs/promises';
+import {
+  HHClient,
+  authErrorResponse,
+  findVacanciesWithContacts,
+  getMaxConcurrency,
+  isSessionExpiredError,
+  mapWithConcurrency,
+  parseVacancyLink,
+  requireHHSession,
+  resolveSessionUser,
+  type HHVacancy
+} from '@/lib/hh';
+import { INN_CHECK_LABELS, createCompanyNormalizer, type CompanyNormalizer } from '@/lib/companyNames';
+import { loadCompanyNameRules } from '@/lib/companyNames/store';
+import { createRun, finishRun, saveContact, saveRunVacancies } from '@/lib/db';
+import { checkVacancyInn, createInnResolver, type InnResolution } from '@/lib/employers';
+import {
+  OUTPUT_FORMAT_LABELS,
+  createSheetsSink,
+  parseOutputFormat,
+  runDownloadUrl,
+  toVacancyContactTable,
+  type OutputFormat,
+  type VacancyContactRow
+} from '@/lib/output';
+import { logEvent, type ProgressEmitter, type ProgressLogLevel } from '@/lib/progress/events';
+import { createEventStream, wantsEventStream } from '@/lib/progress/server';
+import { isSheetColumnsError, parseColumnOverrides, readCell, resolveColumns, type ColumnOverrides } from '@/lib/sheets/columns';
+import { extractSheetId } from '@/lib/sheets/google';
+import {
+  parseSheetInput,
+  parseWorksheetRef,
+  readInputSheet,
+  type InputSheetOptions,
+  type SheetInput,
+  type WorksheetRef
+} from '@/lib/sheets/source';
+import { VACANCY_SHEET_SCHEMA } from '@/lib/sheets/schemas';
+import { parseSheetWriteMode, type SheetWriteMode } from '@/lib/sheets/writer';
+
+type Log = (message: string, level?: ProgressLogLevel) => void;
+
+// An output row with what it came from, kept for storing the run
+interface VacancyContactResult extends VacancyContactRow {
+  sourceLink: string;
+  apiResponse: HHVacancy;
+}
 
 export async function POST(request: NextRequest) {
   const logs: string[] = [];
   const startTime = Date.now();
-  const log = (message: string) => {
-    console.log(message); // Still log to server console
+  const log: Log = (message, level = 'info') => {
+    (level === 'error' ? console.error : console.log)(message); // Still log to server console
     logs.push(message); // Store log in array
   };
 
   try {
-    const { sheetUrl, vacancyLimit = 3 } = await request.json();
-    const accessToken = request.headers.get('Authorization')?.split(' ')[1];
-
-    if (!sheetUrl || !accessToken) {
-      return NextResponse.json({ error: 'Missing sheetUrl or accessToken' }, { status: 400 });
+    const {
+      sheetUrl, uploadId, vacancyLimit = 3, sheetMode: sheetModeInput, columns: columnsInput, worksheet: worksheetInput,
+      output: outputInput, htmlFallback
+    } = await request.json();
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+
+    let sheetMode: SheetWriteMode;
+    let columns: ColumnOverrides | undefined;
+    let worksheet: WorksheetRef | undefined;
+    let output: OutputFormat;
+    let source: SheetInput;
+    try {
+      sheetMode = parseSheetWriteMode(sheetModeInput);
+      columns = parseColumnOverrides(columnsInput);
+      worksheet = parseWorksheetRef(worksheetInput);
+      output = parseOutputFormat(outputInput);
+      source = parseSheetInput({ sheetUrl, uploadId }, ownerId);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+    // Vacancies_output is added to the Google Sheet, so an uploaded file alone isn't enough
+    if (output === 'sheets' && !(typeof sheetUrl === 'string' && extractSheetId(sheetUrl))) {
+      return NextResponse.json({ error: 'A valid Google Sheet URL is required to write the results to a sheet' }, { status: 400 });
     }
 
     // Ensure vacancyLimit is a number between 1 and 20
     const parsedVacancyLimit = Math.min(Math.max(parseInt(vacancyLimit.toString(), 10) || 3, 1), 20);
-
-    const sheetId = extractSheetId(sheetUrl);
-    if (!sheetId) {
-      throw new Error('Invalid Google Sheet URL');
+    const options: VacancySheetOptions = {
+      vacancyLimit: parsedVacancyLimit,
+      htmlFallback: htmlFallback === true,
+      sheetMode,
+      output,
+      columns,
+      worksheet
+    };
+
+    // With `Accept: text/event-stream` logs and per-vacancy progress are streamed while the
+    // sheet is processed, and the usual response body arrives as the final `result` event
+    if (wantsEventStream(request)) {
+      return createEventStream(async emit => {
+        const streamLog: Log = (message, level = 'info') => {
+          log(message, level);
+          emit(logEvent(message, level));
+        };
+        const result = await processVacancySheet(sheetUrl || undefined, source, options, session.accessToken, ownerId, streamLog, emit);
+        emit({ type: 'result', data: { ...result, logs, executionTime: Date.now() - startTime } });
+      });
     }
 
-    log('Fetching sheet data...');
-    const sheetData = await fetchSheetData(sheetId);
-    log(`Fetched ${sheetData.length} rows of data`);
-    log('Sheet data:');
-    log(JSON.stringify(sheetData, null, 2)); // Pretty-print the JSON
-
-    log('Processing sheet data...');
-    const { originalData, newData } = await processSheetData(sheetData, accessToken, log, parsedVacancyLimit);
-    log(`Processed ${newData.length} rows of data`);
-
-    log('Writing to Google Sheet...');
-    await writeToGoogleSheet(sheetId, newData, log);
+    const result = await processVacancySheet(sheetUrl || undefined, source, options, session.accessToken, ownerId, log, () => undefined);
+    return NextResponse.json({ ...result, logs, executionTime: Date.now() - startTime });
+  } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
 
-    const formattedData = formatDataForDisplay(originalData, newData);
-    
-    const executionTime = Date.now() - startTime;
-    log(`Total execution time: ${executionTime}ms`);
+    if (isSheetColumnsError(error)) {
+      return NextResponse.json({ error: error.message, logs }, { status: error.status });
+    }
 
-    return NextResponse.json({ 
-      message: 'Google Sheet updated successfully',
-      data: formattedData,
-      logs: logs, // Include logs in the response
-      sheetData: originalData,
-      updatedRows: newData,
-      apiResponses: newData.map(row => row.apiResponse),
-      executionTime: executionTime // Add execution time to response
-    });
-  } catch (error: unknown) {
     const executionTime = Date.now() - startTime;
     console.error('Error processing Google Sheet:', error);
     return NextResponse.json({ 
@@ -70,323 +129,293 @@ export async function POST(request: NextRequest) {
   }
 }
 
-function extractSheetId(url: string): string | null {
-  const match = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-  return match ? match[1] : null;
+interface VacancySheetOptions extends InputSheetOptions, VacancyLinkOptions {
+  sheetMode: SheetWriteMode;
+  output: OutputFormat;
 }
 
-async function fetchSheetData(sheetId: string): Promise<string[][]> {
-  const url = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=Vacancies`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch sheet data: ${response.statusText}`);
+async function processVacancySheet(
+  sheetUrl: string | undefined,
+  source: SheetInput,
+  options: VacancySheetOptions,
+  accessToken: string,
+  ownerId: string,
+  log: Log,
+  emit: ProgressEmitter
+) {
+  const startTime = Date.now();
+  const client = new HHClient({ accessToken });
+  const run = createRun('vacancy-contacts', ownerId, { sheetUrl, uploadId: source.uploadId, ...options });
+  try {
+    // Vacancies_output goes to the Google Sheet; unset when the results are only downloaded
+    const sheetId = sheetUrl ? extractSheetId(sheetUrl) : null;
+    const normalizer = createCompanyNormalizer(loadCompanyNameRules(ownerId));
+    const result = await processVacancySheetRun(sheetId, source, options, client, normalizer, run.id, log, emit);
+    finishRun(run.id, { status: 'completed', resultCount: result.updatedRows.length, apiCalls: client.metrics });
+    log(`Total execution time: ${Date.now() - startTime}ms`);
+    return { ...result, runId: run.id };
+  } catch (error) {
+    finishRun(run.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      apiCalls: client.metrics
+    });
+    throw error;
   }
-  const csvText = await response.text();
-  
-  // Parse CSV while preserving original formatting and removing extra quotes
-  const rows = csvText.split('\n').map(row => {
-    const cells = [];
-    let inQuotes = false;
-    let currentCell = '';
-    for (let i = 0; i < row.length; i++) {
-      if (row[i] === '"') {
-        if (!inQuotes) {
-          inQuotes = true;
-        } else if (row[i + 1] === '"') {
-          currentCell += '"';
-          i++; // Skip the next quote
-        } else {
-          inQuotes = false;
-          cells.push(currentCell);
-          currentCell = '';
-        }
-      } else if (row[i] === ',' && !inQuotes) {
-        cells.push(currentCell);
-        currentCell = '';
-      } else {
-        currentCell += row[i];
-      }
-    }
-    if (currentCell !== '') {
-      cells.push(currentCell);
-    }
-    return cells;
+}
+
+async function processVacancySheetRun(
+  sheetId: string | null,
+  source: SheetInput,
+  { vacancyLimit, htmlFallback, sheetMode, output, columns, worksheet }: VacancySheetOptions,
+  client: HHClient,
+  normalizer: CompanyNormalizer,
+  runId: string,
+  log: Log,
+  emit: ProgressEmitter
+) {
+
+  emit({ type: 'progress', phase: 'load', completed: 0, total: 0, message: 'Fetching sheet data' });
+  log(source.uploadId ? 'Reading the uploaded file...' : 'Fetching sheet data...');
+  const { rows: sheetData } = await readInputSheet(source, VACANCY_SHEET_SCHEMA, worksheet);
+  log(`Fetched ${sheetData.length} rows of data`);
+
+  log('Processing sheet data...');
+  const { originalData, newData } = await processSheetData(sheetData, client, normalizer, log, { vacancyLimit, htmlFallback }, columns, emit);
+  log(`Processed ${newData.length} rows of data`);
+
+  // Everything fetched is stored before the sheet write, so it can be re-exported without HH calls
+  saveRunVacancies(runId, newData.map(row => ({
+    vacancy: row.apiResponse,
+    companyName: row.companyName,
+    inn: row.inn,
+    sourceLink: row.sourceLink,
+    innCheck: row.innCheck,
+    registryName: row.registryName
+  })));
+  newData.forEach(({ apiResponse: { id, contacts }, phone, phoneComment }) => {
+    if (!contacts) return;
+    saveContact({
+      sourceType: 'vacancy',
+      sourceId: id,
+      runId,
+      fullName: contacts.name || '',
+      email: contacts.email || '',
+      phone: phone === 'N/A' ? '' : phone,
+      phoneComment
+    });
   });
+
+  // File outputs are rendered from the stored run when they are downloaded
+  const downloadUrl = output === 'sheets' ? undefined : runDownloadUrl(runId, output);
+  if (output === 'sheets') {
+    emit({ type: 'progress', phase: 'write', completed: 0, total: newData.length, message: 'Writing to Google Sheet' });
+    log('Writing to Google Sheet...');
+    await writeToGoogleSheet(sheetId as string, newData, sheetMode, log);
+  } else {
+    log(`Results are ready to download as ${OUTPUT_FORMAT_LABELS[output]}`);
+  }
+
+  const formattedData = formatDataForDisplay(originalData, newData);
   
-  return rows;
+  log(`HH API calls: ${JSON.stringify(client.metrics)}`);
+
+  return { 
+    message: downloadUrl ? 'Results are ready to download' : 'Google Sheet updated successfully',
+    downloadUrl,
+    data: formattedData,
+    sheetData: originalData,
+    updatedRows: newData,
+    apiResponses: newData.map(row => row.apiResponse),
+    apiCalls: client.metrics
+  };
 }
 
 async function processSheetData(
   sheetData: string[][],
-  accessToken: string,
-  log: (message: string) => void,
-  vacancyLimit: number
-): Promise<{ originalData: string[][], newData: { [key: string]: any }[] }> {
-  const headers = sheetData[0];
-  // Remove empty columns from headers
-  const cleanHeaders = headers.filter(h => h !== "");
-  const columnIndexes = {
-    companyName: headers.indexOf('Company name'),
-    inn: headers.indexOf('INN'),
-    link: headers.indexOf('Link to vacancy')
-  };
+  client: HHClient,
+  normalizer: CompanyNormalizer,
+  log: Log,
+  linkOptions: VacancyLinkOptions,
+  columns: ColumnOverrides | undefined,
+  emit: ProgressEmitter
+): Promise<{ originalData: string[][], newData: VacancyContactResult[] }> {
+  const mapping = resolveColumns(VACANCY_SHEET_SCHEMA, sheetData[0] || [], columns);
 
   log('Column Indexes:');
-  log(JSON.stringify(columnIndexes, null, 2));
+  log(JSON.stringify(mapping, null, 2));
 
   // Process all rows
   const vacancies = [];
   for (let rowIndex = 1; rowIndex < sheetData.length; rowIndex++) {
     const row = sheetData[rowIndex];
-    // Skip empty rows
-    if (!row.length) continue;
-    
-    // For data rows, we know the actual structure is [companyName, inn, link]
-    const vacancyLink = row[4]; // Link is always at index 2 in data rows
+    const vacancyLink = readCell(row, mapping, 'link');
     if (vacancyLink) {
       vacancies.push({
-        companyName: row[0], // Company name at index 0
-        inn: row[2],        // INN at index 1
-        link: vacancyLink   // Link at index 2
+        companyName: readCell(row, mapping, 'company'),
+        inn: readCell(row, mapping, 'inn'),
+        link: vacancyLink
       });
     }
   }
 
   log(`Found ${vacancies.length} vacancies`);
 
-  const CHUNK_SIZE = 10; // Process 10 vacancies at a time
-  const newData: { [key: string]: any }[] = [];
-
-  // Process vacancies in chunks
-  for (let i = 0; i < vacancies.length; i += CHUNK_SIZE) {
-    const chunk = vacancies.slice(i, i + CHUNK_SIZE);
-    const chunkPromises = chunk.map(vacancy => 
-      fetchVacancyContactInfo(vacancy.link, accessToken, log, vacancyLimit)
-        .then(vacancyInfos => ({vacancy, vacancyInfos}))
-        .catch(error => {
-          log(`Error processing vacancy ${vacancy.link}: ${error}`);
-          return {vacancy, vacancyInfos: []};
-        })
-    );
-
-    const results = await Promise.all(chunkPromises);
-
-    results.forEach(({vacancy, vacancyInfos}) => {
-      vacancyInfos.forEach(vacancyInfo => {
-        const phoneInfo = vacancyInfo.contacts?.phones?.[0];
-        newData.push({
-          companyName: vacancy.companyName,
-          inn: vacancy.inn,
-          fullName: vacancyInfo.contacts?.name || 'N/A',
-          email: vacancyInfo.contacts?.email || 'N/A', 
-          phone: phoneInfo?.formatted || 'N/A',
-          phoneComment: phoneInfo?.comment || '',
-          individualVacancyLink: vacancyInfo.alternate_url || vacancy.link,
-          apiResponse: vacancyInfo
-        });
+  const newData: VacancyContactResult[] = [];
+  const counters = { contacts: 0, errors: 0 };
+  let completed = 0;
+  const reportProgress = (current?: string) => emit({
+    type: 'progress',
+    phase: 'fetch',
+    completed,
+    total: vacancies.length,
+    current,
+    counters: { ...counters }
+  });
+  reportProgress();
+
+  // Concurrency, pacing and 429 retries are handled by the shared HH rate limiter
+  const results = await mapWithConcurrency(vacancies, getMaxConcurrency(), vacancy =>
+    fetchVacancyContactInfo(vacancy.link, client, log, linkOptions)
+      .then(vacancyInfos => ({vacancy, vacancyInfos}))
+      .catch(error => {
+        if (isSessionExpiredError(error)) throw error;
+        log(`Error processing vacancy ${vacancy.link}: ${error}`, 'error');
+        counters.errors++;
+        return {vacancy, vacancyInfos: [] as HHVacancy[]};
+      })
+      .then(result => {
+        completed++;
+        counters.contacts += result.vacancyInfos.filter(info => info.contacts).length;
+        reportProgress(vacancy.companyName);
+        return result;
+      })
+  );
+
+  // INN is the row's primary key: the employer behind each vacancy link is checked against it
+  const resolveInn = createInnResolver(client, normalizer);
+  emit({ type: 'progress', phase: 'inn', completed: 0, total: 0, message: 'Checking INNs' });
+  const resolutions = await mapWithConcurrency(results, getMaxConcurrency(), async ({ vacancy }): Promise<InnResolution | null> => {
+    if (!vacancy.inn) return null;
+    try {
+      return await resolveInn(vacancy.inn);
+    } catch (error) {
+      if (isSessionExpiredError(error)) throw error;
+      log(`Error resolving INN ${vacancy.inn}: ${error instanceof Error ? error.message : String(error)}`, 'error');
+      return null;
+    }
+  });
+
+  results.forEach(({vacancy, vacancyInfos}, index) => {
+    const resolution = resolutions[index];
+    vacancyInfos.forEach(vacancyInfo => {
+      const phoneInfo = vacancyInfo.contacts?.phones?.[0];
+      const innCheck = resolution ? checkVacancyInn(vacancyInfo, resolution, normalizer) : null;
+      if (innCheck?.status === 'mismatch') {
+        log(`INN ${vacancy.inn} of "${vacancy.companyName}" doesn't match the employer "${vacancyInfo.employer?.name || 'unknown'}" of ${vacancyInfo.alternate_url || vacancy.link}`);
+      }
+      newData.push({
+        companyName: vacancy.companyName,
+        inn: vacancy.inn,
+        fullName: vacancyInfo.contacts?.name || 'N/A',
+        email: vacancyInfo.contacts?.email || 'N/A', 
+        phone: phoneInfo?.formatted || 'N/A',
+        phoneComment: phoneInfo?.comment || '',
+        individualVacancyLink: vacancyInfo.alternate_url || vacancy.link,
+        sourceLink: vacancy.link,
+        innCheck: innCheck ? INN_CHECK_LABELS[innCheck.status] : '',
+        registryName: innCheck?.registryName || '',
+        apiResponse: vacancyInfo
       });
     });
-
-    // Add delay between chunks to avoid rate limiting
-    if (i + CHUNK_SIZE < vacancies.length) {
-      await delay(1000);
-    }
-  }
+  });
 
   return { originalData: sheetData, newData };
 }
 
+// Employer and search pages are read through the vacancies API; their HTML is only scraped
+// when `htmlFallback` is on and the API found no vacancy with contacts
+interface VacancyLinkOptions {
+  vacancyLimit: number;
+  htmlFallback: boolean;
+}
+
 async function fetchVacancyContactInfo(
   vacancyLink: string,
-  accessToken: string,
-  log: (message: string) => void,
-  vacancyLimit: number
-): Promise<any[]> {
+  client: HHClient,
+  log: Log,
+  { vacancyLimit, htmlFallback }: VacancyLinkOptions
+): Promise<HHVacancy[]> {
   log(`Fetching vacancy info for: ${vacancyLink}`);
-  
-  const response = await fetch(vacancyLink, { 
-    redirect: 'follow',
-    // Add timeout
-    signal: AbortSignal.timeout(30000) // 30 second timeout
-  });
-  const finalUrl = response.url;
-  log(`Final URL after potential redirects: ${finalUrl}`);
-  
-  const parsedUrl = parse(finalUrl, true);
-  
-  if (parsedUrl.pathname?.includes('/search/vacancy') || parsedUrl.pathname?.includes('/employer/')) {
-    // This is an employer vacancy list page
-    log('Detected employer vacancy list page. Extracting individual vacancy links...');
-    const individualVacancyLinks = await getIndividualVacancyLinks(finalUrl, log, vacancyLimit);
-    log(`Found ${individualVacancyLinks.length} individual vacancy links`);
-    
-    if (individualVacancyLinks.length === 0) {
-      log('No vacancies found. Returning empty array.');
-      return [];
-    }
-    
-    const vacancyInfos = [];
-    for (const link of individualVacancyLinks) {
-      try {
-        const info = await fetchSingleVacancyInfo(link, accessToken, log);
-        vacancyInfos.push(info);
-      } catch (error: unknown) {
-        log(`Error fetching vacancy info for ${link}: ${error instanceof Error ? error.message : String(error)}`);
-      }
-    }
-    return vacancyInfos;
-  }
-  
-  // Single vacancy link
-  const singleVacancyInfo = await fetchSingleVacancyInfo(finalUrl, accessToken, log);
-  return [singleVacancyInfo];
-}
 
-async function fetchSingleVacancyInfo(vacancyLink: string, accessToken: string, log: (message: string) => void): Promise<any> {
-  const parsedUrl = parse(vacancyLink, true);
-  const vacancyId = parsedUrl.pathname?.split('/').pop();
-  
-  if (!vacancyId) {
-    log(`Invalid vacancy link: ${vacancyLink}`);
-    throw new Error('Invalid vacancy link');
+  let finalUrl = vacancyLink;
+  let target = parseVacancyLink(vacancyLink);
+  if (target.kind === 'unknown') {
+    // Short and tracking links only show the hh.ru page they lead to after the redirects
+    const response = await fetch(vacancyLink, {
+      redirect: 'follow',
+      signal: AbortSignal.timeout(30000) // 30 second timeout
+    });
+    finalUrl = response.url;
+    log(`Final URL after potential redirects: ${finalUrl}`);
+    target = parseVacancyLink(finalUrl);
   }
 
-  const vacancyUrl = `https://api.hh.ru/vacancies/${vacancyId}`;
-  log(`Making API request to: ${vacancyUrl}`);
-
-  try {
-    const vacancyResponse = await fetch(vacancyUrl, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'User-Agent': 'Your App Name (your@email.com)'
-      }
-    });
+  if (target.kind === 'vacancy') {
+    return [await fetchSingleVacancyInfo(target.vacancyId, client, log)];
+  }
+  if (target.kind === 'unknown') {
+    throw new Error(`Not an hh.ru vacancy, employer or vacancy search link: ${finalUrl}`);
+  }
 
-    const responseText = await vacancyResponse.text();
+  log(`Detected employer or search page, listing its vacancies via the API: ${JSON.stringify(target.query)}`);
+  const { vacancies, found, withoutContacts } = await findVacanciesWithContacts(client, target.query, vacancyLimit);
+  log(`The API found ${found} vacancies; picked ${vacancies.length} with contacts, skipped ${withoutContacts} without (limited to ${vacancyLimit})`);
 
-    if (!vacancyResponse.ok) {
-      log(`API request failed. Status: ${vacancyResponse.status}, Body: ${responseText}`);
-      throw new Error(`HTTP error! status: ${vacancyResponse.status}, body: ${responseText}`);
-    }
+  let vacancyIds = vacancies.map(vacancy => vacancy.id);
+  if (vacancyIds.length === 0 && htmlFallback) {
+    log('No vacancies with contacts via the API, falling back to the page HTML');
+    vacancyIds = await getVacancyIdsFromPageHtml(finalUrl, log, vacancyLimit);
+  }
+  if (vacancyIds.length === 0) {
+    log('No vacancies found. Returning empty array.');
+    return [];
+  }
 
+  // Search results are summaries; the full vacancy has every phone and its comment
+  const vacancyInfos: HHVacancy[] = [];
+  for (const vacancyId of vacancyIds) {
     try {
-      const vacancyData = JSON.parse(responseText);
-      log(`Successfully fetched vacancy data for ID: ${vacancyId}`);
-      return vacancyData;
-    } catch (parseError) {
-      log(`Error parsing JSON response: ${responseText}`);
-      throw new Error(`Failed to parse API response as JSON: ${parseError}`);
+      vacancyInfos.push(await fetchSingleVacancyInfo(vacancyId, client, log));
+    } catch (error: unknown) {
+      if (isSessionExpiredError(error)) throw error;
+      log(`Error fetching vacancy info for ${vacancyId}: ${error instanceof Error ? error.message : String(error)}`, 'error');
     }
-  } catch (error: unknown) {
-    log(`Error fetching vacancy data: ${error instanceof Error ? error.message : String(error)}`);
-    throw error;
   }
+  return vacancyInfos;
 }
 
-async function writeToGoogleSheet(sheetId: string, newData: { [key: string]: any }[], log: (message: string) => void) {
-  const auth = await getGoogleAuth();
-  const sheets = google.sheets({ version: 'v4', auth });
-
-  // Ensure Vacancies_output sheet exists
-  await ensureSheetExists(sheets, sheetId, 'Vacancies_output', log);
-
-  // Prepare headers
-  const headers = [
-    'Company name', 'INN', 'Full name', 'Email', 'Phone', 'Phone Comment', 'Individual Vacancy Link'
-  ];
-
-  // Prepare data for writing
-  const dataToWrite = [headers];
-
-  for (const row of newData) {
-    const rowData = [
-      row.companyName,
-      row.inn,
-      row.fullName,
-      row.email,
-      row.phone,
-      row.phoneComment,
-      row.individualVacancyLink
-    ];
-
-    dataToWrite.push(rowData);
-  }
-
-  // Write data
-  await sheets.spreadsheets.values.update({
-    spreadsheetId: sheetId,
-    range: 'Vacancies_output!A1',
-    valueInputOption: 'RAW',
-    requestBody: { values: dataToWrite },
-  });
-
-  log(`Written ${newData.length} vacancies to "Vacancies_output" sheet`);
-}
-
-function chunkString(str: string, length: number): string[] {
-  const chunks = [];
-  let i = 0;
-  while (i < str.length) {
-    chunks.push(str.slice(i, i + length));
-    i += length;
-  }
-  return chunks;
-}
+async function fetchSingleVacancyInfo(vacancyId: string, client: HHClient, log: Log): Promise<HHVacancy> {
+  log(`Making API request for vacancy: ${vacancyId}`);
 
-async function ensureSheetExists(sheets: any, sheetId: string, sheetName: string, log: (message: string) => void) {
   try {
-    await sheets.spreadsheets.get({
-      spreadsheetId: sheetId,
-      ranges: [`${sheetName}!A1`],
-    });
-    log(`Sheet "${sheetName}" already exists`);
+    const vacancyData = await client.getVacancy(vacancyId);
+    log(`Successfully fetched vacancy data for ID: ${vacancyId}`);
+    return vacancyData;
   } catch (error: unknown) {
-    // Sheet doesn't exist, create it
-    if (error instanceof Error && error.message.includes('not found')) {
-      await sheets.spreadsheets.batchUpdate({
-        spreadsheetId: sheetId,
-        resource: {
-          requests: [
-            {
-              addSheet: {
-                properties: {
-                  title: sheetName,
-                },
-              },
-            },
-          ],
-        },
-      });
-      log(`Created new sheet: ${sheetName}`);
-    } else {
-      // If it's not the expected error, rethrow it
-      log(`Unexpected error while checking sheet existence: ${error instanceof Error ? error.message : String(error)}`);
-      throw error;
-    }
+    log(`Error fetching vacancy data: ${error instanceof Error ? error.message : String(error)}`, 'error');
+    throw error;
   }
 }
 
-async function getGoogleAuth() {
-  const credentialsString = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  if (!credentialsString) {
-    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable is not set');
+async function writeToGoogleSheet(sheetId: string, newData: VacancyContactRow[], mode: SheetWriteMode, log: Log) {
+  const written = await createSheetsSink({ spreadsheetId: sheetId, mode }).write(toVacancyContactTable(newData));
+  if (written.format === 'sheets') {
+    log(`Written ${newData.length} vacancies to "${written.sheet}" sheet (${written.appended} added, ${written.updated} updated)`);
   }
-
-  let credentials;
-  try {
-    credentials = JSON.parse(credentialsString);
-  } catch (error) {
-    throw new Error('Failed to parse GOOGLE_APPLICATION_CREDENTIALS: ' + (error instanceof Error ? error.message : String(error)));
-  }
-
-  const auth = new google.auth.GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-  });
-  return auth;
 }
 
-function formatDataForDisplay(sheetData: string[][], updatedRows: { [key: string]: any }[]): string {
+function formatDataForDisplay(sheetData: string[][], updatedRows: VacancyContactRow[]): string {
   const headers = ['Company name', 'Individual Vacancy Link', 'Full name', 'Email', 'Phone', 'Phone Comment'];
   let output = headers.join('\t') + '\n';
 
@@ -397,81 +426,39 @@ function formatDataForDisplay(sheetData: string[][], updatedRows: { [key: string
   return output;
 }
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
-
-async function getIndividualVacancyLinks(employerUrl: string, log: (message: string) => void, vacancyLimit: number = 3): Promise<string[]> {
-  log(`Fetching employer page: ${employerUrl}`);
-  const response = await fetch(employerUrl);
+// Fallback only: reads the vacancy ids embedded in an hh.ru page's HTML state. Breaks whenever
+// hh.ru changes its markup (see dumps/), which is why the API is tried first.
+async function getVacancyIdsFromPageHtml(pageUrl: string, log: Log, vacancyLimit: number = 3): Promise<string[]> {
+  log(`Fetching page: ${pageUrl}`);
+  const response = await fetch(pageUrl, { signal: AbortSignal.timeout(30000) });
   const html = await response.text();
-  
+
   log(`Received HTML content (length: ${html.length} characters)`);
 
-  const vacancyLinks: string[] = [];
-  
+  const vacancyIds: string[] = [];
+
   // Regular expression to find all vacancy data
   const regex = /"@showContact":(true|false),"vacancyId":(\d+),"name":"([^"]+)"/g;
   let match;
 
-  while ((match = regex.exec(html)) !== null && vacancyLinks.length < vacancyLimit) {
+  while ((match = regex.exec(html)) !== null && vacancyIds.length < vacancyLimit) {
     const showContact = match[1] === 'true';
     const vacancyId = match[2];
     const name = match[3];
 
     if (showContact) {
-      const fullUrl = `https://hh.ru/vacancy/${vacancyId}`;
-      vacancyLinks.push(fullUrl);
-      log(`Found vacancy with contacts: ${name} - ${fullUrl}`);
-      await delay(1000); // 1 second delay between requests
+      vacancyIds.push(vacancyId);
+      log(`Found vacancy with contacts: ${name} - https://hh.ru/vacancy/${vacancyId}`);
     } else {
       log(`Skipping vacancy without contacts: ${name}`);
     }
-
-    if (vacancyLinks.length >= vacancyLimit) {
-      log(`Reached vacancy limit of ${vacancyLimit}. Stopping search.`);
-      break;
-    }
   }
 
-  if (vacancyLinks.length === 0) {
-    log('No vacancy links with contact buttons found.');
+  if (vacancyIds.length === 0) {
+    log('No vacancies with contact buttons found in the page HTML.');
   } else {
-    log(`Found ${vacancyLinks.length} vacancy links with contact buttons (limited to ${vacancyLimit})`);
+    log(`Found ${vacancyIds.length} vacancies with contact buttons in the page HTML (limited to ${vacancyLimit})`);
   }
-  
-  return vacancyLinks;
-}
 
-function extractVacancyLinks($: cheerio.CheerioAPI, log: (message: string) => void): string[] {
-  const vacancyLinks: string[] = [];
-  
-  // Target the specific elements containing vacancy links
-  const selector = 'a.magritte-link___b4rEM_4-3-2[data-qa="serp-item__title"]';
-  
-  $(selector).each((_, element) => {
-    const href = $(element).attr('href');
-    if (href) {
-      // hh.ru links are already full URLs, so we don't need to prepend the domain
-      vacancyLinks.push(href);
-    }
-  });
-  
-  if (vacancyLinks.length === 0) {
-    log('No vacancy links found. Dumping page content for debugging:');
-    log($.html().substring(0, 1000) + '...'); // Log first 1000 characters of HTML
-  } else {
-    log(`Found ${vacancyLinks.length} vacancy links`);
-  }
-  
-  return vacancyLinks;
+  return vacancyIds;
 }
-
-// Add timeout utility
-function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
-  return Promise.race([
-    promise,
-    new Promise((_, reject) => 
-      setTimeout(() => reject(new Error('Timeout')), ms)
-    )
-  ]) as Promise<T>;
-}
-
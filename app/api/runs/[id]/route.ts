@@ -0,0 +1,59 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { diffRunResumes, getRun, getRunContacts, getRunResumes, getRunVacancies } from '@/lib/db';
+import { authErrorResponse, requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { fileResponseHeaders, isFileOutputFormat, renderOutputFile } from '@/lib/output';
+import { runOutputTable } from '@/lib/output/runs';
+
+// Everything a run stored, straight from the local database (no HH requests).
+//   ?format=csv|xlsx|jsonl  re-export the run's results
+//   ?diffWith=<runId>       resume ids added/removed compared with another run
+export async function GET(request: NextRequest, { params }: { params: { id: string } }) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    const run = getRun(params.id);
+    if (!run || run.ownerId !== ownerId) {
+      return NextResponse.json({ error: 'Run not found' }, { status: 404 });
+    }
+
+    const searchParams = request.nextUrl.searchParams;
+
+    const format = searchParams.get('format');
+    if (format !== null) {
+      if (!isFileOutputFormat(format)) {
+        return NextResponse.json({ error: 'format must be csv, xlsx or jsonl' }, { status: 400 });
+      }
+      const file = await renderOutputFile(format, runOutputTable(run));
+      return new NextResponse(file.body, {
+        headers: fileResponseHeaders({ ...file, filename: file.filename.replace(/(\.\w+)$/, `-${run.id}$1`) })
+      });
+    }
+
+    const diffWith = searchParams.get('diffWith');
+    if (diffWith) {
+      const base = getRun(diffWith);
+      if (!base || base.ownerId !== ownerId) {
+        return NextResponse.json({ error: 'Run to compare with not found' }, { status: 404 });
+      }
+      return NextResponse.json({ run, base, diff: diffRunResumes(base.id, run.id) });
+    }
+
+    return NextResponse.json({
+      run,
+      resumes: getRunResumes(run.id),
+      vacancies: getRunVacancies(run.id),
+      contacts: getRunContacts(run.id)
+    });
+  } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error('Error reading search run:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
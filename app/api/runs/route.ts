@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { listRuns, type SearchRunType } from '@/lib/db';
+import { authErrorResponse, requireHHSession, resolveSessionUser } from '@/lib/hh';
+
+// Recent search runs of the current user, newest first. ?type=resume-search&limit=20
+export async function GET(request: NextRequest) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+    const searchParams = request.nextUrl.searchParams;
+    const type = (searchParams.get('type') || undefined) as SearchRunType | undefined;
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 500);
+
+    return NextResponse.json(listRuns(ownerId, { type, limit }));
+  } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    console.error('Error listing search runs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
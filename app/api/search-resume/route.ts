@@ -1,544 +1,276 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
-import { google } from 'googleapis';
+import {
+  HHClient,
+  authErrorResponse,
+  createCallMetrics,
+  requireHHSession,
+  resolveSessionUser,
+  type HHCallMetrics
+} from '@/lib/hh';
+import { countRunResumes, createRun, finishRun, getRun, updateRunParams, type SearchRun } from '@/lib/db';
+import { createCompanyNormalizer, type CompanyNameRules } from '@/lib/companyNames';
+import { loadCompanyNameRules } from '@/lib/companyNames/store';
+import { createInnResolver, loadEmployerIdSources } from '@/lib/employers';
+import {
+  attachEmployerIds,
+  decodePreviewCursor,
+  encodePreviewCursor,
+  fetchCompanyRowsFromSheet,
+  fetchPreviewChunk,
+  groupCompaniesByCleanName,
+  initialPreviewCursor,
+  mergeIntoRun,
+  parseExperienceMatchRules,
+  parseResumeSearchFilters,
+  withCandidateHistory,
+  type CompanyDedupeReport,
+  type CompanyGroup,
+  type ExperienceMatchRules,
+  type PreviewCursor,
+  type Resume,
+  type ResumeSearchFilters
+} from '@/lib/resumeSearch';
+import { parseQuery } from '@/lib/searchQuery';
+import { parseColumnOverrides, type ColumnOverrides } from '@/lib/sheets/columns';
+import { parseSheetInput, parseWorksheetRef, toSheetInput, type WorksheetRef } from '@/lib/sheets/source';
+import { logEvent, type ProgressEmitter } from '@/lib/progress/events';
+import { createEventStream, wantsEventStream } from '@/lib/progress/server';
+
+// Full searches that write to the sheet run as background jobs (POST /api/jobs with
+// type "resume-search"); this route only serves the preview. A preview fetches the first
+// page of results per company; the returned cursor continues it one page deeper.
 
-// Add interfaces at the top of the file
-interface Experience {
-  company?: string;
-  end?: string;
-  start?: string;
-  description?: string;
-  position?: string;
-}
+const MAX_DURATION_SEC = 60;
+const SAFETY_MARGIN_SEC = 10;
+const MAX_EXECUTION_MS = (MAX_DURATION_SEC - SAFETY_MARGIN_SEC) * 1000;
 
-interface Resume {
-  id: string;
-  title?: string;
-  experience?: Experience[];
-  age?: number;
-  area?: { name: string };
-  salary?: { amount: number; currency: string };
-  total_experience?: { months: number };
-  last_visit?: string;
-  updated_at?: string;
-  status?: string;
-  lastJobDescription?: string;
+// Recorded with the preview run; continuation requests read them from there, so every
+// page of a preview is searched the same way
+interface PreviewParams {
+  text: string;
+  // The companies come from the uploaded file when there is one, else from the sheet
+  sheetUrl?: string;
+  uploadId?: string;
+  filters: ResumeSearchFilters;
+  experienceRules: ExperienceMatchRules;
+  rules: CompanyNameRules;
+  // Leave out candidates this earlier run already found
+  newSinceRunId?: string;
+  // Headers picked for the company column when it isn't recognised automatically
+  columns?: ColumnOverrides;
+  worksheet?: WorksheetRef;
+  // Match employers by the HH ids in Company_Validation first
+  useEmployerIds?: boolean;
+  // Resolved by the first page; the cursor's indexes point into them
+  groups?: CompanyGroup[];
 }
 
-function formatDate(dateString: string | null): string {
-  if (!dateString) return 'N/A';
-  return new Date(dateString).toLocaleDateString('ru-RU');
+interface PreviewResult {
+  runId: string;
+  items: Resume[];
+  // Which input companies were merged or skipped by de-duplication; first page only
+  dedupe: CompanyDedupeReport | null;
+  // Pass back as `cursor` to fetch the next page; null when there is nothing more
+  cursor: string | null;
 }
 
-const TIMEOUT_MS = 15000; // Reduced from 30s to 15s
-const MAX_RETRIES = 0;    // Reduced from 3 to 0
-const BATCH_SIZE = 10;    // Increased from 5 to 10
-const DELAY_BETWEEN_REQUESTS = 100; // Reduced from 1000ms to 100ms
-const MAX_DURATION_SEC = 60;
-const SAFETY_MARGIN_SEC = 10; // Increased from 5s to 10s
-const MAX_EXECUTION_MS = (MAX_DURATION_SEC - SAFETY_MARGIN_SEC) * 1000;
-const MAX_RESULTS_PER_COMPANY = 1000; // Add this new limit
-const ITEMS_PER_PAGE = 100;
-const processedCleanNames = new Set<string>();
-
-// Add new timeout fetch wrapper
-async function fetchWithTimeout(url: string, options: RequestInit, timeout = TIMEOUT_MS): Promise<Response> {
-  const controller = new AbortController();
-  const timeoutId = setTimeout(() => controller.abort(), timeout);
-  
-  try {
-    const response = await fetch(url, {
-      ...options,
-      signal: controller.signal
-    });
-    clearTimeout(timeoutId);
-    return response;
-  } catch (error) {
-    clearTimeout(timeoutId);
-    throw error;
+class PreviewRequestError extends Error {
+  constructor(message: string, readonly status: number) {
+    super(message);
   }
 }
 
-// Helper function for delays
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+function addMetrics(total: HHCallMetrics | null, chunk: HHCallMetrics): HHCallMetrics {
+  const sum = { ...(total || createCallMetrics()) };
+  (Object.keys(sum) as (keyof HHCallMetrics)[]).forEach(key => {
+    sum[key] += chunk[key];
+  });
+  return sum;
+}
 
-// Update fetchResumeDetails with longer delays between retries
-async function fetchResumeDetails(resumeId: string, accessToken: string, retries = MAX_RETRIES): Promise<any> {
+function parseNewPreview(searchParams: URLSearchParams, ownerId: string): PreviewParams {
+  const sheetUrl = searchParams.get('sheetUrl') || undefined;
+  const uploadId = searchParams.get('uploadId') || undefined;
   try {
-    const url = `https://api.hh.ru/resumes/${resumeId}?with_job_search_status=true`;
-    const response = await fetchWithTimeout(url, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'User-Agent': 'api-test-agent',
-        'HH-User-Agent': 'api-test-agent'
-      }
-    });
-
-    if (response.status === 429) {
-      if (retries > 0) {
-        const waitTime = (MAX_RETRIES - retries + 1) * 1000; // Reduced from 2000 to 1000
-        console.log(`Rate limited, waiting ${waitTime}ms before retry`);
-        await delay(waitTime);
-        return fetchResumeDetails(resumeId, accessToken, retries - 1);
-      }
-    }
+    parseSheetInput({ sheetUrl, uploadId }, ownerId);
+  } catch (error) {
+    throw new PreviewRequestError(error instanceof Error ? error.message : String(error), 400);
+  }
 
-    if (!response.ok) {
-      throw new Error(`Failed with status ${response.status}`);
+  // Filters and experience rules arrive as JSON-encoded objects; the search text is
+  // validated here, so a broken query never reaches HH.ru
+  const newSinceRunId = searchParams.get('newSinceRunId') || undefined;
+  if (newSinceRunId) {
+    const baseRun = getRun(newSinceRunId);
+    if (!baseRun || baseRun.ownerId !== ownerId || (baseRun.type !== 'resume-search' && baseRun.type !== 'resume-preview')) {
+      throw new PreviewRequestError('Run to compare with not found', 404);
     }
+  }
 
-    const data = await response.json();
+  try {
+    const text = searchParams.get('text') || '';
+    const rawFilters = searchParams.get('filters');
+    const rawExperienceRules = searchParams.get('experienceRules');
+    const rawColumns = searchParams.get('columns');
+    parseQuery(text);
     return {
-      status: data.job_search_status?.name || 'N/A',
-      lastJobDescription: data.experience?.[0]?.description || 'N/A'
+      text,
+      sheetUrl,
+      uploadId,
+      filters: parseResumeSearchFilters(rawFilters ? JSON.parse(rawFilters) : undefined),
+      experienceRules: parseExperienceMatchRules(rawExperienceRules ? JSON.parse(rawExperienceRules) : undefined),
+      // The rules in effect are recorded with the run, so its match scores can be explained later
+      rules: loadCompanyNameRules(ownerId),
+      newSinceRunId,
+      columns: parseColumnOverrides(rawColumns ? JSON.parse(rawColumns) : undefined),
+      worksheet: parseWorksheetRef(searchParams.get('worksheet')),
+      useEmployerIds: searchParams.get('useEmployerIds') === 'true'
     };
   } catch (error) {
-    if (retries > 0) {
-      const waitTime = (MAX_RETRIES - retries + 1) * 1000;
-      console.log(`Error fetching resume ${resumeId}, waiting ${waitTime}ms before retry`);
-      await delay(waitTime);
-      return fetchResumeDetails(resumeId, accessToken, retries - 1);
-    }
-    console.error(`Failed to fetch details for resume ${resumeId}:`, error);
-    return null;
+    throw new PreviewRequestError(`Invalid search settings: ${error instanceof Error ? error.message : String(error)}`, 400);
   }
 }
 
-// Move helper function outside
-function isRecentOrCurrentExperience(exp: Experience): boolean {
-  if (!exp.end) return true;
-  
-  const endDate = new Date(exp.end);
-  const oneYearAgo = new Date();
-  oneYearAgo.setFullYear(oneYearAgo.getFullYear() - 1);
-  return endDate >= oneYearAgo;
-}
-
-// Add helper function to clean company names
-function cleanCompanyName(company: string): string {
-  const removeWords = [
-    'область',
-    'край',
-    'республика',
-    'округ',
-    'москва',
-    'московская',
-    'санкт-петербург',
-    'ленинградская',
-    'новосибирск',
-    'район',
-    'город',
-    'пао',
-    'оао',
-    'ооо',
-    'зао',
-    'ао',
-    'группа',
-    'компаний',
-    'компания',
-    'корпорация',
-    'холдинг',
-    'филиал',
-    'представительство',
-    'общество с ограниченной ответственностью',
-    'акционерное общество'
-  ].map(word => word.toLowerCase());
-
-  // 1. First remove quotes and convert to lowercase
-  let cleanName = company
-    .replace(/["'«»]/g, '')  // Remove all types of quotes first
-    .toLowerCase();
-  
-  // 2. Remove all legal entity words
-  for (const word of removeWords) {
-    // More aggressive word removal
-    cleanName = cleanName
-      .replace(new RegExp(`^${word}\\s+`, 'g'), '')  // At start
-      .replace(new RegExp(`\\s+${word}\\s+`, 'g'), ' ')  // In middle
-      .replace(new RegExp(`\\s+${word}$`, 'g'), '');  // At end
+function loadPreviewRun(cursor: PreviewCursor, ownerId: string): SearchRun<PreviewParams> {
+  const run = getRun<PreviewParams>(cursor.runId);
+  if (!run || run.ownerId !== ownerId || run.type !== 'resume-preview') {
+    throw new PreviewRequestError('Preview not found', 404);
   }
-
-  // 3. Clean up formatting
-  cleanName = cleanName
-    .replace(/[.,]/g, '')       // Remove dots and commas
-    .replace(/\(\s*\)/g, '')    // Remove empty parentheses
-    .replace(/\s+/g, ' ')       // Normalize spaces
-    .replace(/^\s*-\s*/, '')    // Remove leading hyphen
-    .replace(/\s*-\s*$/, '')    // Remove trailing hyphen
-    .trim();
-
-  // console.log(`Original: "${company}" -> Cleaned: "${cleanName}"`);
-  return cleanName;
-}
-
-async function fetchResumes(searchText: string, limit: number, accessToken: string, companies: string[]): Promise<Resume[]> {
-  const startTime = Date.now();
-  let allItems: Resume[] = [];
-  
-  for (const company of companies) {
-    if (Date.now() - startTime > MAX_EXECUTION_MS) {
-      console.log('Time limit approaching, stopping search');
-      break;
-    }
-
-    if (allItems.length >= limit) {
-      console.log('Reached requested limit, stopping search');
-      break;
-    }
-
-    const cleanName = cleanCompanyName(company);
-    console.log(`Original: "${company}" -> Cleaned: "${cleanName}"`);
-
-    // Skip empty or already processed clean names
-    if (!cleanName) {
-      console.log(`Skipping empty company name after cleaning: ${company}`);
-      continue;
-    }
-    
-    if (processedCleanNames.has(cleanName)) {
-      console.log(`Skipping duplicate clean name "${cleanName}" for company "${company}"`);
-      continue;
-    }
-
-    processedCleanNames.add(cleanName);
-    
-    const fullQuery = `"${cleanName}" AND (${searchText})`;
-    
-    const searchParams = new URLSearchParams({
-      text: fullQuery,
-      search_field: 'company_name,position,skill_set',
-      period: '365',
-      area: '113',
-      relocation: 'living_or_relocation',
-      order_by: 'relevance',
-      per_page: ITEMS_PER_PAGE.toString(),
-      clusters: 'true',
-      no_magic: 'true',
-      fields: 'last_name,first_name,middle_name,age,area,salary,title,experience,total_experience,last_visit,updated_at'
-    });
-
-    console.log(`Searching for company: ${cleanName}`);
-    let page = 0;
-    let companyItems: Resume[] = [];
-
-    while (true) {
-      // Add time check inside the pagination loop
-      if (Date.now() - startTime > MAX_EXECUTION_MS || 
-          companyItems.length >= MAX_RESULTS_PER_COMPANY) {
-        console.log(`Stopping search for ${cleanName} - ${
-          Date.now() - startTime > MAX_EXECUTION_MS ? 'time limit' : 'result limit'
-        } reached`);
-        break;
-      }
-
-      searchParams.set('page', page.toString());
-      const pageUrl = `https://api.hh.ru/resumes?${searchParams.toString()}`;
-      
-      try {
-        const response = await fetchWithTimeout(pageUrl, {
-          headers: {
-            'Authorization': `Bearer ${accessToken}`,
-            'User-Agent': 'api-test-agent',
-            'HH-User-Agent': 'api-test-agent'
-          }
-        });
-        
-        if (!response.ok) {
-          const errorText = await response.text();
-          throw new Error(`API request failed: ${response.status} ${response.statusText} - ${errorText}`);
-        }
-        
-        const data = await response.json();
-        
-        if (!data.items || data.items.length === 0) {
-          console.log(`No more matches found for ${cleanName}`);
-          break;
-        }
-
-        // Filter for exact company match and recent experience
-        const newItems = data.items.filter((item: Resume) => 
-          item.experience?.some((exp: Experience) => {
-            const expCompanyClean = cleanCompanyName(exp.company || '');
-            const isCompanyMatch = expCompanyClean === cleanName;
-            return isCompanyMatch && isRecentOrCurrentExperience(exp);
-          })
-        );
-
-        companyItems = companyItems.concat(newItems);
-        console.log(`Found ${newItems.length} exact matches on page ${page} for ${cleanName}. Total for company: ${companyItems.length}/${data.found}`);
-
-        if (page * ITEMS_PER_PAGE >= data.found) break;
-        page++;
-      } catch (error) {
-        console.error(`Error fetching page ${page} for company ${cleanName}:`, error);
-        break;
-      }
-    }
-
-    // Add company results to total
-    allItems = allItems.concat(companyItems);
-    console.log(`Total resumes found across all companies so far: ${allItems.length}`);
+  if (!run.params.groups) {
+    throw new PreviewRequestError('This preview can no longer be continued, start a new one', 409);
   }
-  
-  // Limit total results
-  allItems = allItems.slice(0, limit);
-  
-  console.log('Fetching detailed info for matching resumes...');
-  const enrichedItems: Resume[] = [];
-  
-  // Process in smaller batches, sequentially
-  for (let i = 0; i < allItems.length; i += BATCH_SIZE) {
-    if (Date.now() - startTime > MAX_EXECUTION_MS) {
-      console.log('Approaching timeout limit, stopping enrichment');
-      break;
-    }
-
-    const batch = allItems.slice(i, i + BATCH_SIZE);
-    console.log(`Processing batch ${i/BATCH_SIZE + 1}, items ${i}-${i + batch.length}`);
-    
-    // Process each resume in batch sequentially
-    for (const item of batch) {
-      const details = await fetchResumeDetails(item.id, accessToken);
-      if (details) {
-        enrichedItems.push({
-          ...item,
-          status: details.status,
-          lastJobDescription: details.lastJobDescription
-        });
-      } else {
-        enrichedItems.push(item);
-      }
-      await delay(DELAY_BETWEEN_REQUESTS); // Wait between requests
-    }
-    
-    // Add delay between batches
-    if (i + BATCH_SIZE < allItems.length) {
-      await delay(DELAY_BETWEEN_REQUESTS);  // Now 100ms instead of 2000ms
-    }
-  }
-
-  return enrichedItems;
-}
-
-function matchesSearchCriteria(resume: any, searchTerms: string[]): boolean {
-  if (searchTerms.length === 0) return true;
-  const title = resume.title?.toLowerCase() || '';
-  const skills = resume.skill_set?.join(' ').toLowerCase() || '';
-  return searchTerms.some(term => title.includes(term) || skills.includes(term));
+  return run;
 }
 
-function convertToCSV(items: any[]): string {
-  const headers = [
-    'Искомая должность',
-    'Последнее место работы - Компания',
-    'Последнее место работы - Должность',
-    'Последнее место работы - Описание',
-    'Последнее место работы - Период',
-    'Статус поиска работы',
-    'Ссылка',
-    'Возраст',
-    'Желаемая зарплата',
-    'Обновлено',
-    'Город',
-    'Общий опыт работы'
-  ];
-
-  const rows = items.map(item => {
-    const lastJob = item.experience?.[0] || {};
-    return [
-      item.title || '',
-      lastJob.company || '',
-      lastJob.position || '',
-      item.lastJobDescription || '',
-      `${formatDate(lastJob.start)} - ${formatDate(lastJob.end)}`,
-      item.status || '',
-      `https://hh.ru/resume/${item.id}`,
-      item.age || '',
-      item.salary ? `${item.salary.amount || ''} ${item.salary.currency || ''}` : '',
-      item.updated_at || '',
-      item.area?.name || '',
-      item.total_experience?.months 
-        ? `${Math.floor(item.total_experience.months / 12)} лет ${item.total_experience.months % 12} месяцев`
-        : ''
-    ];
+// Reads and groups the companies once per preview; later pages reuse the groups saved with the
+// run instead of reading the sheet and resolving INNs again
+async function resolvePreviewGroups(
+  run: SearchRun<PreviewParams>,
+  client: HHClient,
+  emit: ProgressEmitter
+): Promise<{ groups: CompanyGroup[]; report: CompanyDedupeReport }> {
+  const { params } = run;
+  const normalizer = createCompanyNormalizer(params.rules);
+  const rows = await fetchCompanyRowsFromSheet(toSheetInput(params), {
+    columns: params.columns,
+    worksheet: params.worksheet
   });
+  const companies = rows.map(row => row.name);
+  const grouped = groupCompaniesByCleanName(companies, normalizer);
+  const { report } = grouped;
+  let { groups } = grouped;
+  emit(logEvent(`Fetched ${companies.length} companies from ${params.uploadId ? 'the uploaded file' : 'sheet'}, ${groups.length} after de-duplication`));
+  report.merged.forEach(group => emit(logEvent(`Merged ${group.companies.map(name => `"${name}"`).join(', ')} as "${group.cleanName}"`)));
+  report.skipped.forEach(company => emit(logEvent(`Skipping "${company}": empty after cleaning`)));
+
+  if (params.useEmployerIds) {
+    const { validated, decisions, fromInn } = await loadEmployerIdSources(toSheetInput(params), run.ownerId, {
+      rows,
+      resolveInn: createInnResolver(client, normalizer)
+    });
+    const attached = attachEmployerIds(groups, validated, normalizer, decisions);
+    groups = attached.groups;
+    if (fromInn > 0) emit(logEvent(`Resolved HH employers of ${fromInn} companies by INN`));
+    emit(logEvent(`${attached.withIds} of ${groups.length} companies have HH employer ids, the rest are matched by name`));
+  }
 
-  return [headers, ...rows]
-    .map(row => row.map(cell => `"${String(cell).replace(/"/g, '""')}"`).join(','))
-    .join('\n');
+  updateRunParams(run.id, { ...params, groups });
+  return { groups, report };
 }
 
-// Add function to fetch companies from Google Sheet
-async function fetchCompaniesFromSheet(spreadsheetUrl: string): Promise<string[]> {
+// Every preview is recorded as a search run (one per preview, however many pages are loaded),
+// so its resumes can be re-exported, diffed and written to the sheet without new HH requests
+async function runPreview(
+  run: SearchRun<PreviewParams>,
+  cursor: PreviewCursor | null,
+  client: HHClient,
+  emit: ProgressEmitter = () => undefined
+): Promise<PreviewResult> {
+  const deadline = Date.now() + MAX_EXECUTION_MS;
+  const { params } = run;
   try {
-    // Extract the spreadsheet ID from the URL
-    const matches = spreadsheetUrl.match(/\/d\/([a-zA-Z0-9-_]+)/);
-    if (!matches) {
-      throw new Error('Invalid Google Sheet URL format');
+    const normalizer = createCompanyNormalizer(params.rules);
+    let report: CompanyDedupeReport | null = null;
+    let groups = params.groups;
+    if (!groups) {
+      const resolved = await resolvePreviewGroups(run, client, emit);
+      groups = resolved.groups;
+      report = resolved.report;
     }
-    const spreadsheetId = matches[1];
 
-    const auth = await getGoogleAuth();
-    const sheets = google.sheets({ version: 'v4', auth });
-    
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId,  // Use the extracted ID, not the full URL
-      range: 'A:A', // Assumes companies are in column A
+    const chunk = await fetchPreviewChunk(client, groups, cursor || initialPreviewCursor(run.id, groups), {
+      query: parseQuery(params.text),
+      filters: params.filters,
+      experienceRules: params.experienceRules,
+      normalizer,
+      deadline,
+      emit
     });
-
-    const rows = response.data.values;
-    if (!rows || rows.length === 0) {
-      throw new Error('No companies found in the sheet');
-    }
-
-    // Skip header row and get unique companies
-    return Array.from(new Set(rows.slice(1).map(row => row[0]?.trim()).filter(Boolean)));
-  } catch (error) {
-    console.error('Error fetching from Google Sheet:', error);
-    throw new Error('Failed to fetch companies from Google Sheet');
-  }
-}
-
-// Add getGoogleAuth function
-async function getGoogleAuth() {
-  const credentialsString = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  if (!credentialsString) {
-    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable is not set');
-  }
-
-  let credentials;
-  try {
-    credentials = JSON.parse(credentialsString);
-  } catch (error) {
-    throw new Error('Failed to parse GOOGLE_APPLICATION_CREDENTIALS: ' + (error instanceof Error ? error.message : String(error)));
-  }
-
-  const auth = new google.auth.GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-  });
-  return auth;
-}
-
-// Update writeResumesToSheet to use getGoogleAuth instead of getGoogleAuthClient
-async function writeResumesToSheet(sheetId: string, items: any[]): Promise<void> {
-  const auth = await getGoogleAuth();
-  const sheets = google.sheets({ version: 'v4', auth });
-
-  const headers = [
-    'Искомая должность',
-    'Последнее место работы - Компания',
-    'Последнее место аботы - Должность',
-    'Последнее место работы - Описание',
-    'Последнее место работы - Период',
-    'Статус поиска работы',
-    'Ссылка',
-    'Возраст',
-    'Желаемая зарплата',
-    'Обновлено',
-    'Город',
-    'Общий опыт работы'
-  ];
-
-  const rows = items.map(item => {
-    const lastJob = item.experience?.[0] || {};
-    return [
-      item.title || '',
-      lastJob.company || '',
-      lastJob.position || '',
-      item.lastJobDescription || '',
-      `${formatDate(lastJob.start)} - ${formatDate(lastJob.end)}`,
-      item.status || '',
-      `https://hh.ru/resume/${item.id}`,
-      item.age || '',
-      item.salary ? `${item.salary.amount || ''} ${item.salary.currency || ''}` : '',
-      item.updated_at || '',
-      item.area?.name || '',
-      item.total_experience?.months 
-        ? `${Math.floor(item.total_experience.months / 12)} лет ${item.total_experience.months % 12} месяцев`
-        : ''
-    ];
-  });
-
-  const dataToWrite = [headers, ...rows];
-
-  // Ensure Resume_output sheet exists
-  try {
-    await sheets.spreadsheets.values.get({
-      spreadsheetId: sheetId,
-      range: 'Resume_output!A1',
+    // A candidate found through several companies is shown once, also across pages
+    const { added: items } = mergeIntoRun(run.id, chunk.items, { newSinceRunId: params.newSinceRunId });
+    finishRun(run.id, {
+      status: 'completed',
+      resultCount: countRunResumes(run.id),
+      apiCalls: addMetrics(run.apiCalls, client.metrics)
     });
+
+    return {
+      runId: run.id,
+      items: withCandidateHistory(items, run.ownerId, run.id),
+      dedupe: report,
+      cursor: chunk.cursor ? encodePreviewCursor(chunk.cursor) : null
+    };
   } catch (error) {
-    // Sheet doesn't exist, create it
-    await sheets.spreadsheets.batchUpdate({
-      spreadsheetId: sheetId,
-      requestBody: {
-        requests: [{
-          addSheet: {
-            properties: { title: 'Resume_output' }
-          }
-        }]
-      }
+    finishRun(run.id, {
+      status: 'failed',
+      error: error instanceof Error ? error.message : String(error),
+      apiCalls: addMetrics(run.apiCalls, client.metrics)
     });
+    throw error;
   }
-
-  // Write data
-  await sheets.spreadsheets.values.update({
-    spreadsheetId: sheetId,
-    range: 'Resume_output!A1',
-    valueInputOption: 'RAW',
-    requestBody: { values: dataToWrite },
-  });
 }
 
-// Modify the GET handler to write to sheet
 export const GET = async (request: NextRequest) => {
-  const startTime = Date.now();
-  
   try {
     const searchParams = request.nextUrl.searchParams;
-    const text = searchParams.get('text') || '';
-    const totalLimit = parseInt(searchParams.get('totalLimit') || '100', 10);
-    const mode = searchParams.get('mode') || 'full';
-    const accessToken = searchParams.get('accessToken');
-    const sheetUrl = searchParams.get('sheetUrl');
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
 
-    if (!accessToken || !sheetUrl) {
-      throw new Error('Access token and Google Sheet URL are required');
+    let run: SearchRun<PreviewParams>;
+    let cursor: PreviewCursor | null = null;
+    const rawCursor = searchParams.get('cursor');
+    if (rawCursor) {
+      try {
+        cursor = decodePreviewCursor(rawCursor);
+      } catch (error) {
+        throw new PreviewRequestError(error instanceof Error ? error.message : String(error), 400);
+      }
+      run = loadPreviewRun(cursor, ownerId);
+    } else {
+      const params = parseNewPreview(searchParams, ownerId);
+      run = createRun('resume-preview', ownerId, params);
     }
 
-    // Extract sheet ID from URL
-    const matches = decodeURIComponent(sheetUrl).match(/\/d\/([a-zA-Z0-9-_]+)/);
-    if (!matches) throw new Error('Invalid Google Sheet URL');
-    const sheetId = matches[1];
-
-    // Fetch companies from Google Sheet
-    const companies = await fetchCompaniesFromSheet(decodeURIComponent(sheetUrl));
-    console.log(`Fetched ${companies.length} companies from sheet`);
-
-    const allItems = await fetchResumes(text, totalLimit, accessToken, companies);
-    const isPreview = mode === 'preview';
-    const limitedItems = allItems.slice(0, isPreview ? 10 : totalLimit);
+    const client = new HHClient({ accessToken: session.accessToken });
 
-    if (!isPreview) {
-      if (Date.now() - startTime > MAX_EXECUTION_MS) {
-        return NextResponse.json({ 
-          success: false,
-          message: 'Operation timed out, partial results obtained',
-          count: allItems.length 
-        });
-      }
-      
-      await writeResumesToSheet(sheetId, limitedItems);
-      return NextResponse.json({ 
-        success: true, 
-        message: 'Data successfully written to sheet',
-        count: limitedItems.length 
+    // With `Accept: text/event-stream` the search streams its progress and the preview
+    // arrives as the final `result` event
+    if (wantsEventStream(request)) {
+      return createEventStream(async emit => {
+        emit({ type: 'result', data: await runPreview(run, cursor, client, emit) });
       });
-    } else {
-      return NextResponse.json(limitedItems);
     }
+
+    return NextResponse.json(await runPreview(run, cursor, client));
   } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    if (error instanceof PreviewRequestError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error('Error in resume search:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Unknown error occurred' },
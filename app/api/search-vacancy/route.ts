@@ -1,25 +1,36 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
+import { createRun, finishRun, saveRunVacancies } from '@/lib/db';
+import {
+  HHClient,
+  authErrorResponse,
+  requireHHSession,
+  resolveSessionUser,
+  type HHQuery,
+  type HHVacancy
+} from '@/lib/hh';
+import {
+  createSheetsSink,
+  parseOutputFormat,
+  runDownloadUrl,
+  toVacancySearchTable,
+  type OutputFormat
+} from '@/lib/output';
+import { extractSheetId } from '@/lib/sheets/google';
 
-async function fetchVacancies(url: string, limit: number): Promise<any[]> {
-  let allItems: any[] = [];
+async function fetchVacancies(client: HHClient, query: HHQuery, limit: number): Promise<HHVacancy[]> {
+  let allItems: HHVacancy[] = [];
   let page = 0;
   
   while (allItems.length < limit) {
-    const pageUrl = `${url}&page=${page}&per_page=100`;
-    console.log(`Fetching: ${pageUrl}`);
-    const response = await fetch(pageUrl, {
-      headers: {
-        'User-Agent': 'api-test-agent',
-        'Accept': 'application/json'
-      }
-    });
-    const data = await response.json();
+    console.log(`Fetching vacancies page ${page}:`, query);
+    const data = await client.searchVacancies({ ...query, page, per_page: 100 });
     
     if (data.items && data.items.length > 0) {
       allItems = allItems.concat(data.items);
       console.log(`Fetched ${data.items.length} items. Total: ${allItems.length}`);
       page++;
+      if (page >= data.pages) break;
     } else {
       console.log('No more items found');
       break;
@@ -29,19 +40,12 @@ async function fetchVacancies(url: string, limit: number): Promise<any[]> {
   return allItems.slice(0, limit);
 }
 
-async function fetchCompanyIds(companyName: string): Promise<string[]> {
-  const url = `https://api.hh.ru/employers?text=${encodeURIComponent(companyName)}`;
-  console.log(`Searching for company: ${url}`);
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'api-test-agent',
-      'Accept': 'application/json'
-    }
-  });
-  const data = await response.json();
+async function fetchCompanyIds(client: HHClient, companyName: string): Promise<string[]> {
+  console.log(`Searching for company: ${companyName}`);
+  const data = await client.searchEmployers({ text: companyName });
   
   if (data.items && data.items.length > 0) {
-    const ids = data.items.map((item: any) => item.id);
+    const ids = data.items.map(item => item.id);
     console.log(`Found companies for "${companyName}": ${ids.join(', ')}`);
     return ids;
   }
@@ -49,46 +53,22 @@ async function fetchCompanyIds(companyName: string): Promise<string[]> {
   return [];
 }
 
-function matchesSearchCriteria(vacancy: any, searchTerms: string[]): boolean {
+function matchesSearchCriteria(vacancy: HHVacancy, searchTerms: string[]): boolean {
   if (searchTerms.length === 0) return true;
   const title = vacancy.name.toLowerCase();
   const description = vacancy.snippet?.requirement?.toLowerCase() || '';
   return searchTerms.some(term => title.includes(term) || description.includes(term));
 }
 
-function escapeCSV(field: string): string {
-  if (field.includes(',') || field.includes('"') || field.includes('\n')) {
-    return `"${field.replace(/"/g, '""')}"`;
-  }
-  return field;
-}
-
-function convertToCSV(items: any[]): string {
-  if (items.length === 0) {
-    return 'No vacancies found';
-  }
-  const headers = ['ID', 'Name', 'Employer', 'Salary From', 'Salary To', 'Currency', 'URL'];
-  const rows = items.map(item => [
-    item.id,
-    escapeCSV(item.name),
-    escapeCSV(item.employer.name),
-    item.salary?.from || '',
-    item.salary?.to || '',
-    item.salary?.currency || '',
-    item.alternate_url
-  ]);
-  return [headers, ...rows].map(row => row.join(',')).join('\n');
-}
-
-async function getVacancyDetails(vacancyId: string) {
-  const response = await fetch(`https://api.hh.ru/vacancies/${vacancyId}`);
-  if (!response.ok) {
-    console.error(`Failed to fetch vacancy details for ID ${vacancyId}: ${response.statusText}`);
+async function getVacancyDetails(client: HHClient, vacancyId: string): Promise<HHVacancy | null> {
+  try {
+    const data = await client.getVacancy(vacancyId);
+    console.log(`Vacancy details for ID ${vacancyId}:`, JSON.stringify(data, null, 2));
+    return data;
+  } catch (error) {
+    console.error(`Failed to fetch vacancy details for ID ${vacancyId}:`, error instanceof Error ? error.message : String(error));
     return null;
   }
-  const data = await response.json();
-  console.log(`Vacancy details for ID ${vacancyId}:`, JSON.stringify(data, null, 2));
-  return data;
 }
 
 export const dynamic = 'force-dynamic';
@@ -101,20 +81,34 @@ export const GET = async (request: NextRequest) => {
     const totalLimit = parseInt(searchParams.get('totalLimit') || '100', 10);
     const limitPerCompany = parseInt(searchParams.get('limitPerCompany') || '3', 10);
     const mode = searchParams.get('mode') || 'full'; // 'preview' or 'full'
+    // Where the full mode's results go; `format` is what older links used for the file type
+    let output: OutputFormat;
+    try {
+      output = parseOutputFormat(searchParams.get('output') ?? searchParams.get('format') ?? undefined);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+    const sheetUrl = searchParams.get('sheetUrl') || '';
+    const sheetId = sheetUrl ? extractSheetId(sheetUrl) : null;
+    if (mode !== 'preview' && output === 'sheets' && !sheetId) {
+      return NextResponse.json({ error: 'A valid Google Sheet URL is required to write the results to a sheet' }, { status: 400 });
+    }
+    // The full search is recorded as a run of the signed-in user; files are downloaded from it
+    const ownerId = mode === 'preview' ? null : await resolveSessionUser(requireHHSession(request));
     
     console.log(`Received request - Mode: ${mode}, Text: "${text}", Companies: ${companies.join(', ')}, Total Limit: ${totalLimit}, Limit per Company: ${limitPerCompany}`);
 
     const searchTerms = text ? text.toLowerCase().split(' OR ').map(term => term.replace(/['"~]/g, '').trim()) : [];
-    let allItems: any[] = [];
+    const client = new HHClient();
+    let allItems: HHVacancy[] = [];
 
     for (const company of companies) {
-      const companyIds = await fetchCompanyIds(company);
+      const companyIds = await fetchCompanyIds(client, company);
       for (const companyId of companyIds) {
         if (allItems.length >= totalLimit) break;
         
-        const baseUrl = `https://api.hh.ru/vacancies?employer_id=${companyId}${text ? `&text=${encodeURIComponent(text)}` : ''}`;
         console.log(`Fetching vacancies for company: ${company} (ID: ${companyId})`);
-        const companyItems = await fetchVacancies(baseUrl, limitPerCompany);
+        const companyItems = await fetchVacancies(client, { employer_id: companyId, text }, limitPerCompany);
         allItems = allItems.concat(companyItems);
         console.log(`Found ${companyItems.length} matching vacancies for ${company} (ID: ${companyId})`);
         
@@ -131,19 +125,36 @@ export const GET = async (request: NextRequest) => {
 
     if (mode === 'preview') {
       return NextResponse.json(allItems);
-    } else {
-      const csv = convertToCSV(allItems);
-      return new NextResponse(csv, {
-        status: 200,
-        headers: {
-          'Content-Type': 'text/csv',
-          'Content-Disposition': 'attachment; filename=vacancies.csv'
-        }
-      });
     }
 
-    // ... error handling ...
+    const run = createRun('vacancy-search', ownerId as string, { text, companies, totalLimit, limitPerCompany, sheetUrl, output });
+    try {
+      saveRunVacancies(run.id, allItems.map(vacancy => ({ vacancy })));
+      // File outputs are rendered from the stored run when they are downloaded
+      const downloadUrl = output === 'sheets' ? undefined : runDownloadUrl(run.id, output);
+      if (output === 'sheets') {
+        await createSheetsSink({ spreadsheetId: sheetId as string, mode: 'overwrite' }).write(toVacancySearchTable(allItems));
+      }
+      finishRun(run.id, { status: 'completed', resultCount: allItems.length, apiCalls: client.metrics });
+      return NextResponse.json({
+        message: downloadUrl ? 'Vacancies are ready to download' : 'Google Sheet updated successfully',
+        runId: run.id,
+        downloadUrl,
+        count: allItems.length,
+        apiCalls: client.metrics
+      });
+    } catch (error) {
+      finishRun(run.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        apiCalls: client.metrics
+      });
+      throw error;
+    }
   } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error('Error fetching from HH API:', error);
     
     let errorMessage = 'Failed to fetch data from HH API';
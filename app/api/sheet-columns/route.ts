@@ -0,0 +1,48 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { authErrorResponse, requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { detectColumns, parseColumnOverrides } from '@/lib/sheets/columns';
+import { parseSheetInput, parseWorksheetRef, readInputSheet, type SheetInput } from '@/lib/sheets/source';
+import { SHEET_SCHEMAS } from '@/lib/sheets/schemas';
+
+// Checks an input sheet's headers against a tool's columns before the tool runs. The UI shows
+// a mapping step for whatever is missing and passes the picked headers back as `columns`.
+export async function POST(request: NextRequest) {
+  const { sheetUrl, uploadId, schema: schemaId, columns: columnsInput, worksheet } = await request.json();
+
+  const schema = typeof schemaId === 'string' ? SHEET_SCHEMAS[schemaId] : undefined;
+  if (!schema) {
+    return NextResponse.json({ error: `Unknown schema, expected one of: ${Object.keys(SHEET_SCHEMAS).join(', ')}` }, { status: 400 });
+  }
+
+  let input: SheetInput;
+  try {
+    // Uploads belong to the HH user who sent them; sheets need no session
+    const ownerId = uploadId ? await resolveSessionUser(requireHHSession(request)) : '';
+    input = parseSheetInput({ sheetUrl, uploadId }, ownerId);
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+  }
+
+  try {
+    const { title, rows } = await readInputSheet(input, schema, parseWorksheetRef(worksheet));
+    const headers = (rows[0] || []).map(header => header.trim());
+    const { mapping, missing } = detectColumns(schema, headers, parseColumnOverrides(columnsInput));
+
+    return NextResponse.json({
+      worksheet: title,
+      headers,
+      // Header each field was found under
+      detected: Object.fromEntries(Object.entries(mapping).map(([field, index]) => [field, headers[index]])),
+      missing: missing.map(column => column.field)
+    });
+  } catch (error) {
+    console.error('Error reading sheet headers:', error);
+    return NextResponse.json({
+      error: 'Failed to read the sheet',
+      details: error instanceof Error ? error.message : String(error)
+    }, { status: 500 });
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from 'next/server';
+import { NextRequest } from 'next/server';
+import { saveUpload } from '@/lib/db';
+import { authErrorResponse, requireHHSession, resolveSessionUser } from '@/lib/hh';
+import { UploadError, checkUploadSize, parseUploadedFile } from '@/lib/sheets/upload';
+
+// Takes an XLSX/CSV file as a tool's input instead of a Google Sheet. The rows are parsed and
+// stored here; tools get the returned `uploadId` and find their columns the same way as in a sheet.
+export async function POST(request: NextRequest) {
+  try {
+    const ownerId = await resolveSessionUser(requireHHSession(request));
+
+    const form = await request.formData();
+    const file = form.get('file');
+    if (!file || typeof file === 'string') {
+      return NextResponse.json({ error: 'Attach the file as "file"' }, { status: 400 });
+    }
+
+    checkUploadSize(file.size);
+
+    const worksheets = parseUploadedFile(file.name, Buffer.from(await file.arrayBuffer()));
+    const upload = saveUpload(ownerId, file.name, worksheets);
+
+    return NextResponse.json({
+      uploadId: upload.id,
+      filename: upload.filename,
+      worksheets: worksheets.map(worksheet => ({ title: worksheet.title, rows: Math.max(worksheet.rows.length - 1, 0) }))
+    });
+  } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    if (error instanceof UploadError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('Error reading uploaded file:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+export const dynamic = 'force-dynamic';
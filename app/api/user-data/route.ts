@@ -1,30 +1,20 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
+import { registerSession } from '@/lib/db';
+import { HHClient, authErrorResponse, requireHHSession } from '@/lib/hh';
 
 export async function GET(request: NextRequest) {
-  const accessToken = request.cookies.get('hh_access_token')?.value;
-
-  if (!accessToken) {
-    return NextResponse.json({ error: 'Not authenticated' }, { status: 401 });
-  }
-
   try {
-    const response = await fetch('https://api.hh.ru/me', {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'User-Agent': 'HH-User-Agent'
-      }
-    });
-
-    if (!response.ok) {
-      throw new Error('Failed to fetch user data');
-    }
-
-    const userData = await response.json();
+    const { accessToken } = requireHHSession(request);
+    const userData = await new HHClient({ accessToken }).getMe();
+    registerSession(userData.id, accessToken);
     
-    // Include the access token in the response
-    return NextResponse.json({ ...userData, access_token: accessToken });
+    // The token itself stays in the httpOnly cookie and is never sent to the browser
+    return NextResponse.json(userData);
   } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
     console.error('Error fetching user data:', error);
     return NextResponse.json({ error: 'Failed to fetch user data' }, { status: 500 });
   }
@@ -1,137 +1,181 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
-import { google } from 'googleapis';
+import { createCompanyNormalizer } from '@/lib/companyNames';
+import { loadCompanyNameRules } from '@/lib/companyNames/store';
+import {
+  classifyCompany,
+  parseEmployerSearchFilters,
+  searchAllEmployers,
+  summarizeValidation,
+  toValidationSummaryTable,
+  toValidationTable,
+  type CompanyValidation,
+  type EmployerSearchFilters
+} from '@/lib/employers/validation';
+import { createRun, finishRun, saveRunCompanies, type SearchRun } from '@/lib/db';
+import {
+  ACCESS_TOKEN_COOKIE,
+  HHClient,
+  authErrorResponse,
+  getMaxConcurrency,
+  isHHApiError,
+  isSessionExpiredError,
+  mapWithConcurrency,
+  requireHHSession,
+  resolveSessionUser
+} from '@/lib/hh';
+import { createSheetsSink, parseOutputFormat, runDownloadUrl, type OutputFormat } from '@/lib/output';
+import { logEvent, type ProgressEmitter } from '@/lib/progress/events';
+import { createEventStream, wantsEventStream } from '@/lib/progress/server';
+import { fetchCompaniesFromSheet } from '@/lib/resumeSearch';
+import { isSheetColumnsError, parseColumnOverrides } from '@/lib/sheets/columns';
+import { extractSheetId } from '@/lib/sheets/google';
+import { parseWorksheetRef, type InputSheetOptions } from '@/lib/sheets/source';
 
-async function getGoogleAuth() {
-  const credentialsString = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  if (!credentialsString) {
-    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable is not set');
+async function validateCompanies(
+  sheetId: string,
+  input: InputSheetOptions,
+  filters: EmployerSearchFilters,
+  output: OutputFormat,
+  client: HHClient,
+  ownerId: string | null,
+  run: SearchRun | null,
+  emit: ProgressEmitter
+) {
+  // Get companies from sheet, the same column the resume search reads
+  emit({ type: 'progress', phase: 'load', completed: 0, total: 0, message: 'Fetching companies' });
+  const companies = await fetchCompaniesFromSheet({ sheetId }, input);
+  if (companies.length === 0) {
+    throw new Error('No companies found in sheet');
   }
 
-  let credentials;
-  try {
-    credentials = JSON.parse(credentialsString);
-  } catch (error) {
-    throw new Error('Failed to parse GOOGLE_APPLICATION_CREDENTIALS: ' + (error instanceof Error ? error.message : String(error)));
+  // Signed-in users get their own matching rules, like in the resume search
+  const normalizer = createCompanyNormalizer(ownerId ? loadCompanyNameRules(ownerId) : undefined);
+  const counters = { found: 0, ambiguous: 0, not_found: 0, error: 0 };
+  let completed = 0;
+  // Pages are fetched one after another per company; the shared limiter paces all of them
+  const results = await mapWithConcurrency(companies, getMaxConcurrency(), async (company): Promise<CompanyValidation> => {
+    let result: CompanyValidation;
+    try {
+      const employers = await searchAllEmployers(client, normalizer.clean(company) || company, filters);
+      result = classifyCompany(company, employers, normalizer);
+    } catch (error) {
+      // An expired session fails every lookup; the client refreshes it and retries
+      if (isSessionExpiredError(error) || !isHHApiError(error)) throw error;
+      emit(logEvent(`Failed to search employers for "${company}": ${error.message}`, 'error'));
+      result = { company, status: 'error', matches: [], error: error.message };
+    }
+    counters[result.status]++;
+    emit({
+      type: 'progress',
+      phase: 'search',
+      completed: ++completed,
+      total: companies.length,
+      current: company,
+      message: 'Searching employers',
+      counters: { ...counters }
+    });
+    return result;
+  });
+
+  const summary = summarizeValidation(results);
+  if (run) saveRunCompanies(run.id, results);
+
+  // File outputs are rendered from the stored run when they are downloaded
+  const downloadUrl = output === 'sheets' || !run ? undefined : runDownloadUrl(run.id, output);
+  if (output === 'sheets') {
+    emit({ type: 'progress', phase: 'write', completed: 0, total: results.length, message: 'Writing Company_Validation' });
+    const sink = createSheetsSink({ spreadsheetId: sheetId, mode: 'overwrite' });
+    await sink.write(toValidationTable(results));
+    await sink.write(toValidationSummaryTable(summary));
   }
 
-  const auth = new google.auth.GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-  });
-  return auth;
+  return {
+    message: downloadUrl ? 'Company validation is ready to download' : 'Company validation completed',
+    runId: run?.id,
+    downloadUrl,
+    totalCompanies: companies.length,
+    totalMatches: results.reduce((total, result) => total + result.matches.length, 0),
+    summary,
+    errors: counters.error,
+    apiCalls: client.metrics
+  };
 }
 
-async function fetchCompanyInfo(companyName: string): Promise<any[]> {
-  const url = `https://api.hh.ru/employers?text=${encodeURIComponent(companyName)}`;
-  const response = await fetch(url, {
-    headers: {
-      'User-Agent': 'api-test-agent',
-      'Accept': 'application/json'
+// Records the run around the validation when the user is signed in
+async function validateCompaniesRun(
+  sheetId: string,
+  params: { sheetUrl: string; input: InputSheetOptions; filters: EmployerSearchFilters; output: OutputFormat },
+  client: HHClient,
+  ownerId: string | null,
+  emit: ProgressEmitter
+) {
+  const { input, filters, output } = params;
+  const run = ownerId
+    ? createRun('company-validation', ownerId, { sheetUrl: params.sheetUrl, ...input, filters, output })
+    : null;
+  try {
+    const result = await validateCompanies(sheetId, input, filters, output, client, ownerId, run, emit);
+    if (run) finishRun(run.id, { status: 'completed', resultCount: result.totalCompanies, apiCalls: client.metrics });
+    return result;
+  } catch (error) {
+    if (run) {
+      finishRun(run.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        apiCalls: client.metrics
+      });
     }
-  });
-  
-  if (!response.ok) {
-    throw new Error(`HH API error: ${response.statusText}`);
+    throw error;
   }
-
-  const data = await response.json();
-  if (!data.items?.length) return [];
-
-  // Return all matches
-  return data.items.map((item: any) => ({
-    originalName: companyName,
-    hhName: item.name,
-    hhId: item.id,
-    url: item.alternate_url
-  }));
 }
 
+// Looks every company of the sheet up on HH.ru and writes the candidates to Company_Validation
+// (or a downloaded file), with a summary of how many were found exactly once, ambiguous or not found
 export async function POST(request: NextRequest) {
   try {
-    const { sheetUrl } = await request.json();
-
-    // Extract sheet ID
-    const matches = sheetUrl.match(/\/d\/([a-zA-Z0-9-_]+)/);
-    if (!matches) throw new Error('Invalid Google Sheet URL');
-    const sheetId = matches[1];
-
-    // Get companies from sheet
-    const auth = await getGoogleAuth();
-    const sheets = google.sheets({ version: 'v4', auth });
-    
-    const response = await sheets.spreadsheets.values.get({
-      spreadsheetId: sheetId,
-      range: 'A:A',
-    });
+    const { sheetUrl, columns, worksheet, filters: filtersInput, output: outputInput } = await request.json();
 
-    const rows = response.data.values;
-    if (!rows || rows.length <= 1) {
-      throw new Error('No companies found in sheet');
+    const sheetId = typeof sheetUrl === 'string' ? extractSheetId(sheetUrl) : null;
+    if (!sheetId) {
+      return NextResponse.json({ error: 'Invalid Google Sheet URL' }, { status: 400 });
     }
-
-    // Skip header and process companies
-    const companies = rows.slice(1).map(row => row[0]?.trim()).filter(Boolean);
-    
-    // Create validation sheet
+    let input: InputSheetOptions;
+    let filters: EmployerSearchFilters;
+    let output: OutputFormat;
     try {
-      await sheets.spreadsheets.values.get({
-        spreadsheetId: sheetId,
-        range: 'Company_Validation!A1',
-      });
+      input = { columns: parseColumnOverrides(columns), worksheet: parseWorksheetRef(worksheet) };
+      filters = parseEmployerSearchFilters(filtersInput);
+      output = parseOutputFormat(outputInput);
     } catch (error) {
-      await sheets.spreadsheets.batchUpdate({
-        spreadsheetId: sheetId,
-        requestBody: {
-          requests: [{
-            addSheet: {
-              properties: { title: 'Company_Validation' }
-            }
-          }]
-        }
-      });
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
     }
 
-    // Validate each company and flatten results
-    const validationResults = (await Promise.all(
-      companies.map(async (company) => {
-        const matches = await fetchCompanyInfo(company);
-        if (matches.length === 0) {
-          return [[company, 'Not found', 'N/A', 'N/A', 'No']];
-        }
-        return matches.map(info => [
-          company,
-          info.hhName,
-          info.hhId,
-          info.url,
-          'Yes'
-        ]);
-      })
-    )).flat();
+    // The employer search works without HH login; a session brings the user's rules and the
+    // stored run. File outputs are downloaded from that run, so they need the session.
+    const session = output !== 'sheets' || request.cookies.get(ACCESS_TOKEN_COOKIE) ? requireHHSession(request) : null;
+    const ownerId = session ? await resolveSessionUser(session) : null;
+    const client = new HHClient(session ? { accessToken: session.accessToken } : {});
+    const params = { sheetUrl, input, filters, output };
 
-    // Write validation results
-    const headers = ['Original Name', 'HH.ru Name', 'HH ID', 'URL', 'Found'];
-    await sheets.spreadsheets.values.update({
-      spreadsheetId: sheetId,
-      range: 'Company_Validation!A1',
-      valueInputOption: 'RAW',
-      requestBody: {
-        values: [headers, ...validationResults]
-      }
-    });
+    if (wantsEventStream(request)) {
+      return createEventStream(async emit => {
+        emit({ type: 'result', data: await validateCompaniesRun(sheetId, params, client, ownerId, emit) });
+      });
+    }
+    return NextResponse.json(await validateCompaniesRun(sheetId, params, client, ownerId, () => undefined));
+  } catch (error) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
 
-    return NextResponse.json({ 
-      message: 'Company validation completed',
-      totalCompanies: companies.length,
-      totalMatches: validationResults.filter(r => r[4] === 'Yes').length,
-      uniqueCompanies: companies.length
-    });
+    if (isSheetColumnsError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
 
-  } catch (error) {
     console.error('Error validating companies:', error);
-    return NextResponse.json({ 
+    return NextResponse.json({
       error: 'Failed to validate companies',
       details: error instanceof Error ? error.message : String(error)
     }, { status: 500 });
   }
-} 
\ No newline at end of file
+}
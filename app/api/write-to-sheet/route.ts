@@ -1,39 +1,116 @@
 import { NextResponse } from 'next/server';
 import { NextRequest } from 'next/server';
-import { google } from 'googleapis';
-import path from 'path';
-
-const HH_API_BASE_URL = 'https://api.hh.ru';
+import {
+  HHClient,
+  authErrorResponse,
+  getMaxConcurrency,
+  isHHApiError,
+  isSessionExpiredError,
+  mapWithConcurrency,
+  requireHHSession,
+  resolveSessionUser,
+  type HHResume,
+  type HHResumeContact
+} from '@/lib/hh';
+import { createRun, findLatestContact, finishRun, saveContact, saveRunResumes, type SearchRun } from '@/lib/db';
+import { parseOutputFormat, runDownloadUrl, type OutputFormat } from '@/lib/output';
+import { readResumeContacts } from '@/lib/output/runs';
+import {
+  isSheetColumnsError,
+  parseColumnOverrides,
+  readCell,
+  resolveColumns,
+  type ColumnMapping,
+  type ColumnOverrides
+} from '@/lib/sheets/columns';
+import { parseSheetInput, parseWorksheetRef, readInputSheet, type SheetInput, type WorksheetRef } from '@/lib/sheets/source';
+import { RESUME_CONTACT_SCHEMA } from '@/lib/sheets/schemas';
+import { columnLetter, writeSheetRows, type SheetRowUpdate } from '@/lib/sheets/writer';
 
 export async function POST(request: NextRequest) {
-  const { sheetUrl, accessToken } = await request.json();
-
-  if (!sheetUrl || !accessToken) {
-    return NextResponse.json({ error: 'Missing sheetUrl or accessToken' }, { status: 400 });
+  // refreshContacts: open contacts at HH again even when they were fetched before
+  const {
+    sheetUrl, uploadId, refreshContacts = false, columns: columnsInput, worksheet: worksheetInput, output: outputInput
+  } = await request.json();
+
+  let columns: ColumnOverrides | undefined;
+  let worksheet: WorksheetRef | undefined;
+  let output: OutputFormat;
+  try {
+    columns = parseColumnOverrides(columnsInput);
+    worksheet = parseWorksheetRef(worksheetInput);
+    output = parseOutputFormat(outputInput);
+  } catch (error) {
+    return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
   }
 
   try {
-    const sheetId = extractSheetId(sheetUrl);
-    if (!sheetId) {
-      throw new Error('Invalid Google Sheet URL');
+    const session = requireHHSession(request);
+    const ownerId = await resolveSessionUser(session);
+
+    let source: SheetInput;
+    try {
+      source = parseSheetInput({ sheetUrl, uploadId }, ownerId);
+    } catch (error) {
+      return NextResponse.json({ error: error instanceof Error ? error.message : String(error) }, { status: 400 });
+    }
+    // Contacts are written next to the links they belong to, which an uploaded file can't take
+    if (output === 'sheets' && !source.sheetId) {
+      return NextResponse.json({ error: 'Contacts for an uploaded file can only be downloaded, pick a file output' }, { status: 400 });
     }
 
-    console.log('Fetching sheet data...');
-    const sheetData = await fetchSheetData(sheetId);
+    console.log(source.uploadId ? 'Reading the uploaded file...' : 'Fetching sheet data...');
+    const { title, rows: sheetData } = await readInputSheet(source, RESUME_CONTACT_SCHEMA, worksheet);
     console.log('Sheet data fetched:', sheetData.length, 'rows');
+    // Contacts are written back to the worksheet the links came from
+    if (output === 'sheets' && !title) {
+      throw new Error('Pick the worksheet by name: its title is unknown when it is read by gid from the CSV export');
+    }
+    // Checked before any HH request, so a sheet without a link column costs nothing
+    const headers = sheetData[0] || [];
+    const mapping = resolveColumns(RESUME_CONTACT_SCHEMA, headers, columns);
 
     console.log('Processing sheet data...');
-    const updatedRows = await processSheetData(sheetData, accessToken);
-    console.log('Sheet data processed:', updatedRows.length, 'rows');
-
-    console.log('Writing data to Google Sheet...');
-    await writeToGoogleSheet(sheetId, updatedRows, console.log);
-    console.log('Data written to Google Sheet');
+    const client = new HHClient({ accessToken: session.accessToken });
+    const run = createRun('resume-contacts', ownerId, { sheetUrl, uploadId: source.uploadId, refreshContacts, columns, worksheet, output });
+    try {
+      const { updatedRows, failedRows, reusedContacts } = await processSheetData(sheetData, mapping, client, run, refreshContacts);
+      console.log('Sheet data processed:', updatedRows.length, 'rows,', failedRows.length, 'failed,', reusedContacts, 'contacts reused');
+
+      // File outputs are rendered from the stored run when they are downloaded
+      const downloadUrl = output === 'sheets' ? undefined : runDownloadUrl(run.id, output);
+      if (output === 'sheets') {
+        console.log('Writing data to Google Sheet...');
+        await writeToGoogleSheet(source.sheetId as string, title as string, headers, mapping, updatedRows, console.log);
+        console.log('Data written to Google Sheet');
+      }
 
-    return NextResponse.json({ 
-      message: 'Google Sheet updated successfully'
-    });
+      finishRun(run.id, { status: 'completed', resultCount: updatedRows.length, apiCalls: client.metrics });
+      return NextResponse.json({ 
+        message: downloadUrl ? 'Contacts are ready to download' : 'Google Sheet updated successfully',
+        runId: run.id,
+        downloadUrl,
+        updatedCount: updatedRows.length,
+        reusedContacts,
+        failedRows,
+        apiCalls: client.metrics
+      });
+    } catch (error) {
+      finishRun(run.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : String(error),
+        apiCalls: client.metrics
+      });
+      throw error;
+    }
   } catch (error: unknown) {
+    const authResponse = authErrorResponse(error);
+    if (authResponse) return authResponse;
+
+    if (isSheetColumnsError(error)) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
     console.error('Error processing Google Sheet:', error);
     return NextResponse.json({ 
       error: 'Failed to process Google Sheet', 
@@ -42,183 +119,143 @@ export async function POST(request: NextRequest) {
   }
 }
 
-async function fetchSheetData(sheetId: string): Promise<string[][]> {
-  const url = `https://docs.google.com/spreadsheets/d/${sheetId}/gviz/tq?tqx=out:csv&sheet=Resume`;
-  const response = await fetch(url);
-  if (!response.ok) {
-    throw new Error(`Failed to fetch sheet data: ${response.statusText}`);
-  }
-  const csvText = await response.text();
-  
-  // Parse CSV while preserving original formatting and removing extra quotes
-  const rows = csvText.split('\n').map(row => {
-    const cells = [];
-    let inQuotes = false;
-    let currentCell = '';
-    for (let i = 0; i < row.length; i++) {
-      if (row[i] === '"') {
-        if (!inQuotes) {
-          inQuotes = true;
-        } else if (row[i + 1] === '"') {
-          currentCell += '"';
-          i++; // Skip the next quote
-        } else {
-          inQuotes = false;
-          cells.push(currentCell);
-          currentCell = '';
-        }
-      } else if (row[i] === ',' && !inQuotes) {
-        cells.push(currentCell);
-        currentCell = '';
-      } else {
-        currentCell += row[i];
-      }
-    }
-    if (currentCell !== '') {
-      cells.push(currentCell);
-    }
-    return cells;
-  });
-  
-  return rows;
+interface UpdatedRow {
+  rowIndex: number;
+  fullName: string;
+  currentTitle: string;
+  phone: string;
+  email: string;
 }
 
-async function processSheetData(sheetData: string[][], accessToken: string): Promise<{ rowIndex: number, fullName: string, currentTitle: string, phone: string, email: string }[]> {
-  const headers = sheetData[0];
-  const columnIndexes = {
-    fullName: headers.indexOf('Full name'),
-    currentTitle: headers.indexOf('Current title'),
-    phone: headers.indexOf('Phone'),
-    email: headers.indexOf('Email'),
-    link: headers.indexOf('Link to resume')
-  };
+interface FailedRow {
+  rowIndex: number;
+  resumeLink: string;
+}
 
-  const updatedRows = await Promise.all(sheetData.slice(1).map(async (row, rowIndex) => {
-    const resumeLink = row[columnIndexes.link];
+async function processSheetData(
+  sheetData: string[][],
+  mapping: ColumnMapping,
+  client: HHClient,
+  run: SearchRun,
+  refreshContacts: boolean
+): Promise<{ updatedRows: UpdatedRow[], failedRows: FailedRow[], reusedContacts: number }> {
+  const failedRows: FailedRow[] = [];
+  let reusedContacts = 0;
+
+  // Rows go through the shared HH rate limiter instead of all firing at once
+  const results = await mapWithConcurrency(sheetData.slice(1), getMaxConcurrency(), async (row, rowIndex): Promise<UpdatedRow | null> => {
+    const resumeLink = readCell(row, mapping, 'link');
     if (!resumeLink) return null;
 
-    const resumeInfo = await fetchResumeInfo(resumeLink, accessToken);
+    const resumeInfo = await fetchResumeInfo(resumeLink, client, run, refreshContacts);
     
-    if (!resumeInfo) return null;
+    if (!resumeInfo) {
+      // Report instead of silently dropping the row
+      failedRows.push({ rowIndex: rowIndex + 2, resumeLink });
+      return null;
+    }
     
+    if (resumeInfo.reused) reusedContacts++;
     return {
       rowIndex: rowIndex + 2,
-      fullName: resumeInfo.fullName || '',
-      currentTitle: resumeInfo.currentTitle || '',
-      phone: resumeInfo.phone || '',
-      email: resumeInfo.email || ''
+      fullName: resumeInfo.fullName,
+      currentTitle: resumeInfo.currentTitle,
+      phone: resumeInfo.phone,
+      email: resumeInfo.email
     };
-  }));
+  });
 
-  return updatedRows.filter((row): row is { rowIndex: number, fullName: string, currentTitle: string, phone: string, email: string } => row !== null);
+  return {
+    updatedRows: results.filter((row): row is UpdatedRow => row !== null),
+    failedRows: failedRows.sort((a, b) => a.rowIndex - b.rowIndex),
+    reusedContacts
+  };
 }
 
-function extractSheetId(url: string): string | null {
-  const match = url.match(/\/spreadsheets\/d\/([a-zA-Z0-9-_]+)/);
-  return match ? match[1] : null;
+interface ResumeInfo {
+  fullName: string;
+  currentTitle: string;
+  phone: string;
+  email: string;
+  // True when the contacts came from the local database instead of a paid HH request
+  reused?: boolean;
 }
 
-const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+function applyContacts(resumeInfo: ResumeInfo, contacts: HHResumeContact[] | undefined) {
+  if (!Array.isArray(contacts)) return;
+  Object.assign(resumeInfo, readResumeContacts(contacts));
+}
 
-async function fetchResumeInfo(resumeLink: string, accessToken: string): Promise<any> {
-  const resumeId = resumeLink.split('/').pop();
-  const url = `${HH_API_BASE_URL}/resumes/${resumeId}`;
+async function fetchResumeInfo(
+  resumeLink: string,
+  client: HHClient,
+  run: SearchRun,
+  refreshContacts: boolean
+): Promise<ResumeInfo | null> {
+  const runId = run.id;
+  const resumeId = resumeLink.split('/').pop()?.split('?')[0];
+  if (!resumeId) return null;
 
   console.log(`Attempting to fetch resume with ID: ${resumeId}`);
-  console.log(`Full URL: ${url}`);
-
-  await delay(1000);
 
   try {
-    const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${accessToken}`,
-        'Accept': 'application/json',
-        'User-Agent': 'YourAppName/1.0 (your@email.com)'
-      }
-    });
-
-    console.log(`Response status: ${response.status}`);
-    console.log(`Response headers:`, Object.fromEntries(response.headers));
-
-    if (!response.ok) {
-      const errorBody = await response.text();
-      console.error(`Error fetching resume ${resumeId}:`, {
-        status: response.status,
-        statusText: response.statusText,
-        headers: Object.fromEntries(response.headers),
-        body: errorBody
-      });
-      
-      // Try to parse the error body as JSON
-      try {
-        const errorJson = JSON.parse(errorBody);
-        console.error('Parsed error body:', errorJson);
-      } catch (e) {
-        console.error('Error body is not valid JSON');
-      }
+    const resumeData: HHResume = await client.getResume(resumeId);
+    // The fullest payload seen, recorded with the run so the person's fingerprint is known
+    let recorded: HHResume = resumeData;
 
-      return null;
-    }
-
-    const resumeData = await response.json();
-
-    let resumeInfo: any = {
+    const resumeInfo: ResumeInfo = {
       fullName: resumeData.last_name && resumeData.first_name ? `${resumeData.last_name} ${resumeData.first_name}` : '',
       currentTitle: resumeData.title || '',
       phone: '',
       email: ''
     };
 
-    if (resumeData.actions && resumeData.actions.get_with_contact) {
-      const getWithContactUrl = resumeData.actions.get_with_contact.url;
-
-      await delay(2000);
-
-      const contactResponse = await fetch(getWithContactUrl, {
-        headers: {
-          'Authorization': `Bearer ${accessToken}`,
-          'Accept': 'application/json'
-        }
-      });
-
-      if (contactResponse.ok) {
-        const contactData = await contactResponse.json();
-        
+    // Opening contacts spends a paid HH action; reuse what an earlier run already bought
+    const stored = resumeData.actions?.get_with_contact && !refreshContacts
+      ? findLatestContact(run.ownerId, 'resume', resumeId)
+      : null;
+
+    if (stored) {
+      resumeInfo.fullName = stored.fullName || resumeInfo.fullName;
+      resumeInfo.phone = stored.phone;
+      resumeInfo.email = stored.email;
+      resumeInfo.reused = true;
+    } else if (resumeData.actions?.get_with_contact) {
+      try {
+        const contactData = await client.getResumeWithContacts(resumeData);
+        recorded = contactData;
         resumeInfo.fullName = `${contactData.first_name || ''} ${contactData.last_name || ''}`.trim();
         resumeInfo.currentTitle = contactData.title || resumeInfo.currentTitle;
-        
-        if (Array.isArray(contactData.contact)) {
-          const phoneContact = contactData.contact.find((c: any) => c.type.id === 'cell' || c.type.id === 'phone');
-          const emailContact = contactData.contact.find((c: any) => c.type.id === 'email');
-
-          if (phoneContact) {
-            resumeInfo.phone = phoneContact.value.formatted || phoneContact.value.number;
-          }
-          if (emailContact) {
-            resumeInfo.email = emailContact.value;
-          }
-        }
+        applyContacts(resumeInfo, contactData.contact);
+        saveContact({
+          sourceType: 'resume',
+          sourceId: resumeId,
+          runId,
+          fullName: resumeInfo.fullName,
+          email: resumeInfo.email,
+          phone: resumeInfo.phone,
+          phoneComment: ''
+        });
+      } catch (error: unknown) {
+        if (isSessionExpiredError(error)) throw error;
+        // Reported as a failed row: writing it would blank the contacts already in the sheet
+        console.error(`Error opening contacts for resume ${resumeId}:`, error instanceof Error ? error.message : String(error));
+        saveRunResumes(runId, [recorded], () => null, { append: true });
+        return null;
       }
     } else {
-      if (Array.isArray(resumeData.contact)) {
-        const phoneContact = resumeData.contact.find((c: any) => c.type.id === 'cell' || c.type.id === 'phone');
-        const emailContact = resumeData.contact.find((c: any) => c.type.id === 'email');
-
-        if (phoneContact) {
-          resumeInfo.phone = phoneContact.value.formatted || phoneContact.value.number;
-        }
-        if (emailContact) {
-          resumeInfo.email = emailContact.value;
-        }
-      }
+      applyContacts(resumeInfo, resumeData.contact);
     }
 
+    saveRunResumes(runId, [recorded], () => null, { append: true });
     return resumeInfo;
   } catch (error: unknown) {
+    if (isSessionExpiredError(error)) throw error;
     console.error(`Error processing resume ${resumeId}:`, {
       error: error instanceof Error ? error.message : String(error),
-      stack: error instanceof Error ? error.stack : undefined,
+      status: isHHApiError(error) ? error.status : undefined,
+      errors: isHHApiError(error) ? error.codes : undefined,
+      requestId: isHHApiError(error) ? error.requestId : undefined,
       resumeLink,
       timestamp: new Date().toISOString()
     });
@@ -226,50 +263,40 @@ async function fetchResumeInfo(resumeLink: string, accessToken: string): Promise
   }
 }
 
-async function writeToGoogleSheet(sheetId: string, data: { rowIndex: number, fullName: string, currentTitle: string, phone: string, email: string }[], log: (message: string) => void) {
-  const auth = await getGoogleAuth();
-  const sheets = google.sheets({ version: 'v4', auth });
+const CONTACT_FIELDS = ['fullName', 'currentTitle', 'phone', 'email'] as const;
 
+async function writeToGoogleSheet(
+  sheetId: string,
+  worksheet: string,
+  headers: string[],
+  mapping: ColumnMapping,
+  data: UpdatedRow[],
+  log: (message: string) => void
+) {
   try {
-    // Prepare data for writing
-    const dataToWrite = data.map(row => [
-      row.fullName,
-      row.currentTitle,
-      row.phone,
-      row.email
-    ]);
+    // Contact columns the sheet doesn't have yet are added after its last header
+    const columnOf: ColumnMapping = { ...mapping };
+    const updates: SheetRowUpdate[] = [];
+    let nextColumn = headers.length;
+    for (const field of CONTACT_FIELDS) {
+      if (columnOf[field] !== undefined) continue;
+      columnOf[field] = nextColumn++;
+      const label = RESUME_CONTACT_SCHEMA.columns.find(column => column.field === field)?.label || field;
+      updates.push({ rowIndex: 1, column: columnLetter(columnOf[field]), values: [label] });
+    }
 
-    // Write data
-    await sheets.spreadsheets.values.update({
-      spreadsheetId: sheetId,
-      range: 'Resume!D2',
-      valueInputOption: 'RAW',
-      requestBody: { values: dataToWrite },
-    });
+    // Each row goes back to the row its link came from; failed rows leave gaps instead of
+    // shifting everything below them up
+    data.forEach(row => CONTACT_FIELDS.forEach(field => updates.push({
+      rowIndex: row.rowIndex,
+      column: columnLetter(columnOf[field]),
+      values: [row[field]]
+    })));
+    await writeSheetRows(sheetId, worksheet, updates);
 
-    log(`Written ${data.length} rows to "Resume" sheet`);
+    log(`Written ${data.length} rows to "${worksheet}" sheet`);
   } catch (error: unknown) {
     console.error('Error writing to Google Sheet:', error instanceof Error ? error.message : String(error));
     throw error; // Re-throw the error to be handled by the caller
   }
 }
-
-async function getGoogleAuth() {
-  const credentialsString = process.env.GOOGLE_APPLICATION_CREDENTIALS;
-  if (!credentialsString) {
-    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable is not set');
-  }
-
-  let credentials;
-  try {
-    credentials = JSON.parse(credentialsString);
-  } catch (error) {
-    throw new Error('Failed to parse GOOGLE_APPLICATION_CREDENTIALS: ' + (error instanceof Error ? error.message : String(error)));
-  }
-
-  const auth = new google.auth.GoogleAuth({
-    credentials,
-    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
-  });
-  return auth;
-}
@@ -0,0 +1,117 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import type { ColumnOverrides } from '@/lib/sheets/columns';
+import { SHEET_SCHEMAS } from '@/lib/sheets/schemas';
+
+// Shape of /api/sheet-columns
+export interface SheetColumnsCheck {
+  worksheet: string | null;
+  headers: string[];
+  detected: Record<string, string>;
+  missing: string[];
+}
+
+// The tool's input as sent to the API: an uploaded file wins over the sheet URL
+export interface SheetInputRequest {
+  sheetUrl?: string;
+  uploadId?: string;
+}
+
+// Worksheet and column overrides for one tool. `verify` checks the sheet (or uploaded file)
+// before the tool runs and returns false (showing the mapping step) when required columns can't be found.
+export function useColumnMapping(schemaId: string) {
+  // Tab name or "gid=123"; empty = the tool's usual worksheet
+  const [worksheet, setWorksheet] = useState('');
+  const [columns, setColumns] = useState<ColumnOverrides>({});
+  const [check, setCheck] = useState<SheetColumnsCheck | null>(null);
+
+  const verify = useCallback(async (input: SheetInputRequest): Promise<boolean> => {
+    const response = await fetchWithRefresh('/api/sheet-columns', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ ...input, schema: schemaId, columns, worksheet })
+    });
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.details || data.error || `HTTP error! status: ${response.status}`);
+    }
+    setCheck(data);
+    return data.missing.length === 0;
+  }, [schemaId, columns, worksheet]);
+
+  const reset = useCallback(() => {
+    setWorksheet('');
+    setColumns({});
+    setCheck(null);
+  }, []);
+
+  return { worksheet, setWorksheet, columns, setColumns, check, verify, reset };
+}
+
+interface WorksheetFieldProps {
+  value: string;
+  onChange: (worksheet: string) => void;
+  // The worksheet read when nothing is entered
+  defaultName?: string;
+}
+
+// Picks the input worksheet by tab name, or by gid: "gid=123" or the URL of the open tab
+export const WorksheetField: React.FC<WorksheetFieldProps> = ({ value, onChange, defaultName }) => (
+  <label className="flex items-center gap-2">
+    <span className="text-sm text-gray-600">Worksheet</span>
+    <input
+      type="text"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      placeholder={`${defaultName ? `"${defaultName}"` : 'first worksheet'} — or a name, gid=123, tab URL`}
+      className="flex-1 p-2 border rounded"
+    />
+  </label>
+);
+
+interface ColumnMappingProps {
+  schemaId: string;
+  check: SheetColumnsCheck | null;
+  columns: ColumnOverrides;
+  onChange: (columns: ColumnOverrides) => void;
+}
+
+// Lets the user point each field at one of the sheet's headers. Shown once a check found
+// missing columns, and kept open afterwards so the choice can be reviewed.
+const ColumnMapping: React.FC<ColumnMappingProps> = ({ schemaId, check, columns, onChange }) => {
+  const schema = SHEET_SCHEMAS[schemaId];
+  if (!schema || !check || (check.missing.length === 0 && Object.keys(columns).length === 0)) return null;
+
+  return (
+    <div className="mb-4 p-4 border rounded bg-yellow-50">
+      <div className="font-semibold mb-1">Match the sheet columns</div>
+      <p className="text-sm text-gray-600 mb-3">
+        Some columns{check.worksheet ? ` in "${check.worksheet}"` : ''} weren&apos;t recognised by their header.
+        Pick the header that holds each field, then run again.
+      </p>
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+        {schema.columns.map(column => (
+          <label key={column.field} className="flex items-center gap-2">
+            <span className={`w-40 text-sm ${check.missing.includes(column.field) ? 'text-red-600 font-semibold' : ''}`}>
+              {column.label}{column.required ? ' *' : ''}
+            </span>
+            <select
+              value={columns[column.field] ?? check.detected[column.field] ?? ''}
+              onChange={(e) => onChange({ ...columns, [column.field]: e.target.value })}
+              className="flex-1 p-1 border rounded"
+            >
+              <option value="">{column.required ? '— choose —' : '— not in the sheet —'}</option>
+              {check.headers.filter(Boolean).map(header => (
+                <option key={header} value={header}>{header}</option>
+              ))}
+            </select>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMapping;
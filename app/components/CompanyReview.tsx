@@ -0,0 +1,281 @@
+'use client';
+
+import React, { useState } from 'react';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import type { EmployerDecision, EmployerDecisionStatus } from '@/lib/db/employers';
+import type { CompanyReviewItem, EmployerCandidate } from '@/lib/employers/review';
+import { EVENT_STREAM_HEADERS, readEventStream } from '@/lib/progress/client';
+import type { ColumnOverrides } from '@/lib/sheets/columns';
+import ProgressPanel, { useProgressStream } from './ProgressPanel';
+import type { SheetInputRequest } from './ColumnMapping';
+
+interface CompanyReviewProps {
+  input: SheetInputRequest;
+  columns: ColumnOverrides;
+  worksheet: string;
+  // Makes sure the company column is found before the review reads the input
+  checkColumn: (input: SheetInputRequest) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+// Unsaved verdicts by company and employer id; null forgets a saved one
+type PendingDecisions = Record<string, { company: string; employerId: string; employerName?: string; status: EmployerDecisionStatus | null }>;
+
+const pendingKey = (company: string, employerId: string) => `${company}\n${employerId}`;
+
+function savedStatus(item: CompanyReviewItem, employerId: string): EmployerDecisionStatus | null {
+  return item.decisions.find(decision => decision.employerId === employerId)?.status || null;
+}
+
+const CandidateRow: React.FC<{
+  candidate: EmployerCandidate;
+  status: EmployerDecisionStatus | null;
+  onChange: (status: EmployerDecisionStatus | null) => void;
+}> = ({ candidate, status, onChange }) => (
+  <tr className={status === 'confirmed' ? 'bg-green-50' : status === 'rejected' ? 'bg-red-50 text-gray-400' : ''}>
+    <td className="p-2 w-12">
+      {/* HH logos come from its CDN, which next/image isn't configured for */}
+      {/* eslint-disable-next-line @next/next/no-img-element */}
+      {candidate.logoUrl && <img src={candidate.logoUrl} alt="" className="w-10 h-10 object-contain" />}
+    </td>
+    <td className="p-2">
+      <a href={candidate.url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+        {candidate.name}
+      </a>
+      <span className="ml-2 text-xs text-gray-500">#{candidate.id}</span>
+      {candidate.innMatch && <span className="ml-2 px-1 text-xs rounded bg-green-200 text-green-800">ИНН</span>}
+    </td>
+    <td className="p-2 text-sm">{candidate.area || '—'}</td>
+    <td className="p-2 text-sm">{candidate.openVacancies ?? '—'}</td>
+    <td className="p-2 text-sm">
+      {candidate.siteUrl ? (
+        <a href={candidate.siteUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+          {candidate.siteUrl.replace(/^https?:\/\//, '')}
+        </a>
+      ) : '—'}
+    </td>
+    <td className="p-2 text-sm">{candidate.score.toFixed(2)}</td>
+    <td className="p-2 whitespace-nowrap">
+      <button
+        onClick={() => onChange(status === 'confirmed' ? null : 'confirmed')}
+        className={`px-2 py-1 mr-1 rounded text-sm ${status === 'confirmed' ? 'bg-green-600 text-white' : 'bg-gray-200'}`}
+      >
+        Confirm
+      </button>
+      <button
+        onClick={() => onChange(status === 'rejected' ? null : 'rejected')}
+        className={`px-2 py-1 rounded text-sm ${status === 'rejected' ? 'bg-red-600 text-white' : 'bg-gray-200'}`}
+      >
+        Reject
+      </button>
+    </td>
+  </tr>
+);
+
+// Lists the HH employers found for each input company so the right ones can be confirmed and
+// the wrong ones rejected. Saved decisions are used by resume searches matching by employer id.
+const CompanyReview: React.FC<CompanyReviewProps> = ({ input, columns, worksheet, checkColumn, disabled }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [items, setItems] = useState<CompanyReviewItem[]>([]);
+  const [pending, setPending] = useState<PendingDecisions>({});
+  const [manualIds, setManualIds] = useState<Record<string, string>>({});
+  const [unresolvedOnly, setUnresolvedOnly] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const { progress, logs, handleEvent, reset: resetProgress } = useProgressStream();
+
+  const load = async () => {
+    setIsLoading(true);
+    setError(null);
+    setStatus(null);
+    resetProgress();
+    try {
+      if (!await checkColumn(input)) return;
+      const response = await fetchWithRefresh('/api/company-review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...EVENT_STREAM_HEADERS },
+        body: JSON.stringify({ ...input, columns, worksheet })
+      });
+      const data = await readEventStream<{ companies: CompanyReviewItem[] }>(response, handleEvent);
+      setItems(data.companies);
+      setPending({});
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load the companies');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const statusOf = (item: CompanyReviewItem, employerId: string): EmployerDecisionStatus | null => {
+    const change = pending[pendingKey(item.company, employerId)];
+    return change ? change.status : savedStatus(item, employerId);
+  };
+
+  const setDecision = (item: CompanyReviewItem, employerId: string, employerName: string | undefined, next: EmployerDecisionStatus | null) => {
+    setPending(prev => ({ ...prev, [pendingKey(item.company, employerId)]: { company: item.company, employerId, employerName, status: next } }));
+  };
+
+  const addManualId = (item: CompanyReviewItem) => {
+    const employerId = (manualIds[item.company] || '').trim();
+    if (!/^\d+$/.test(employerId)) {
+      setError(`"${employerId}" is not an HH employer id`);
+      return;
+    }
+    setError(null);
+    setDecision(item, employerId, undefined, 'confirmed');
+    setManualIds(prev => ({ ...prev, [item.company]: '' }));
+  };
+
+  const save = async () => {
+    setIsSaving(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetchWithRefresh('/api/company-review', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ decisions: Object.values(pending) })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save the decisions');
+      const decisions: EmployerDecision[] = data.decisions;
+      setItems(prev => prev.map(item => ({ ...item, decisions: decisions.filter(decision => decision.company === item.company) })));
+      setPending({});
+      setStatus('Decisions saved. Searches matching by employer id use them from now on.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save the decisions');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const isResolved = (item: CompanyReviewItem) => [
+    ...item.candidates.map(candidate => candidate.id),
+    ...item.decisions.map(decision => decision.employerId),
+    ...Object.values(pending).filter(change => change.company === item.company).map(change => change.employerId)
+  ].some(id => statusOf(item, id) === 'confirmed');
+  const visibleItems = unresolvedOnly ? items.filter(item => !isResolved(item)) : items;
+  const pendingCount = Object.keys(pending).length;
+
+  return (
+    <div className="mb-12 p-6 bg-gray-100 rounded-lg shadow">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-xl font-semibold">
+        {isOpen ? '▾' : '▸'} Company review
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            Confirm the HH employers that are the companies from the sheet and reject the lookalikes. Candidates are ranked
+            by INN match, then name similarity.
+          </p>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={load}
+              disabled={disabled || isLoading || !(input.sheetUrl || input.uploadId)}
+              className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600 transition disabled:opacity-50"
+            >
+              {isLoading ? 'Searching employers...' : items.length ? 'Reload companies' : 'Review companies'}
+            </button>
+            <button
+              onClick={save}
+              disabled={isSaving || pendingCount === 0}
+              className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 transition disabled:opacity-50"
+            >
+              {isSaving ? 'Saving...' : `Save decisions${pendingCount ? ` (${pendingCount})` : ''}`}
+            </button>
+            {items.length > 0 && (
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={unresolvedOnly} onChange={(e) => setUnresolvedOnly(e.target.checked)} />
+                Only companies without a confirmed employer
+              </label>
+            )}
+          </div>
+
+          {isLoading && <ProgressPanel progress={progress} logs={logs} />}
+          {status && <p className="text-sm text-green-700">{status}</p>}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+
+          {visibleItems.map(item => {
+            // Confirmed or rejected ids that aren't among the candidates, e.g. typed in by hand
+            const extraIds = Array.from(new Set([
+              ...item.decisions.map(decision => decision.employerId),
+              ...Object.values(pending).filter(change => change.company === item.company).map(change => change.employerId)
+            ])).filter(id => !item.candidates.some(candidate => candidate.id === id));
+
+            return (
+              <div key={item.company} className="bg-white rounded p-4">
+                <h3 className="font-semibold">
+                  {item.company}
+                  {item.inn && <span className="ml-2 text-sm text-gray-500">ИНН {item.inn}</span>}
+                </h3>
+                {item.companies.length > 1 && (
+                  <p className="text-xs text-gray-500">From {item.companies.map(name => `"${name}"`).join(', ')}</p>
+                )}
+                {item.candidates.length === 0 ? (
+                  <p className="text-sm text-gray-500 mt-2">No employers found on HH</p>
+                ) : (
+                  <table className="w-full mt-2">
+                    <thead>
+                      <tr className="text-left text-xs text-gray-500">
+                        <th className="p-2" />
+                        <th className="p-2">Employer</th>
+                        <th className="p-2">Area</th>
+                        <th className="p-2">Open vacancies</th>
+                        <th className="p-2">Site</th>
+                        <th className="p-2">Similarity</th>
+                        <th className="p-2" />
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {item.candidates.map(candidate => (
+                        <CandidateRow
+                          key={candidate.id}
+                          candidate={candidate}
+                          status={statusOf(item, candidate.id)}
+                          onChange={(next) => setDecision(item, candidate.id, candidate.name, next)}
+                        />
+                      ))}
+                    </tbody>
+                  </table>
+                )}
+                {extraIds.map(id => {
+                  const decision = item.decisions.find(saved => saved.employerId === id);
+                  const current = statusOf(item, id);
+                  return (
+                    <div key={id} className="flex items-center gap-2 text-sm mt-1">
+                      <a href={`https://hh.ru/employer/${id}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        {decision?.employerName || `#${id}`}
+                      </a>
+                      <span>{current === 'confirmed' ? 'confirmed' : current === 'rejected' ? 'rejected' : 'removed'}</span>
+                      {current && (
+                        <button onClick={() => setDecision(item, id, undefined, null)} className="text-blue-500 hover:text-blue-700">
+                          Remove
+                        </button>
+                      )}
+                    </div>
+                  );
+                })}
+                <div className="flex items-center gap-2 mt-2">
+                  <input
+                    value={manualIds[item.company] || ''}
+                    onChange={(e) => setManualIds(prev => ({ ...prev, [item.company]: e.target.value }))}
+                    placeholder="HH employer id"
+                    className="p-1 border rounded text-sm w-40"
+                  />
+                  <button onClick={() => addManualId(item)} className="px-2 py-1 rounded text-sm bg-gray-200">
+                    Add as confirmed
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompanyReview;
@@ -0,0 +1,156 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import {
+  createCompanyNormalizer,
+  formatAliases,
+  parseAliases,
+  parseCompanyNameRules,
+  type CompanyNameRules
+} from '@/lib/companyNames';
+
+// Editor for the company-name matching rules used by resume searches, with a live tester
+const CompanyRulesEditor: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stopWords, setStopWords] = useState('');
+  const [aliases, setAliases] = useState('');
+  const [transliterate, setTransliterate] = useState(true);
+  const [prefixMatch, setPrefixMatch] = useState(false);
+  const [threshold, setThreshold] = useState(0.85);
+  const [testA, setTestA] = useState('');
+  const [testB, setTestB] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const applyRules = (rules: CompanyNameRules) => {
+    setStopWords(rules.stopWords.join('\n'));
+    setAliases(formatAliases(rules.aliases));
+    setTransliterate(rules.transliterate);
+    setPrefixMatch(rules.prefixMatch);
+    setThreshold(rules.threshold);
+  };
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchWithRefresh('/api/company-rules')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP error! status: ${response.status}`)))
+      .then(data => applyRules(data.rules))
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load rules'));
+  }, [isOpen]);
+
+  const buildRules = (): CompanyNameRules => parseCompanyNameRules({
+    stopWords: stopWords.split('\n'),
+    aliases: parseAliases(aliases),
+    transliterate,
+    prefixMatch,
+    threshold
+  });
+
+  const save = async (method: 'PUT' | 'DELETE') => {
+    setError(null);
+    setStatus(null);
+    try {
+      const response = await fetchWithRefresh('/api/company-rules', {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: method === 'PUT' ? JSON.stringify(buildRules()) : undefined
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to save rules');
+      applyRules(data.rules);
+      setStatus(method === 'PUT' ? 'Rules saved. They apply to searches started from now on.' : 'Rules reset to defaults.');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to save rules');
+    }
+  };
+
+  let testResult: string | null = null;
+  if (testA && testB) {
+    try {
+      const normalizer = createCompanyNormalizer(buildRules());
+      const score = normalizer.score(testA, testB);
+      testResult = `"${normalizer.key(testA)}" vs "${normalizer.key(testB)}": ${score.toFixed(2)} — ${
+        score >= threshold ? 'match' : 'no match'
+      }`;
+    } catch (err) {
+      testResult = err instanceof Error ? err.message : String(err);
+    }
+  }
+
+  return (
+    <div className="mb-12 p-6 bg-gray-100 rounded-lg shadow">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-xl font-semibold">
+        {isOpen ? '▾' : '▸'} Company matching rules
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <label className="block">
+              <span className="text-sm text-gray-600">Stop words (one per line), removed from names before comparing</span>
+              <textarea
+                value={stopWords}
+                onChange={(e) => setStopWords(e.target.value)}
+                rows={8}
+                className="w-full p-2 border rounded font-mono text-sm"
+              />
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">Aliases, one company per line: Сбербанк: Сбер, Sberbank, ПАО Сбербанк</span>
+              <textarea
+                value={aliases}
+                onChange={(e) => setAliases(e.target.value)}
+                rows={8}
+                className="w-full p-2 border rounded font-mono text-sm"
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-6">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={transliterate} onChange={(e) => setTransliterate(e.target.checked)} />
+              <span>Match Cyrillic and Latin spellings (Яндекс = Yandex)</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={prefixMatch} onChange={(e) => setPrefixMatch(e.target.checked)} />
+              <span>Match names that start another one (Сбер = Сбербанк, but also Мега = МегаФон)</span>
+            </label>
+            <label className="flex items-center gap-2">
+              <span>Match threshold</span>
+              <input
+                type="number"
+                min="0.05"
+                max="1"
+                step="0.05"
+                value={threshold}
+                onChange={(e) => setThreshold(parseFloat(e.target.value) || 0)}
+                className="w-24 p-1 border rounded"
+              />
+            </label>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <input value={testA} onChange={(e) => setTestA(e.target.value)} placeholder="Company from sheet" className="p-2 border rounded" />
+            <input value={testB} onChange={(e) => setTestB(e.target.value)} placeholder="Employer in resume" className="p-2 border rounded" />
+            {testResult && <span className="text-sm">{testResult}</span>}
+          </div>
+
+          <div className="flex space-x-4">
+            <button onClick={() => save('PUT')} className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 transition">
+              Save rules
+            </button>
+            <button onClick={() => save('DELETE')} className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600 transition">
+              Reset to defaults
+            </button>
+          </div>
+
+          {status && <p className="text-sm text-green-700">{status}</p>}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompanyRulesEditor;
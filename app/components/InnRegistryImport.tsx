@@ -0,0 +1,88 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+
+interface RegistryStats {
+  count: number;
+  lastImportedAt: string | null;
+}
+
+// Imports the INN → legal name/brand registry that vacancy INN checks and resume searches by
+// employer id resolve companies with
+const InnRegistryImport: React.FC = () => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [stats, setStats] = useState<RegistryStats | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const [status, setStatus] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    fetchWithRefresh('/api/inn-registry')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP error! status: ${response.status}`)))
+      .then(setStats)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load the registry'));
+  }, [isOpen]);
+
+  const importFile = async (file: File) => {
+    setIsImporting(true);
+    setError(null);
+    setStatus(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetchWithRefresh('/api/inn-registry', { method: 'POST', body: form });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      setStats({ count: data.count, lastImportedAt: data.lastImportedAt });
+      setStatus(`Imported ${data.imported} companies${data.skipped ? `, skipped ${data.skipped} rows without a valid INN or name` : ''}`);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import the registry');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="mt-8 p-6 bg-gray-100 rounded-lg shadow">
+      <button onClick={() => setIsOpen(!isOpen)} className="text-xl font-semibold">
+        {isOpen ? '▾' : '▸'} INN registry
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-2">
+          <p className="text-sm text-gray-600">
+            XLSX/CSV with an INN column (&apos;ИНН&apos;, &apos;ИННЮЛ&apos;), the legal name (&apos;Полное наименование&apos;,
+            &apos;НаимЮЛПолн&apos;) and optionally the short name and brands. Vacancies whose employer doesn&apos;t match the
+            row&apos;s INN are flagged in the &apos;INN check&apos; column.
+          </p>
+          {stats && (
+            <p className="text-sm">
+              {stats.count} companies in the registry
+              {stats.lastImportedAt && `, last import ${new Date(stats.lastImportedAt).toLocaleString('ru-RU')}`}
+            </p>
+          )}
+          <label className="flex items-center gap-2 text-sm text-gray-600">
+            <span>Import file</span>
+            <input
+              type="file"
+              accept=".xlsx,.xls,.csv,.txt"
+              disabled={isImporting}
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+            {isImporting && <span>Importing...</span>}
+          </label>
+          {status && <p className="text-sm text-green-700">{status}</p>}
+          {error && <p className="text-sm text-red-500">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InnRegistryImport;
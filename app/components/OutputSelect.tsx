@@ -0,0 +1,23 @@
+'use client';
+
+import React from 'react';
+import { OUTPUT_FORMAT_LABELS, type OutputFormat } from '@/lib/output/types';
+
+interface OutputSelectProps {
+  value: OutputFormat;
+  onChange: (format: OutputFormat) => void;
+}
+
+// Where a run's results go: the Google Sheet, or a file downloaded once the run is done
+const OutputSelect: React.FC<OutputSelectProps> = ({ value, onChange }) => (
+  <label className="flex items-center gap-2">
+    <span className="text-sm text-gray-600">Output</span>
+    <select value={value} onChange={(e) => onChange(e.target.value as OutputFormat)} className="p-2 border rounded">
+      {(Object.keys(OUTPUT_FORMAT_LABELS) as OutputFormat[]).map(format => (
+        <option key={format} value={format}>{OUTPUT_FORMAT_LABELS[format]}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default OutputSelect;
@@ -0,0 +1,123 @@
+'use client';
+
+import React, { useCallback, useRef, useState } from 'react';
+import type { ProgressEvent, ProgressLogEvent, ProgressSnapshot } from '@/lib/progress/events';
+
+const MAX_VISIBLE_LOGS = 50;
+
+// Collects the events of a streamed request for <ProgressPanel>
+export function useProgressStream() {
+  const [progress, setProgress] = useState<ProgressSnapshot | null>(null);
+  const [logs, setLogs] = useState<ProgressLogEvent[]>([]);
+
+  const handleEvent = useCallback((event: ProgressEvent) => {
+    if (event.type === 'progress') {
+      setProgress(event);
+    } else if (event.type === 'log') {
+      setLogs(prev => [...prev, event].slice(-MAX_VISIBLE_LOGS));
+    }
+  }, []);
+
+  const reset = useCallback(() => {
+    setProgress(null);
+    setLogs([]);
+  }, []);
+
+  return { progress, logs, handleEvent, reset };
+}
+
+function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(Math.round(ms / 1000), 1);
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return minutes > 0 ? `${minutes}m ${seconds}s` : `${seconds}s`;
+}
+
+interface PhaseStart {
+  phase: string;
+  startedAt: number;
+  completed: number;
+}
+
+// ETA from the rate observed since the current phase started (phases have different units:
+// companies while searching, resumes while enriching)
+function useEta(progress: ProgressSnapshot | null): string | null {
+  const phaseStart = useRef<PhaseStart | null>(null);
+  if (!progress) {
+    phaseStart.current = null;
+    return null;
+  }
+
+  if (!phaseStart.current || phaseStart.current.phase !== progress.phase) {
+    phaseStart.current = { phase: progress.phase, startedAt: Date.now(), completed: progress.completed };
+    return null;
+  }
+
+  const done = progress.completed - phaseStart.current.completed;
+  const remaining = progress.total - progress.completed;
+  if (done <= 0 || remaining <= 0) return null;
+
+  const elapsed = Date.now() - phaseStart.current.startedAt;
+  return formatDuration((elapsed / done) * remaining);
+}
+
+interface ProgressPanelProps {
+  progress: ProgressSnapshot | null;
+  logs: ProgressLogEvent[];
+}
+
+const ProgressPanel: React.FC<ProgressPanelProps> = ({ progress, logs }) => {
+  const eta = useEta(progress);
+
+  if (!progress && logs.length === 0) return null;
+
+  const percent = progress && progress.total > 0
+    ? Math.min(Math.round((progress.completed / progress.total) * 100), 100)
+    : 0;
+
+  return (
+    <div className="mb-8 p-4 border rounded bg-gray-50">
+      {progress && (
+        <>
+          <div className="flex justify-between text-sm mb-1">
+            <span className="font-semibold">
+              {progress.phase}
+              {progress.total > 0 && ` — ${progress.completed} of ${progress.total}`}
+              {progress.current && ` — ${progress.current}`}
+            </span>
+            {eta && <span className="text-gray-600">ETA ~{eta}</span>}
+          </div>
+          <div className="w-full bg-gray-200 rounded h-2 mb-2">
+            <div className="bg-blue-500 h-2 rounded transition-all" style={{ width: `${percent}%` }} />
+          </div>
+          {progress.message && <p className="text-sm text-gray-600 mb-2">{progress.message}</p>}
+          {progress.counters && (
+            <div className="flex flex-wrap gap-2 mb-2">
+              {Object.entries(progress.counters).map(([name, value]) => (
+                <span
+                  key={name}
+                  className={`px-2 py-1 text-xs rounded-full ${
+                    name === 'errors' && value > 0 ? 'bg-red-100 text-red-700' : 'bg-gray-200'
+                  }`}
+                >
+                  {name}: {value}
+                </span>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+      {logs.length > 0 && (
+        <div className="max-h-48 overflow-y-auto text-xs font-mono bg-white border rounded p-2">
+          {logs.map((entry, index) => (
+            <div key={index} className={entry.level === 'error' ? 'text-red-600' : 'text-gray-700'}>
+              {new Date(entry.timestamp).toLocaleTimeString('ru-RU')} {entry.message}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressPanel;
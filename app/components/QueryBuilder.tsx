@@ -0,0 +1,187 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  and,
+  formatQuery,
+  or,
+  parseQuery,
+  term,
+  toHHTextBlocks,
+  type QueryField,
+  type QueryNode
+} from '@/lib/searchQuery';
+
+type GroupField = QueryField | 'any';
+
+interface QueryGroup {
+  field: GroupField;
+  // Alternatives, one per line; several words make a phrase
+  terms: string;
+  proximity: string;
+}
+
+const FIELD_LABELS: Record<GroupField, string> = {
+  any: 'Anywhere',
+  title: 'Desired position',
+  skills: 'Skills',
+  experience: 'Work experience'
+};
+
+const emptyGroup = (): QueryGroup => ({ field: 'any', terms: '', proximity: '' });
+
+function toLines(text: string): string[] {
+  return text.split('\n').map(line => line.replace(/["()]/g, ' ').trim()).filter(Boolean);
+}
+
+// Quoted whenever the bare word would mean something else in the query syntax
+function toTerm(value: string, proximity?: number): QueryNode {
+  const phrase = /[\s:]/.test(value) || ['AND', 'OR', 'NOT'].includes(value);
+  return term(value, { phrase, proximity: phrase ? proximity : undefined });
+}
+
+function buildQuery(groups: QueryGroup[], excluded: string): QueryNode | null {
+  const parts = groups.flatMap<QueryNode>(group => {
+    const proximity = group.proximity ? parseInt(group.proximity, 10) : undefined;
+    const terms = toLines(group.terms).map(value => toTerm(value, proximity));
+    if (terms.length === 0) return [];
+    const node = or(terms);
+    return [group.field === 'any' ? node : { type: 'field', field: group.field, child: node }];
+  });
+  if (parts.length === 0) return null;
+  const exclusions = toLines(excluded).map<QueryNode>(value => ({ type: 'not', child: toTerm(value) }));
+  return and([...parts, ...exclusions]);
+}
+
+interface QueryCheckProps {
+  text: string;
+}
+
+// Validates the search text as it is typed and shows what will be sent to HH.ru
+export const QueryCheck: React.FC<QueryCheckProps> = ({ text }) => {
+  if (!text.trim()) return null;
+  try {
+    const blocks = toHHTextBlocks(parseQuery(text));
+    return (
+      <div className="text-sm text-gray-500 mb-4">
+        HH.ru query:{' '}
+        {blocks.map((block, index) => (
+          <span key={index} className="mr-2">
+            {index > 0 && 'AND '}
+            {block.field && <span className="font-semibold">{FIELD_LABELS[block.field as QueryField] || block.field}: </span>}
+            <code>{block.text}</code>
+          </span>
+        ))}
+      </div>
+    );
+  } catch (err) {
+    return <div className="text-sm text-red-500 mb-4">{err instanceof Error ? err.message : String(err)}</div>;
+  }
+};
+
+interface QueryBuilderProps {
+  onApply: (text: string) => void;
+}
+
+// Visual alternative to typing the boolean query: all groups must match (AND), any line
+// within a group may match (OR), excluded words must not appear (NOT)
+const QueryBuilder: React.FC<QueryBuilderProps> = ({ onApply }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [groups, setGroups] = useState<QueryGroup[]>([emptyGroup()]);
+  const [excluded, setExcluded] = useState('');
+
+  const updateGroup = (index: number, changes: Partial<QueryGroup>) => {
+    setGroups(groups.map((group, i) => i === index ? { ...group, ...changes } : group));
+  };
+
+  let preview = '';
+  let error: string | null = null;
+  try {
+    const query = buildQuery(groups, excluded);
+    preview = query ? formatQuery(query) : '';
+  } catch (err) {
+    error = err instanceof Error ? err.message : String(err);
+  }
+
+  return (
+    <div className="mb-4 p-4 border rounded">
+      <button onClick={() => setIsOpen(!isOpen)} className="font-semibold">
+        {isOpen ? '▾' : '▸'} Query builder
+      </button>
+
+      {isOpen && (
+        <div className="mt-4 space-y-4">
+          {groups.map((group, index) => (
+            <div key={index} className="p-3 bg-gray-50 rounded">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-sm font-semibold">{index === 0 ? 'Must match' : 'AND'}</span>
+                <select
+                  value={group.field}
+                  onChange={(e) => updateGroup(index, { field: e.target.value as GroupField })}
+                  className="p-1 border rounded"
+                >
+                  {(Object.keys(FIELD_LABELS) as GroupField[]).map(field => (
+                    <option key={field} value={field}>{FIELD_LABELS[field]}</option>
+                  ))}
+                </select>
+                <label className="flex items-center gap-1 text-sm text-gray-600">
+                  phrase words within
+                  <input
+                    type="number"
+                    min="0"
+                    value={group.proximity}
+                    onChange={(e) => updateGroup(index, { proximity: e.target.value })}
+                    placeholder="exact"
+                    className="w-16 p-1 border rounded"
+                  />
+                </label>
+                {groups.length > 1 && (
+                  <button
+                    onClick={() => setGroups(groups.filter((_, i) => i !== index))}
+                    className="ml-auto text-sm text-red-500 hover:underline"
+                  >
+                    Remove
+                  </button>
+                )}
+              </div>
+              <textarea
+                value={group.terms}
+                onChange={(e) => updateGroup(index, { terms: e.target.value })}
+                rows={3}
+                placeholder={'One alternative per line (OR), e.g.\nвнутренние коммуникации\nhr директор'}
+                className="w-full p-2 border rounded text-sm"
+              />
+            </div>
+          ))}
+
+          <button onClick={() => setGroups([...groups, emptyGroup()])} className="text-sm text-blue-600 hover:underline">
+            + Add group
+          </button>
+
+          <label className="block">
+            <span className="text-sm text-gray-600">Exclude (NOT), one per line</span>
+            <textarea
+              value={excluded}
+              onChange={(e) => setExcluded(e.target.value)}
+              rows={2}
+              className="w-full p-2 border rounded text-sm"
+            />
+          </label>
+
+          {error && <div className="text-sm text-red-500">{error}</div>}
+          {preview && <div className="text-sm text-gray-600"><code>{preview}</code></div>}
+
+          <button
+            onClick={() => onApply(preview)}
+            disabled={!preview}
+            className="bg-gray-500 text-white px-4 py-2 rounded hover:bg-gray-600 transition disabled:opacity-50"
+          >
+            Use this query
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default QueryBuilder;
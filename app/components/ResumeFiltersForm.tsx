@@ -0,0 +1,333 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { DEFAULT_RESUME_SEARCH_FILTERS, type ResumeSearchFilters } from '@/lib/resumeSearch/filters';
+
+interface Option {
+  id: string;
+  name: string;
+}
+
+interface AreaOption extends Option {
+  country?: string;
+}
+
+// Shape of /api/dictionaries
+interface FilterOptions {
+  areas: AreaOption[];
+  currency: { code: string; abbr: string; name: string }[];
+  experience: Option[];
+  educationLevel: Option[];
+  employment: Option[];
+  schedule: Option[];
+  jobSearchStatus: Option[];
+  languages: Option[];
+  languageLevel: Option[];
+  orderBy: Option[];
+  relocation: Option[];
+}
+
+interface ResumeFiltersFormProps {
+  filters: ResumeSearchFilters;
+  onChange: (filters: ResumeSearchFilters) => void;
+}
+
+function toggle(list: string[], id: string): string[] {
+  return list.includes(id) ? list.filter(item => item !== id) : [...list, id];
+}
+
+function toNumber(value: string): number | undefined {
+  return value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0);
+}
+
+const CheckboxGroup: React.FC<{
+  label: string;
+  options: Option[];
+  selected: string[];
+  onChange: (selected: string[]) => void;
+}> = ({ label, options, selected, onChange }) => (
+  <fieldset>
+    <legend className="text-sm text-gray-600 mb-1">{label}</legend>
+    {options.map(option => (
+      <label key={option.id} className="flex items-center gap-2 text-sm">
+        <input
+          type="checkbox"
+          checked={selected.includes(option.id)}
+          onChange={() => onChange(toggle(selected, option.id))}
+        />
+        {option.name}
+      </label>
+    ))}
+  </fieldset>
+);
+
+// HH.ru resume search filters; the options come from the locally cached HH dictionaries
+const ResumeFiltersForm: React.FC<ResumeFiltersFormProps> = ({ filters, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [options, setOptions] = useState<FilterOptions | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [areaQuery, setAreaQuery] = useState('');
+  const [language, setLanguage] = useState('');
+  const [languageLevel, setLanguageLevel] = useState('');
+
+  useEffect(() => {
+    if (!isOpen || options) return;
+    fetch('/api/dictionaries')
+      .then(response => response.ok ? response.json() : Promise.reject(new Error(`HTTP error! status: ${response.status}`)))
+      .then(setOptions)
+      .catch(err => setError(err instanceof Error ? err.message : 'Failed to load filter options'));
+  }, [isOpen, options]);
+
+  const update = (changes: Partial<ResumeSearchFilters>) => onChange({ ...filters, ...changes });
+
+  const optionName = (list: Option[] | undefined, id: string) => list?.find(option => option.id === id)?.name || id;
+
+  const matchingAreas = options && areaQuery.trim()
+    ? options.areas
+      .filter(area => area.name.toLowerCase().includes(areaQuery.trim().toLowerCase()) && !filters.areas.includes(area.id))
+      .slice(0, 10)
+    : [];
+
+  const addLanguage = () => {
+    if (!language || !languageLevel) return;
+    const value = `${language}.${languageLevel}`;
+    if (!filters.languages.includes(value)) {
+      update({ languages: [...filters.languages, value] });
+    }
+  };
+
+  return (
+    <div className="mb-4 p-4 border rounded">
+      <button onClick={() => setIsOpen(!isOpen)} className="font-semibold">
+        {isOpen ? '▾' : '▸'} Filters
+        {!isOpen && filters.areas.length > 0 && (
+          <span className="ml-2 text-sm font-normal text-gray-500">
+            {filters.areas.map(id => optionName(options?.areas, id)).join(', ')}
+          </span>
+        )}
+      </button>
+
+      {isOpen && error && <div className="mt-2 text-red-500">{error}</div>}
+      {isOpen && !options && !error && <div className="mt-2 text-gray-500">Loading filter options...</div>}
+
+      {isOpen && options && (
+        <div className="mt-4 space-y-4">
+          <div>
+            <span className="text-sm text-gray-600">Regions (none selected = all regions)</span>
+            <div className="flex flex-wrap gap-2 my-2">
+              {filters.areas.map(id => (
+                <span key={id} className="px-2 py-1 text-sm bg-blue-100 rounded-full">
+                  {optionName(options.areas, id)}
+                  <button onClick={() => update({ areas: filters.areas.filter(area => area !== id) })} className="ml-1">×</button>
+                </span>
+              ))}
+            </div>
+            <input
+              type="text"
+              value={areaQuery}
+              onChange={(e) => setAreaQuery(e.target.value)}
+              placeholder="Type a country or region"
+              className="w-full p-2 border rounded"
+            />
+            {matchingAreas.length > 0 && (
+              <ul className="border rounded mt-1 bg-white">
+                {matchingAreas.map(area => (
+                  <li key={area.id}>
+                    <button
+                      onClick={() => {
+                        update({ areas: [...filters.areas, area.id] });
+                        setAreaQuery('');
+                      }}
+                      className="w-full text-left px-2 py-1 hover:bg-gray-100"
+                    >
+                      {area.name}{area.country && <span className="text-gray-500">, {area.country}</span>}
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-sm text-gray-600">Age</span>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="14"
+                  value={filters.ageFrom ?? ''}
+                  onChange={(e) => update({ ageFrom: toNumber(e.target.value) })}
+                  placeholder="from"
+                  className="w-full p-2 border rounded"
+                />
+                <input
+                  type="number"
+                  min="14"
+                  value={filters.ageTo ?? ''}
+                  onChange={(e) => update({ ageTo: toNumber(e.target.value) })}
+                  placeholder="to"
+                  className="w-full p-2 border rounded"
+                />
+              </div>
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">Desired salary</span>
+              <div className="flex gap-2">
+                <input
+                  type="number"
+                  min="0"
+                  value={filters.salaryFrom ?? ''}
+                  onChange={(e) => update({ salaryFrom: toNumber(e.target.value) })}
+                  placeholder="from"
+                  className="w-full p-2 border rounded"
+                />
+                <input
+                  type="number"
+                  min="0"
+                  value={filters.salaryTo ?? ''}
+                  onChange={(e) => update({ salaryTo: toNumber(e.target.value) })}
+                  placeholder="to"
+                  className="w-full p-2 border rounded"
+                />
+                <select
+                  value={filters.currency || ''}
+                  onChange={(e) => update({ currency: e.target.value || undefined })}
+                  className="p-2 border rounded"
+                >
+                  <option value="">Any</option>
+                  {options.currency.map(currency => (
+                    <option key={currency.code} value={currency.code}>{currency.abbr}</option>
+                  ))}
+                </select>
+              </div>
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">Updated within (days)</span>
+              <input
+                type="number"
+                min="1"
+                value={filters.period ?? ''}
+                onChange={(e) => update({ period: toNumber(e.target.value) })}
+                placeholder="any time"
+                className="w-full p-2 border rounded"
+              />
+            </label>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <CheckboxGroup
+              label="Experience"
+              options={options.experience}
+              selected={filters.experience}
+              onChange={(experience) => update({ experience })}
+            />
+            <CheckboxGroup
+              label="Employment"
+              options={options.employment}
+              selected={filters.employment}
+              onChange={(employment) => update({ employment })}
+            />
+            <CheckboxGroup
+              label="Schedule"
+              options={options.schedule}
+              selected={filters.schedule}
+              onChange={(schedule) => update({ schedule })}
+            />
+            <CheckboxGroup
+              label="Job search status"
+              options={options.jobSearchStatus}
+              selected={filters.jobSearchStatus}
+              onChange={(jobSearchStatus) => update({ jobSearchStatus })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <label className="block">
+              <span className="text-sm text-gray-600">Education</span>
+              <select
+                value={filters.educationLevel || ''}
+                onChange={(e) => update({ educationLevel: e.target.value || undefined })}
+                className="w-full p-2 border rounded"
+              >
+                <option value="">Any</option>
+                {options.educationLevel.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">Relocation</span>
+              <select
+                value={filters.relocation || ''}
+                onChange={(e) => update({ relocation: e.target.value || undefined })}
+                className="w-full p-2 border rounded"
+              >
+                <option value="">Any</option>
+                {options.relocation.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </label>
+            <label className="block">
+              <span className="text-sm text-gray-600">Order by</span>
+              <select
+                value={filters.orderBy || ''}
+                onChange={(e) => update({ orderBy: e.target.value || undefined })}
+                className="w-full p-2 border rounded"
+              >
+                {options.orderBy.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+            </label>
+          </div>
+
+          <div>
+            <span className="text-sm text-gray-600">Languages</span>
+            <div className="flex flex-wrap gap-2 my-2">
+              {filters.languages.map(value => {
+                const [languageId, levelId] = value.split('.');
+                return (
+                  <span key={value} className="px-2 py-1 text-sm bg-blue-100 rounded-full">
+                    {optionName(options.languages, languageId)} — {optionName(options.languageLevel, levelId)}
+                    <button onClick={() => update({ languages: filters.languages.filter(item => item !== value) })} className="ml-1">×</button>
+                  </span>
+                );
+              })}
+            </div>
+            <div className="flex gap-2">
+              <select value={language} onChange={(e) => setLanguage(e.target.value)} className="p-2 border rounded">
+                <option value="">Language</option>
+                {options.languages.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <select value={languageLevel} onChange={(e) => setLanguageLevel(e.target.value)} className="p-2 border rounded">
+                <option value="">Level</option>
+                {options.languageLevel.map(option => (
+                  <option key={option.id} value={option.id}>{option.name}</option>
+                ))}
+              </select>
+              <button
+                onClick={addLanguage}
+                disabled={!language || !languageLevel}
+                className="bg-gray-500 text-white px-3 py-1 rounded hover:bg-gray-600 transition disabled:opacity-50"
+              >
+                Add
+              </button>
+            </div>
+          </div>
+
+          <button
+            onClick={() => onChange({ ...DEFAULT_RESUME_SEARCH_FILTERS })}
+            className="text-sm text-blue-600 hover:underline"
+          >
+            Reset filters
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResumeFiltersForm;
@@ -0,0 +1,246 @@
+'use client';
+
+import React, { useMemo, useState } from 'react';
+import { formatMonths } from '@/lib/resumeSearch/experience';
+import type { Resume } from '@/lib/resumeSearch/types';
+
+const PAGE_SIZE = 20;
+
+type SortKey = 'age' | 'salary' | 'updated' | 'experience';
+
+const SORT_LABELS: Record<SortKey, string> = {
+  age: 'Возраст',
+  salary: 'Желаемая зарплата',
+  updated: 'Обновлено',
+  experience: 'Опыт работы'
+};
+
+// Resumes without the value sort last in both directions
+const SORT_VALUES: Record<SortKey, (item: Resume) => number | null> = {
+  age: item => item.age ?? null,
+  salary: item => item.salary?.amount ?? null,
+  updated: item => item.updated_at ? new Date(item.updated_at).getTime() : null,
+  experience: item => item.total_experience?.months ?? null
+};
+
+function formatDate(dateString: string | null | undefined): string {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleDateString('ru-RU');
+}
+
+function formatSalary(salary: Resume['salary']): string {
+  if (!salary) return 'Не указана';
+  return `${salary.amount?.toLocaleString('ru-RU') || ''} ${salary.currency || ''}`;
+}
+
+function formatExperience(experience: Resume['total_experience']): string {
+  if (!experience?.months) return 'N/A';
+  const years = Math.floor(experience.months / 12);
+  const months = experience.months % 12;
+  return `${years} лет ${months} месяцев`;
+}
+
+// Text the quick filter looks in
+function searchableText(item: Resume): string {
+  const lastJob = item.experience?.[0];
+  return [item.title, lastJob?.company, lastJob?.position, item.matchedCompany, item.matchedEmployer, item.area?.name]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+}
+
+interface ResumePreviewTableProps {
+  items: Resume[];
+  selected: string[];
+  onSelectionChange: (selected: string[]) => void;
+}
+
+// Preview results with client-side sorting, filtering and paging. Selected resumes can be
+// written to the sheet without searching again.
+const ResumePreviewTable: React.FC<ResumePreviewTableProps> = ({ items, selected, onSelectionChange }) => {
+  const [sortKey, setSortKey] = useState<SortKey | null>(null);
+  const [descending, setDescending] = useState(true);
+  const [filter, setFilter] = useState('');
+  const [page, setPage] = useState(0);
+
+  const visible = useMemo(() => {
+    const needle = filter.trim().toLowerCase();
+    const filtered = needle ? items.filter(item => searchableText(item).includes(needle)) : items;
+    if (!sortKey) return filtered;
+
+    const value = SORT_VALUES[sortKey];
+    return [...filtered].sort((a, b) => {
+      const left = value(a);
+      const right = value(b);
+      if (left === null || right === null) return left === null ? (right === null ? 0 : 1) : -1;
+      return descending ? right - left : left - right;
+    });
+  }, [items, filter, sortKey, descending]);
+
+  const pageCount = Math.max(1, Math.ceil(visible.length / PAGE_SIZE));
+  const currentPage = Math.min(page, pageCount - 1);
+  const pageItems = visible.slice(currentPage * PAGE_SIZE, (currentPage + 1) * PAGE_SIZE);
+  const selectedSet = new Set(selected);
+  const allVisibleSelected = visible.length > 0 && visible.every(item => selectedSet.has(item.id));
+
+  const toggleSort = (key: SortKey) => {
+    if (sortKey === key) {
+      setDescending(!descending);
+    } else {
+      setSortKey(key);
+      setDescending(true);
+    }
+  };
+
+  const toggleItem = (id: string) => {
+    onSelectionChange(selectedSet.has(id) ? selected.filter(item => item !== id) : [...selected, id]);
+  };
+
+  // Selects or clears everything the filter currently shows, across all pages
+  const toggleVisible = () => {
+    const visibleIds = new Set(visible.map(item => item.id));
+    onSelectionChange(allVisibleSelected
+      ? selected.filter(id => !visibleIds.has(id))
+      : [...selected, ...visible.map(item => item.id).filter(id => !selectedSet.has(id))]);
+  };
+
+  const sortHeader = (key: SortKey) => (
+    <th className="border p-2">
+      <button onClick={() => toggleSort(key)} className="font-bold">
+        {SORT_LABELS[key]}{sortKey === key ? (descending ? ' ↓' : ' ↑') : ''}
+      </button>
+    </th>
+  );
+
+  return (
+    <div>
+      <div className="flex items-center gap-4 mb-2">
+        <input
+          type="text"
+          value={filter}
+          onChange={(e) => {
+            setFilter(e.target.value);
+            setPage(0);
+          }}
+          placeholder="Filter by position, company or city"
+          className="p-2 border rounded w-80"
+        />
+        <span className="text-sm text-gray-600">
+          {visible.length} of {items.length} shown · {selected.length} selected
+        </span>
+      </div>
+
+      <table className="w-full border-collapse border min-w-max">
+        <thead>
+          <tr className="bg-gray-200">
+            <th className="border p-2">
+              <input type="checkbox" checked={allVisibleSelected} onChange={toggleVisible} title="Select all shown" />
+            </th>
+            <th className="border p-2">Должность</th>
+            {sortHeader('age')}
+            {sortHeader('salary')}
+            <th className="border p-2">Последний онлайн</th>
+            {sortHeader('updated')}
+            {sortHeader('experience')}
+            <th className="border p-2">Последнее место работы</th>
+            <th className="border p-2">Совпадение компании</th>
+            <th className="border p-2">Город</th>
+            <th className="border p-2">Ссылка</th>
+          </tr>
+        </thead>
+        <tbody>
+          {pageItems.map((item) => {
+            const lastJob = item.experience?.[0];
+            return (
+              <tr key={item.id} className="hover:bg-gray-50">
+                <td className="border p-2 text-center">
+                  <input type="checkbox" checked={selectedSet.has(item.id)} onChange={() => toggleItem(item.id)} />
+                </td>
+                <td className="border p-2">
+                  {item.title || 'N/A'}
+                  {item.firstSeenAt === null && <span className="ml-2 px-2 text-xs bg-green-100 rounded-full">Новый</span>}
+                  {item.firstSeenAt && (
+                    <div className="text-xs text-gray-500">
+                      Найден впервые {formatDate(item.firstSeenAt)}, последний раз {formatDate(item.lastSeenAt)}
+                    </div>
+                  )}
+                </td>
+                <td className="border p-2">{item.age || 'N/A'}</td>
+                <td className="border p-2">{formatSalary(item.salary)}</td>
+                <td className="border p-2">{formatDate(item.last_visit)}</td>
+                <td className="border p-2">{formatDate(item.updated_at)}</td>
+                <td className="border p-2">{formatExperience(item.total_experience)}</td>
+                <td className="border p-2 max-w-md">
+                  <div className="space-y-1">
+                    <div><strong>Компания:</strong> {lastJob?.company || 'N/A'}</div>
+                    <div><strong>Должность:</strong> {lastJob?.position || 'N/A'}</div>
+                    <div><strong>Период:</strong> {formatDate(lastJob?.start)} - {formatDate(lastJob?.end)}</div>
+                    <div className="text-sm">
+                      <strong>Описание:</strong>
+                      <div className="whitespace-pre-wrap">{lastJob?.description || 'N/A'}</div>
+                    </div>
+                  </div>
+                </td>
+                <td className="border p-2">
+                  {item.matchedEmployer || 'N/A'}
+                  {item.companyMatchScore !== undefined && (
+                    <div className="text-sm text-gray-500">
+                      {item.matchedCompany} · {item.companyMatchMethod === 'employer_id' ? 'по ID работодателя' : item.companyMatchScore}
+                    </div>
+                  )}
+                  {item.matchedCompanies && item.matchedCompanies.length > 1 && (
+                    <div className="text-sm text-gray-500">Также: {item.matchedCompanies.slice(1).join(', ')}</div>
+                  )}
+                  {item.tenureMonths !== undefined && (
+                    <div className="text-sm">
+                      Стаж: {formatMonths(item.tenureMonths)} ·{' '}
+                      {item.leftMonthsAgo === null ? 'работает сейчас' : `ушёл ${item.leftMonthsAgo} мес. назад`}
+                    </div>
+                  )}
+                  {item.queryMatch === false && (
+                    <div className="text-sm text-yellow-700" title="HH.ru matched the query in a section or word form not shown here">
+                      Запрос найден не в видимых полях
+                    </div>
+                  )}
+                </td>
+                <td className="border p-2">{item.area?.name || 'N/A'}</td>
+                <td className="border p-2">
+                  <a
+                    href={`https://hh.ru/resume/${item.id}`}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="text-blue-500 hover:text-blue-700"
+                  >
+                    Открыть
+                  </a>
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+
+      {pageCount > 1 && (
+        <div className="flex items-center gap-2 mt-2">
+          <button
+            onClick={() => setPage(currentPage - 1)}
+            disabled={currentPage === 0}
+            className="px-3 py-1 border rounded disabled:opacity-50"
+          >
+            ←
+          </button>
+          <span className="text-sm">Page {currentPage + 1} of {pageCount}</span>
+          <button
+            onClick={() => setPage(currentPage + 1)}
+            disabled={currentPage >= pageCount - 1}
+            className="px-3 py-1 border rounded disabled:opacity-50"
+          >
+            →
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResumePreviewTable;
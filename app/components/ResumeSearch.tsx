@@ -2,58 +2,135 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import { driveJob, listJobs, sendJobAction, startJob } from '@/lib/jobClient';
+import type { JobAction, JobSummary } from '@/lib/jobs/types';
+import type { SearchRun } from '@/lib/db/runs';
+import type { CompanyDedupeReport } from '@/lib/resumeSearch/companies';
+import { DEFAULT_RESUME_SEARCH_FILTERS, type ResumeSearchFilters } from '@/lib/resumeSearch/filters';
+import { DEFAULT_EXPERIENCE_MATCH_RULES, type ExperienceMatchRules } from '@/lib/resumeSearch/experience';
+import type { Resume } from '@/lib/resumeSearch/types';
+import type { SheetWriteMode } from '@/lib/sheets/writer';
+import { FILE_OUTPUT_FORMATS, OUTPUT_FORMAT_LABELS, runDownloadUrl, type OutputFormat } from '@/lib/output/types';
+import { EVENT_STREAM_HEADERS, readEventStream } from '@/lib/progress/client';
+import { VALIDATION_STATUS_LABELS, type CompanyValidationStatus, type ValidationSummary } from '@/lib/employers/validation';
+import ProgressPanel, { useProgressStream } from './ProgressPanel';
+import CompanyRulesEditor from './CompanyRulesEditor';
+import CompanyReview from './CompanyReview';
+import ResumeFiltersForm from './ResumeFiltersForm';
+import QueryBuilder, { QueryCheck } from './QueryBuilder';
+import ResumePreviewTable from './ResumePreviewTable';
+import SheetModeSelect from './SheetModeSelect';
+import OutputSelect from './OutputSelect';
+import ColumnMapping, { WorksheetField, useColumnMapping, type SheetInputRequest } from './ColumnMapping';
+import UploadField, { useUpload } from './UploadField';
+import { parseQuery } from '@/lib/searchQuery';
 
 const CLIENT_ID = process.env.NEXT_PUBLIC_HH_CLIENT_ID;
 const REDIRECT_URI = process.env.NEXT_PUBLIC_HH_REDIRECT_URI;
 
-function formatDate(dateString: string | null): string {
-  if (!dateString) return 'N/A';
-  return new Date(dateString).toLocaleDateString('ru-RU');
-}
-
-function formatSalary(salary: any): string {
-  if (!salary) return 'Не указана';
-  return `${salary.amount?.toLocaleString('ru-RU') || ''} ${salary.currency || ''}`;
-}
-
-function formatExperience(experience: any): string {
-  if (!experience?.months) return 'N/A';
-  const years = Math.floor(experience.months / 12);
-  const months = experience.months % 12;
-  return `${years} лет ${months} месяцев`;
-}
-
 // Add new type
 type SearchHistory = {
   timestamp: Date;
   searchText: string;
 };
 
+// Choices for how long ago the person may have left the company
+const EXPERIENCE_WINDOWS = [
+  { months: 0, label: 'Current employees only' },
+  { months: 6, label: 'Left within 6 months' },
+  { months: 12, label: 'Left within 1 year' },
+  { months: 24, label: 'Left within 2 years' },
+  { months: 36, label: 'Left within 3 years' }
+];
+
+const MAX_HISTORY = 5;
+const MAX_VISIBLE_RUNS = 5;
+
+// Search texts of past runs (stored server-side), most recent first and without repeats
+function toSearchHistory(runs: SearchRun[]): SearchHistory[] {
+  const seen = new Set<string>();
+  return runs.reduce<SearchHistory[]>((history, run) => {
+    const text = String(run.params.text || '').trim();
+    if (text && !seen.has(text)) {
+      seen.add(text);
+      history.push({ timestamp: new Date(run.startedAt), searchText: text });
+    }
+    return history;
+  }, []).slice(0, MAX_HISTORY);
+}
+
 export default function ResumeSearch() {
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [userInfo, setUserInfo] = useState<any>(null);
   const [accountType, setAccountType] = useState<'employer' | 'job_seeker' | null>(null);
   const [searchText, setSearchText] = useState('');
   const [sheetUrl, setSheetUrl] = useState('');
-  const [previewResults, setPreviewResults] = useState<any[]>([]);
+  const [previewResults, setPreviewResults] = useState<Resume[]>([]);
+  // The preview's run and where "Load more" continues it
+  const [previewRunId, setPreviewRunId] = useState<string | null>(null);
+  const [previewCursor, setPreviewCursor] = useState<string | null>(null);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  // Earlier run whose candidates are left out; empty = everyone
+  const [newSinceRunId, setNewSinceRunId] = useState('');
+  // Match employers by the HH ids written by "Validate Companies" or confirmed in the company review
+  const [useEmployerIds, setUseEmployerIds] = useState(false);
+  const [sheetMode, setSheetMode] = useState<SheetWriteMode>('overwrite');
+  const [output, setOutput] = useState<OutputFormat>('sheets');
+  const companyColumns = useColumnMapping('companies');
+  const companyUpload = useUpload();
+  // An uploaded company list replaces the sheet as input; the sheet still takes the results
+  const companyInput: SheetInputRequest = companyUpload.upload ? { uploadId: companyUpload.upload.uploadId } : { sheetUrl };
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [searchHistory, setSearchHistory] = useState<SearchHistory[]>([]);
   const [isValidating, setIsValidating] = useState(false);
+  // Employer search settings of "Validate Companies"; areas are the ones picked in the search filters
+  const [validateOnlyWithVacancies, setValidateOnlyWithVacancies] = useState(false);
+  const [validateInAreas, setValidateInAreas] = useState(false);
+  const [validationOutput, setValidationOutput] = useState<OutputFormat>('sheets');
+  const [validationSummary, setValidationSummary] = useState<ValidationSummary | null>(null);
   const [hasSearched, setHasSearched] = useState(false);
+  const [job, setJob] = useState<JobSummary | null>(null);
+  const [isJobRunning, setIsJobRunning] = useState(false);
+  const [isSearching, setIsSearching] = useState(false);
+  const [runs, setRuns] = useState<SearchRun[]>([]);
+  const [dedupe, setDedupe] = useState<CompanyDedupeReport | null>(null);
+  const [filters, setFilters] = useState<ResumeSearchFilters>(DEFAULT_RESUME_SEARCH_FILTERS);
+  const [experienceRules, setExperienceRules] = useState<ExperienceMatchRules>(DEFAULT_EXPERIENCE_MATCH_RULES);
+  const { progress, logs, handleEvent, reset: resetProgress } = useProgressStream();
+
+  const loadRuns = async () => {
+    try {
+      const response = await fetchWithRefresh('/api/runs?limit=50');
+      if (!response.ok) return;
+      const data: SearchRun[] = await response.json();
+      const resumeRuns = data.filter(run => run.type === 'resume-search' || run.type === 'resume-preview');
+      setRuns(resumeRuns);
+      setSearchHistory(toSearchHistory(resumeRuns));
+    } catch (error) {
+      console.error('Error loading previous runs:', error);
+    }
+  };
 
   useEffect(() => {
     const checkAuthStatus = async () => {
       setIsLoading(true);
       try {
-        const response = await fetch('/api/user-data');
+        const response = await fetchWithRefresh('/api/user-data');
         if (response.ok) {
           const data = await response.json();
           setUserInfo(data);
-          setAccessToken(data.access_token);
+          setIsAuthenticated(true);
           setAccountType(data.is_employer ? 'employer' : 'job_seeker');
+
+          // Pick up a search left unfinished by a closed tab or a previous session
+          const jobs = await listJobs('resume-search').catch(() => []);
+          const unfinished = jobs.find(item => ['pending', 'running', 'paused'].includes(item.status));
+          if (unfinished) setJob(unfinished);
+          await loadRuns();
         } else if (response.status === 401) {
-          setAccessToken(null);
+          setIsAuthenticated(false);
           setUserInfo(null);
           setAccountType(null);
         } else {
@@ -81,67 +158,203 @@ export default function ResumeSearch() {
     window.location.href = authUrl;
   };
 
+  const runJob = async (id: string) => {
+    setIsJobRunning(true);
+    setError(null);
+    resetProgress();
+    try {
+      const finished = await driveJob(id, setJob, handleEvent);
+      if (finished.status === 'completed') {
+        const result = finished.result as { count: number; dedupe?: CompanyDedupeReport; downloadUrl?: string } | undefined;
+        setDedupe(result?.dedupe || null);
+        if (result?.downloadUrl) {
+          // The file is rendered from the stored run; the attachment keeps this page open
+          window.location.href = result.downloadUrl;
+        } else {
+          alert(`Successfully wrote ${result?.count ?? 0} resumes to sheet`);
+        }
+        setPreviewResults([]);
+        setHasSearched(false);
+      } else if (finished.status === 'failed') {
+        setError(`Search failed: ${finished.error || 'Unknown error'}`);
+      }
+    } catch (error) {
+      console.error('Error running search job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to run the search. Please try again.');
+    } finally {
+      setIsJobRunning(false);
+      loadRuns();
+    }
+  };
+
+  const handleJobAction = async (action: JobAction) => {
+    if (!job) return;
+    try {
+      const updated = await sendJobAction(job.id, action);
+      setJob(updated);
+      // Resuming needs someone to drive the job again; pause/cancel stop the running loop
+      if (action === 'resume' && !isJobRunning) {
+        await runJob(updated.id);
+      }
+    } catch (error) {
+      setError(error instanceof Error ? error.message : `Failed to ${action} the search`);
+    }
+  };
+
   const handleSearch = async (mode: 'preview' | 'full') => {
-    setIsLoading(true);
     setError(null);
     setHasSearched(mode === 'preview');
 
-    if (!sheetUrl) {
-      setError('Please enter a Google Sheet URL');
-      setIsLoading(false);
+    if (!sheetUrl && !companyUpload.upload) {
+      setError('Please enter a Google Sheet URL or upload a company list');
+      return;
+    }
+    if (mode === 'full' && output === 'sheets' && !sheetUrl) {
+      setError('Enter the Google Sheet URL to write the results to, or pick a file output');
       return;
     }
 
+    try {
+      parseQuery(searchText);
+    } catch (err) {
+      setError(`Search query: ${err instanceof Error ? err.message : String(err)}`);
+      return;
+    }
+
+    if (!await checkCompanyColumn()) return;
+
     // Add to search history if there's a search text
     if (searchText.trim()) {
       setSearchHistory(prev => {
         const newHistory = [{
           timestamp: new Date(),
           searchText: searchText.trim()
-        }, ...prev].slice(0, 3);
+        }, ...prev.filter(item => item.searchText !== searchText.trim())].slice(0, MAX_HISTORY);
         return newHistory;
       });
     }
 
+    if (mode === 'full') {
+      // The full search can outlive a single request, so it runs as a resumable background job
+      try {
+        const created = await startJob('resume-search', {
+          text: searchText,
+          ...companyInput,
+          sheetUrl,
+          totalLimit: 100,
+          filters,
+          experienceRules,
+          newSinceRunId: newSinceRunId || undefined,
+          useEmployerIds,
+          sheetMode,
+          output,
+          columns: companyColumns.columns,
+          worksheet: companyColumns.worksheet
+        });
+        setJob(created);
+        await runJob(created.id);
+      } catch (error) {
+        console.error('Error starting search job:', error);
+        setError(error instanceof Error ? error.message : 'Failed to start the search. Please try again.');
+      }
+      return;
+    }
+
+    setPreviewResults([]);
+    setPreviewRunId(null);
+    setPreviewCursor(null);
+    setSelectedIds([]);
+    setDedupe(null);
+    await loadPreview(null);
+  };
+
+  // A new preview fetches the first page of results per company; with a cursor it loads
+  // the next page and appends to the table
+  const loadPreview = async (cursor: string | null) => {
+    setIsSearching(true);
+    setError(null);
+    resetProgress();
     try {
-      const queryParams = new URLSearchParams({
-        mode,
+      const queryParams = new URLSearchParams(cursor ? { cursor } : {
         text: searchText,
-        accessToken: accessToken || '',
-        sheetUrl: encodeURIComponent(sheetUrl),
-        totalLimit: '100'
+        ...companyInput,
+        filters: JSON.stringify(filters),
+        experienceRules: JSON.stringify(experienceRules),
+        ...(newSinceRunId ? { newSinceRunId } : {}),
+        ...(useEmployerIds ? { useEmployerIds: 'true' } : {}),
+        columns: JSON.stringify(companyColumns.columns),
+        worksheet: companyColumns.worksheet
       });
 
-      const response = await fetch(`/api/search-resume?${queryParams.toString()}`);
-      
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      if (mode === 'preview') {
-        setPreviewResults(data);
-      } else {
-        // Show success message and clear preview results
-        alert(`Successfully wrote ${data.count} resumes to sheet`);
-        setPreviewResults([]); // Clear preview results
-        setHasSearched(false); // Reset hasSearched state
-      }
+      // Progress is streamed while the preview runs; the results come as the last event
+      const response = await fetchWithRefresh(`/api/search-resume?${queryParams.toString()}`, {
+        headers: EVENT_STREAM_HEADERS
+      });
+      const data = await readEventStream<{
+        runId: string;
+        items: Resume[];
+        dedupe: CompanyDedupeReport | null;
+        cursor: string | null;
+      }>(response, handleEvent);
+      // A resume can turn up again on a later page (e.g. via another company)
+      setPreviewResults(prev => {
+        const known = new Set(prev.map(item => item.id));
+        return [...prev, ...data.items.filter(item => !known.has(item.id))];
+      });
+      setPreviewRunId(data.runId);
+      setPreviewCursor(data.cursor);
+      if (data.dedupe) setDedupe(data.dedupe);
     } catch (error) {
       console.error('Error fetching data:', error);
-      setError('Failed to fetch data. Please try again.');
+      setError(error instanceof Error ? error.message : 'Failed to fetch data. Please try again.');
     } finally {
-      setIsLoading(false);
+      setIsSearching(false);
+      loadRuns();
+    }
+  };
+
+  // Writes the resumes picked in the preview; the job only fetches their details
+  const handleWriteSelected = async () => {
+    if (!previewRunId || selectedIds.length === 0) return;
+    if (output === 'sheets' && !sheetUrl) {
+      setError('Enter the Google Sheet URL to write the results to, or pick a file output');
+      return;
+    }
+    setError(null);
+    try {
+      const created = await startJob('resume-search', {
+        text: searchText,
+        sheetUrl,
+        totalLimit: selectedIds.length,
+        selection: { runId: previewRunId, resumeIds: selectedIds },
+        sheetMode,
+        output
+      });
+      setJob(created);
+      await runJob(created.id);
+    } catch (error) {
+      console.error('Error starting search job:', error);
+      setError(error instanceof Error ? error.message : 'Failed to start the sheet write. Please try again.');
     }
   };
 
   const handleLogout = () => {
-    setAccessToken(null);
+    setIsAuthenticated(false);
     setUserInfo(null);
     setAccountType(null);
   };
 
+  // The company column is found by its header; when it isn't, the mapping step is shown instead
+  const checkCompanyColumn = async (input: SheetInputRequest = companyInput): Promise<boolean> => {
+    try {
+      if (await companyColumns.verify(input)) return true;
+      setError('The company column was not found in the sheet. Pick it below and try again.');
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Failed to read the sheet');
+    }
+    return false;
+  };
+
   const handleValidateCompanies = async () => {
     if (!sheetUrl) {
       setError('Please enter a Google Sheet URL');
@@ -150,18 +363,28 @@ export default function ResumeSearch() {
 
     setIsValidating(true);
     setError(null);
+    setValidationSummary(null);
+    resetProgress();
 
     try {
-      const response = await fetch('/api/validate-companies', {
+      // Validation always reads the sheet; resume searches read its results from there later
+      if (!await checkCompanyColumn({ sheetUrl })) return;
+      const response = await fetchWithRefresh('/api/validate-companies', {
         method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ sheetUrl })
+        headers: { 'Content-Type': 'application/json', ...EVENT_STREAM_HEADERS },
+        body: JSON.stringify({
+          sheetUrl,
+          columns: companyColumns.columns,
+          worksheet: companyColumns.worksheet,
+          filters: { onlyWithVacancies: validateOnlyWithVacancies, areas: validateInAreas ? filters.areas : [] },
+          output: validationOutput
+        })
       });
-
-      if (!response.ok) throw new Error('Validation failed');
-      
-      const data = await response.json();
-      alert(`Validation completed!\nFound ${data.matchesFound} matches out of ${data.totalCompanies} companies.\nCheck the 'Company_Validation' sheet for details.`);
+      const data = await readEventStream<{ summary: ValidationSummary; downloadUrl?: string }>(response, handleEvent);
+      setValidationSummary(data.summary);
+      if (data.downloadUrl) {
+        window.location.href = data.downloadUrl;
+      }
     } catch (error) {
       setError(error instanceof Error ? error.message : 'Validation failed');
     } finally {
@@ -175,7 +398,7 @@ export default function ResumeSearch() {
 
   return (
     <div className="container mx-auto">
-      {accessToken ? (
+      {isAuthenticated ? (
         <div>
           {accountType === 'job_seeker' && (
             <div className="bg-yellow-100 border-l-4 border-yellow-500 text-yellow-700 p-4 mb-4" role="alert">
@@ -190,11 +413,19 @@ export default function ResumeSearch() {
               value={sheetUrl}
               onChange={(e) => setSheetUrl(e.target.value)}
               placeholder="Enter Google Sheet URL"
-              className="w-full p-2 border rounded mb-4"
+              className="w-full p-2 border rounded mb-2"
+            />
+            <UploadField
+              upload={companyUpload.upload}
+              isUploading={companyUpload.isUploading}
+              error={companyUpload.uploadError}
+              onFile={companyUpload.uploadFile}
+              onClear={companyUpload.clear}
+              disabled={isSearching || isJobRunning}
             />
             <div className="flex justify-between items-center">
               <p className="text-sm text-gray-600">
-                Sheet should contain a column named &apos;Company&apos; with company names
+                The worksheet should have a company column (&apos;Company&apos;, &apos;Компания&apos;, ...) with company names
               </p>
               <button
                 onClick={handleValidateCompanies}
@@ -204,21 +435,67 @@ export default function ResumeSearch() {
                 {isValidating ? 'Validating...' : 'Validate Companies'}
               </button>
             </div>
+            <div className="mt-2 flex flex-wrap gap-4 text-sm">
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={validateOnlyWithVacancies}
+                  onChange={(e) => setValidateOnlyWithVacancies(e.target.checked)}
+                />
+                Validate against employers with open vacancies only
+              </label>
+              <label className="flex items-center gap-2">
+                <input type="checkbox" checked={validateInAreas} onChange={(e) => setValidateInAreas(e.target.checked)} />
+                Only employers from the search areas
+              </label>
+              <OutputSelect value={validationOutput} onChange={setValidationOutput} />
+            </div>
+            {isValidating && <ProgressPanel progress={progress} logs={logs} />}
+            {validationSummary && (
+              <p className="mt-2 text-sm">
+                {validationOutput === 'sheets' ? "Validation written to 'Company_Validation'" : 'Validation downloaded'}:{' '}
+                {(Object.keys(VALIDATION_STATUS_LABELS) as CompanyValidationStatus[])
+                  .map(status => `${VALIDATION_STATUS_LABELS[status]}: ${validationSummary[status]}`)
+                  .join(', ')}
+              </p>
+            )}
+            <div className="mt-4">
+              <div className="mb-4">
+                <WorksheetField value={companyColumns.worksheet} onChange={companyColumns.setWorksheet} />
+              </div>
+              <ColumnMapping
+                schemaId="companies"
+                check={companyColumns.check}
+                columns={companyColumns.columns}
+                onChange={companyColumns.setColumns}
+              />
+            </div>
           </div>
           
+          <CompanyRulesEditor />
+
+          <CompanyReview
+            input={companyInput}
+            columns={companyColumns.columns}
+            worksheet={companyColumns.worksheet}
+            checkColumn={checkCompanyColumn}
+            disabled={isSearching || isJobRunning}
+          />
+
           <div className="mb-12">
             <h2 className="text-2xl font-semibold mb-4">Step 2: Search Resumes</h2>
             <div className="mb-4">
               <p className="text-gray-600 mb-2">
-                Please input desired search criteria using AND/OR operators. Examples:
+                Please input desired search criteria using AND/OR/NOT operators, or use the query builder. Examples:
               </p>
               <p className="text-sm text-gray-500 mb-4">
-                • Use quotes for exact phrases: &apos;внутренние коммуникации&apos;~3<br />
-                • Combine with OR: &apos;внутренние коммуникации&apos;~3 OR &apos;компенсаций льгот&apos;~3<br />
-                • The ~3 allows for slight variations in word order and form
+                • Use quotes for exact phrases: &quot;внутренние коммуникации&quot;~3<br />
+                • Combine with OR: &quot;внутренние коммуникации&quot;~3 OR &quot;компенсаций льгот&quot;~3<br />
+                • The ~3 allows for slight variations in word order and form<br />
+                • Limit a part to one section with title:, skills: or experience:, e.g. title:(hr OR &quot;people partner&quot;)
               </p>
               <p className="text-sm text-gray-500 mb-4">
-                Search is performed across all resume sections (description, job experience, etc) for the last year
+                Search is performed across company names, positions and skills; narrow it down with the filters below
               </p>
             </div>
             <input
@@ -226,8 +503,74 @@ export default function ResumeSearch() {
               value={searchText}
               onChange={(e) => setSearchText(e.target.value)}
               placeholder='Example: "внутренние коммуникации"~3 OR "компенсаций льгот"~3 OR "hr директор"~3'
-              className="w-full p-2 border rounded mb-4"
+              className="w-full p-2 border rounded mb-2"
             />
+            <QueryCheck text={searchText} />
+
+            <QueryBuilder onApply={setSearchText} />
+
+            <ResumeFiltersForm filters={filters} onChange={setFilters} />
+
+            <div className="mb-4 flex flex-wrap items-center gap-6">
+              <label className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">Experience at the company</span>
+                <select
+                  value={experienceRules.windowMonths}
+                  onChange={(e) => setExperienceRules({ ...experienceRules, windowMonths: parseInt(e.target.value, 10) })}
+                  className="p-2 border rounded"
+                >
+                  {EXPERIENCE_WINDOWS.map(option => (
+                    <option key={option.months} value={option.months}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex items-center gap-2">
+                <input
+                  type="checkbox"
+                  checked={experienceRules.latestJobOnly}
+                  onChange={(e) => setExperienceRules({ ...experienceRules, latestJobOnly: e.target.checked })}
+                />
+                <span className="text-sm">Must be the latest job</span>
+              </label>
+              <label className="flex items-center gap-2">
+                <span className="text-sm text-gray-600">Min. tenure (months)</span>
+                <input
+                  type="number"
+                  min="0"
+                  value={experienceRules.minTenureMonths}
+                  onChange={(e) => setExperienceRules({
+                    ...experienceRules,
+                    minTenureMonths: Math.max(0, parseInt(e.target.value, 10) || 0)
+                  })}
+                  className="w-20 p-2 border rounded"
+                />
+              </label>
+            </div>
+
+            {runs.length > 0 && (
+              <label className="mb-4 flex items-center gap-2">
+                <span className="text-sm text-gray-600">Only candidates new since</span>
+                <select value={newSinceRunId} onChange={(e) => setNewSinceRunId(e.target.value)} className="p-2 border rounded">
+                  <option value="">— show everyone —</option>
+                  {runs.map(run => (
+                    <option key={run.id} value={run.id}>
+                      {new Date(run.startedAt).toLocaleString('ru-RU')} · {run.type === 'resume-search' ? 'Sheet write' : 'Preview'} ·{' '}
+                      {String(run.params.text || '—')} ({run.resultCount})
+                    </option>
+                  ))}
+                </select>
+              </label>
+            )}
+
+            <label className="mb-4 flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={useEmployerIds} onChange={(e) => setUseEmployerIds(e.target.checked)} />
+              Match employers by the HH ids confirmed in the company review or listed in &apos;Company_Validation&apos; (names are used where there is no id)
+            </label>
+
+            <div className="mb-4 flex flex-wrap gap-4">
+              <OutputSelect value={output} onChange={setOutput} />
+              {output === 'sheets' && <SheetModeSelect value={sheetMode} onChange={setSheetMode} />}
+            </div>
 
             {searchHistory.length > 0 && (
               <div className="mb-4 flex items-center gap-2">
@@ -248,87 +591,135 @@ export default function ResumeSearch() {
               <button
                 onClick={() => handleSearch('preview')}
                 className="bg-blue-500 text-white px-6 py-2 rounded hover:bg-blue-600 transition"
-                disabled={isLoading || !sheetUrl}
+                disabled={isLoading || isSearching || (!sheetUrl && !companyUpload.upload)}
               >
-                Preview
+                {isSearching ? 'Searching...' : 'Preview'}
               </button>
               <button
                 onClick={() => handleSearch('full')}
                 className="bg-green-500 text-white px-6 py-2 rounded hover:bg-green-600 transition"
-                disabled={isLoading || !sheetUrl}
+                disabled={isLoading || isJobRunning || (!sheetUrl && !companyUpload.upload)}
               >
-                Write to Sheet
+                {output === 'sheets' ? 'Write to Sheet' : 'Run search'}
               </button>
             </div>
           </div>
+
+          {job && (
+            <div className="mb-4 p-4 border rounded">
+              <div className="flex justify-between items-center">
+                <span className="font-semibold">
+                  Search job: {job.status} ({job.progress.phase})
+                </span>
+                <div className="flex space-x-2">
+                  {(job.status === 'pending' || job.status === 'running') && (
+                    <button
+                      onClick={() => handleJobAction('pause')}
+                      className="bg-yellow-500 text-white px-3 py-1 rounded hover:bg-yellow-600 transition"
+                    >
+                      Pause
+                    </button>
+                  )}
+                  {/* A pending/running job nobody drives (e.g. its tab was closed) is continued with /run */}
+                  {(job.status === 'paused' || job.status === 'failed' || !isJobRunning) && !['completed', 'cancelled'].includes(job.status) && (
+                    <button
+                      onClick={() => job.status === 'paused' || job.status === 'failed' ? handleJobAction('resume') : runJob(job.id)}
+                      className="bg-blue-500 text-white px-3 py-1 rounded hover:bg-blue-600 transition"
+                    >
+                      Resume
+                    </button>
+                  )}
+                  {!['completed', 'failed', 'cancelled'].includes(job.status) && (
+                    <button
+                      onClick={() => handleJobAction('cancel')}
+                      className="bg-red-500 text-white px-3 py-1 rounded hover:bg-red-600 transition"
+                    >
+                      Cancel
+                    </button>
+                  )}
+                </div>
+              </div>
+            </div>
+          )}
+
+          {/* Live events while a preview or job chunk streams; the job's last checkpoint otherwise */}
+          {!isValidating && <ProgressPanel progress={progress || job?.progress || null} logs={logs} />}
+
+          {dedupe && (dedupe.merged.length > 0 || dedupe.skipped.length > 0) && (
+            <div className="mb-8 p-4 border-l-4 border-blue-400 bg-blue-50 text-sm">
+              <h3 className="font-semibold mb-2">Company de-duplication</h3>
+              {dedupe.merged.length > 0 && (
+                <>
+                  <p className="mb-1">These companies have the same cleaned name and were searched once:</p>
+                  <ul className="list-disc ml-5 mb-2">
+                    {dedupe.merged.map(group => (
+                      <li key={group.cleanName}>
+                        {group.companies.join(', ')} → <strong>{group.cleanName}</strong>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+              {dedupe.skipped.length > 0 && (
+                <p>Skipped (nothing left after cleaning): {dedupe.skipped.join(', ')}</p>
+              )}
+            </div>
+          )}
+
+          {runs.length > 0 && (
+            <div className="mb-8">
+              <h3 className="text-lg font-semibold mb-2">Previous runs</h3>
+              <ul className="text-sm space-y-1">
+                {runs.slice(0, MAX_VISIBLE_RUNS).map(run => (
+                  <li key={run.id} className="flex items-center gap-2">
+                    <span className="text-gray-500">{new Date(run.startedAt).toLocaleString('ru-RU')}</span>
+                    <span>{run.type === 'resume-search' ? 'Sheet write' : 'Preview'}</span>
+                    <span className="text-gray-600 truncate max-w-md">{String(run.params.text || '—')}</span>
+                    <span>{run.resultCount} resumes ({run.status})</span>
+                    {/* Served from the local database, no HH requests */}
+                    {FILE_OUTPUT_FORMATS.map(format => (
+                      <a key={format} href={runDownloadUrl(run.id, format)} className="text-blue-500 hover:text-blue-700">
+                        {OUTPUT_FORMAT_LABELS[format]}
+                      </a>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
           
           {isLoading && <p className="text-lg font-semibold">Loading...</p>}
           {error && <p className="text-lg font-semibold text-red-500">{error}</p>}
           
-          {!isLoading && (
-            <>
-              {previewResults.length === 0 && searchText && hasSearched ? (
-                <div className="mb-8">
-                  <p className="text-lg font-semibold text-gray-600">No matching resumes found</p>
-                </div>
-              ) : previewResults.length > 0 && (
-                <div className="mb-8 overflow-x-auto">
-                  <h2 className="text-2xl font-semibold mb-4">Результаты поиска</h2>
-                  <table className="w-full border-collapse border min-w-max">
-                    <thead>
-                      <tr className="bg-gray-200">
-                        <th className="border p-2">Должность</th>
-                        <th className="border p-2">Возраст</th>
-                        <th className="border p-2">Желаемая зарплата</th>
-                        <th className="border p-2">Последний онлайн</th>
-                        <th className="border p-2">Обновлено</th>
-                        <th className="border p-2">Опыт работы</th>
-                        <th className="border p-2">Последнее место работы</th>
-                        <th className="border p-2">Город</th>
-                        <th className="border p-2">Ссылка</th>
-                      </tr>
-                    </thead>
-                    <tbody>
-                      {previewResults.map((item) => {
-                        const lastJob = item.experience?.[0] || {};
-                        return (
-                          <tr key={item.id} className="hover:bg-gray-50">
-                            <td className="border p-2">{item.title || 'N/A'}</td>
-                            <td className="border p-2">{item.age || 'N/A'}</td>
-                            <td className="border p-2">{formatSalary(item.salary)}</td>
-                            <td className="border p-2">{formatDate(item.last_visit)}</td>
-                            <td className="border p-2">{formatDate(item.updated_at)}</td>
-                            <td className="border p-2">{formatExperience(item.total_experience)}</td>
-                            <td className="border p-2 max-w-md">
-                              <div className="space-y-1">
-                                <div><strong>Компания:</strong> {lastJob.company || 'N/A'}</div>
-                                <div><strong>Должность:</strong> {lastJob.position || 'N/A'}</div>
-                                <div><strong>Период:</strong> {formatDate(lastJob.start)} - {formatDate(lastJob.end)}</div>
-                                <div className="text-sm">
-                                  <strong>Описание:</strong>
-                                  <div className="whitespace-pre-wrap">{lastJob.description || 'N/A'}</div>
-                                </div>
-                              </div>
-                            </td>
-                            <td className="border p-2">{item.area?.name || 'N/A'}</td>
-                            <td className="border p-2">
-                              <a 
-                                href={`https://hh.ru/resume/${item.id}`} 
-                                target="_blank" 
-                                rel="noopener noreferrer"
-                                className="text-blue-500 hover:text-blue-700"
-                              >
-                                Открыть
-                              </a>
-                            </td>
-                          </tr>
-                        );
-                      })}
-                    </tbody>
-                  </table>
-                </div>
-              )}
-            </>
+          {!isLoading && !isSearching && previewResults.length === 0 && searchText && hasSearched && (
+            <div className="mb-8">
+              <p className="text-lg font-semibold text-gray-600">No matching resumes found</p>
+            </div>
+          )}
+
+          {!isLoading && previewResults.length > 0 && (
+            <div className="mb-8 overflow-x-auto">
+              <h2 className="text-2xl font-semibold mb-4">Результаты поиска</h2>
+              <ResumePreviewTable items={previewResults} selected={selectedIds} onSelectionChange={setSelectedIds} />
+              <div className="flex space-x-4 mt-4">
+                {previewCursor && (
+                  <button
+                    onClick={() => loadPreview(previewCursor)}
+                    disabled={isSearching}
+                    className="bg-blue-500 text-white px-4 py-2 rounded hover:bg-blue-600 transition disabled:opacity-50"
+                  >
+                    {isSearching ? 'Loading...' : 'Load more'}
+                  </button>
+                )}
+                <button
+                  onClick={handleWriteSelected}
+                  disabled={selectedIds.length === 0 || isJobRunning || isSearching}
+                  className="bg-green-500 text-white px-4 py-2 rounded hover:bg-green-600 transition disabled:opacity-50"
+                >
+                  Write selected ({selectedIds.length}) to Sheet
+                </button>
+              </div>
+            </div>
           )}
         </div>
       ) : (
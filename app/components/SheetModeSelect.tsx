@@ -0,0 +1,29 @@
+'use client';
+
+import React from 'react';
+import type { SheetWriteMode } from '@/lib/sheets/writer';
+
+const MODE_LABELS: Record<SheetWriteMode, string> = {
+  overwrite: 'Overwrite the output sheet',
+  append: 'Append below existing rows',
+  upsert: 'Update existing rows, append new ones'
+};
+
+interface SheetModeSelectProps {
+  value: SheetWriteMode;
+  onChange: (mode: SheetWriteMode) => void;
+}
+
+// How results are written to the output worksheet
+const SheetModeSelect: React.FC<SheetModeSelectProps> = ({ value, onChange }) => (
+  <label className="flex items-center gap-2">
+    <span className="text-sm text-gray-600">Sheet output</span>
+    <select value={value} onChange={(e) => onChange(e.target.value as SheetWriteMode)} className="p-2 border rounded">
+      {(Object.keys(MODE_LABELS) as SheetWriteMode[]).map(mode => (
+        <option key={mode} value={mode}>{MODE_LABELS[mode]}</option>
+      ))}
+    </select>
+  </label>
+);
+
+export default SheetModeSelect;
@@ -0,0 +1,89 @@
+'use client';
+
+import React, { useCallback, useState } from 'react';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+
+// Shape of /api/uploads
+export interface UploadedFile {
+  uploadId: string;
+  filename: string;
+  worksheets: { title: string; rows: number }[];
+}
+
+// An XLSX/CSV file used as a tool's input instead of a Google Sheet. The file is parsed on the
+// server, so tools read it with the same column mapping as a sheet.
+export function useUpload() {
+  const [upload, setUpload] = useState<UploadedFile | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+
+  const uploadFile = useCallback(async (file: File) => {
+    setIsUploading(true);
+    setUploadError(null);
+    try {
+      const form = new FormData();
+      form.append('file', file);
+      const response = await fetchWithRefresh('/api/uploads', { method: 'POST', body: form });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || `HTTP error! status: ${response.status}`);
+      }
+      setUpload(data);
+    } catch (error) {
+      setUpload(null);
+      setUploadError(error instanceof Error ? error.message : 'Failed to upload the file');
+    } finally {
+      setIsUploading(false);
+    }
+  }, []);
+
+  const clear = useCallback(() => {
+    setUpload(null);
+    setUploadError(null);
+  }, []);
+
+  return { upload, isUploading, uploadError, uploadFile, clear };
+}
+
+interface UploadFieldProps {
+  upload: UploadedFile | null;
+  isUploading: boolean;
+  error: string | null;
+  onFile: (file: File) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const UploadField: React.FC<UploadFieldProps> = ({ upload, isUploading, error, onFile, onClear, disabled }) => (
+  <div className="mb-2">
+    {upload ? (
+      <div className="flex items-center gap-2 text-sm">
+        <span>
+          Reading <strong>{upload.filename}</strong> instead of the sheet
+          {' '}({upload.worksheets.map(worksheet => `${worksheet.title}: ${worksheet.rows} rows`).join(', ')})
+        </span>
+        <button type="button" onClick={onClear} className="text-blue-500 hover:text-blue-700" disabled={disabled}>
+          Remove
+        </button>
+      </div>
+    ) : (
+      <label className="flex items-center gap-2 text-sm text-gray-600">
+        <span>or upload XLSX/CSV</span>
+        <input
+          type="file"
+          accept=".xlsx,.xls,.csv,.txt"
+          disabled={disabled || isUploading}
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) onFile(file);
+            e.target.value = '';
+          }}
+        />
+        {isUploading && <span>Uploading...</span>}
+      </label>
+    )}
+    {error && <div className="text-red-500 text-sm">{error}</div>}
+  </div>
+);
+
+export default UploadField;
@@ -1,9 +1,18 @@
 'use client';
 
 import React, { useState } from 'react';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import { EVENT_STREAM_HEADERS, readEventStream } from '@/lib/progress/client';
+import type { SheetWriteMode } from '@/lib/sheets/writer';
+import type { OutputFormat } from '@/lib/output/types';
+import { INN_CHECK_LABELS } from '@/lib/companyNames/inn';
+import ProgressPanel, { useProgressStream } from './ProgressPanel';
+import SheetModeSelect from './SheetModeSelect';
+import OutputSelect from './OutputSelect';
+import ColumnMapping, { WorksheetField, useColumnMapping } from './ColumnMapping';
+import UploadField, { useUpload } from './UploadField';
 
 interface VacancyContactTestProps {
-  accessToken: string;
   disabled: boolean;
 }
 
@@ -12,38 +21,67 @@ interface UpdatedRow {
   fullName: string;
   email: string;
   phone: string;
+  innCheck: string;
+  registryName: string;
   // Add any other properties that exist in your row object
 }
 
-const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, disabled }) => {
+const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ disabled }) => {
   const [sheetUrl, setSheetUrl] = useState('');
   const [vacancyLimit, setVacancyLimit] = useState(5);
+  // Scrape employer pages when the vacancies API finds nothing with contacts
+  const [htmlFallback, setHtmlFallback] = useState(false);
+  const [sheetMode, setSheetMode] = useState<SheetWriteMode>('overwrite');
+  const [output, setOutput] = useState<OutputFormat>('sheets');
+  const { upload, isUploading, uploadError, uploadFile, clear: clearUpload } = useUpload();
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [result, setResult] = useState<any>(null);
+  const { progress, logs, handleEvent, reset: resetProgress } = useProgressStream();
+  const columnMapping = useColumnMapping('vacancies');
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError(null);
     setIsLoading(true);
     setResult(null);
+    resetProgress();
+
+    // An uploaded file replaces the sheet as input; the sheet is still needed to write the results
+    const input = upload ? { uploadId: upload.uploadId } : { sheetUrl };
+    if (output === 'sheets' && !sheetUrl) {
+      setError('Enter the Google Sheet URL to write the results to, or pick a file output');
+      setIsLoading(false);
+      return;
+    }
 
     try {
-      const response = await fetch('/api/process-vacancy-sheet', {
+      // Nothing is fetched from HH.ru until the link column is known
+      if (!await columnMapping.verify(input)) {
+        setError('Some required columns were not found in the sheet. Match them below and run again.');
+        return;
+      }
+
+      const response = await fetchWithRefresh('/api/process-vacancy-sheet', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
-          'Authorization': `Bearer ${accessToken}`
+          ...EVENT_STREAM_HEADERS
         },
-        body: JSON.stringify({ sheetUrl, vacancyLimit }),
+        body: JSON.stringify({
+          ...input,
+          sheetUrl,
+          vacancyLimit,
+          htmlFallback,
+          sheetMode,
+          output,
+          columns: columnMapping.columns,
+          worksheet: columnMapping.worksheet
+        }),
       });
 
-      const data = await response.json();
-
-      if (!response.ok) {
-        throw new Error(data.error || 'Failed to process vacancy data');
-      }
-
+      // Logs and per-vacancy progress stream in; the full result is the last event
+      const data = await readEventStream(response, handleEvent);
       setResult(data);
     } catch (err: unknown) {
       if (err instanceof Error) {
@@ -68,9 +106,17 @@ const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, di
             onChange={(e) => setSheetUrl(e.target.value)}
             className="w-full p-2 border rounded"
             placeholder="https://docs.google.com/spreadsheets/d/..."
-            required
+            required={!upload}
           />
         </div>
+        <UploadField
+          upload={upload}
+          isUploading={isUploading}
+          error={uploadError}
+          onFile={uploadFile}
+          onClear={clearUpload}
+          disabled={isLoading}
+        />
         <div className="mb-2">
           <label htmlFor="vacancyLimit" className="block mb-1">
             Vacancy Limit per Company (1-20):
@@ -86,8 +132,25 @@ const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, di
             required
           />
           <p className="text-sm text-gray-500 mt-1">
-            Maximum number of vacancies to scrape per company (up to 20)
+            Maximum number of vacancies with contacts to take from an employer or search page (up to 20)
           </p>
+          <label className="flex items-center gap-2 mt-1 text-sm">
+            <input type="checkbox" checked={htmlFallback} onChange={(e) => setHtmlFallback(e.target.checked)} />
+            Read the page HTML when the HH API finds no vacancies with contacts (may break when hh.ru changes its pages)
+          </label>
+        </div>
+        <div className="mb-2">
+          <WorksheetField value={columnMapping.worksheet} onChange={columnMapping.setWorksheet} defaultName="Vacancies" />
+        </div>
+        <ColumnMapping
+          schemaId="vacancies"
+          check={columnMapping.check}
+          columns={columnMapping.columns}
+          onChange={columnMapping.setColumns}
+        />
+        <div className="mb-2 flex flex-wrap gap-4">
+          <OutputSelect value={output} onChange={setOutput} />
+          {output === 'sheets' && <SheetModeSelect value={sheetMode} onChange={setSheetMode} />}
         </div>
         <button
           type="submit"
@@ -100,12 +163,9 @@ const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, di
         </button>
       </form>
 
-      {isLoading && (
-        <div className="mt-4 text-center">
-          <p className="text-lg font-semibold">Loading...</p>
-          <p className="text-sm text-gray-500">This may take a few moments</p>
-        </div>
-      )}
+      <div className="mt-4">
+        <ProgressPanel progress={progress} logs={logs} />
+      </div>
 
       {error && <div className="text-red-500 mb-4">{error}</div>}
 
@@ -115,6 +175,11 @@ const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, di
           
           <div className="mb-4">
             <p>{result.message}</p>
+            {result.downloadUrl && (
+              <a href={result.downloadUrl} className="text-blue-500 hover:text-blue-700">
+                Download the results
+              </a>
+            )}
           </div>
 
           {result && result.updatedRows && (
@@ -127,6 +192,7 @@ const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, di
                     <th className="px-4 py-2">Full Name</th>
                     <th className="px-4 py-2">Email</th>
                     <th className="px-4 py-2">Phone</th>
+                    <th className="px-4 py-2">INN check</th>
                   </tr>
                 </thead>
                 <tbody>
@@ -136,6 +202,12 @@ const VacancyContactTest: React.FC<VacancyContactTestProps> = ({ accessToken, di
                       <td className="border px-4 py-2">{row.fullName}</td>
                       <td className="border px-4 py-2">{row.email}</td>
                       <td className="border px-4 py-2">{row.phone}</td>
+                      <td className={`border px-4 py-2 ${row.innCheck === INN_CHECK_LABELS.mismatch ? 'text-red-600 font-semibold' : ''}`}>
+                        {row.innCheck}
+                        {row.innCheck === INN_CHECK_LABELS.mismatch && row.registryName && (
+                          <div className="text-xs text-gray-500">INN belongs to {row.registryName}</div>
+                        )}
+                      </td>
                     </tr>
                   ))}
                 </tbody>
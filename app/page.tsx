@@ -4,6 +4,12 @@ import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import VacancyContactTest from './components/VacancyContactTest';  // Add this import
 import ResumeSearch from './components/ResumeSearch';
+import InnRegistryImport from './components/InnRegistryImport';
+import ColumnMapping, { WorksheetField, useColumnMapping } from './components/ColumnMapping';
+import OutputSelect from './components/OutputSelect';
+import UploadField, { useUpload } from './components/UploadField';
+import type { OutputFormat } from '@/lib/output/types';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
 
 // Use the same names as in the oauth-callback route, but with NEXT_PUBLIC_ prefix
 const CLIENT_ID = process.env.NEXT_PUBLIC_HH_CLIENT_ID;
@@ -75,7 +81,7 @@ interface UserInfo {
 const fetcher = (url: string) => fetch(url).then((res) => res.json());
 
 export default function Home() {
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [sheetUrl, setSheetUrl] = useState('');
   const [apiLimit, setApiLimit] = useState<ApiLimitInfo | null>(null);
   const [error, setError] = useState<string | null>(null);
@@ -86,22 +92,25 @@ export default function Home() {
   const [actionLoading, setActionLoading] = useState(false);
   const [apiLimitLoading, setApiLimitLoading] = useState(false);  // New state for API limit check
   const [message, setMessage] = useState<{ type: 'success' | 'error', text: string } | null>(null);
+  const resumeColumns = useColumnMapping('resume-contacts');
+  const [resumeOutput, setResumeOutput] = useState<OutputFormat>('sheets');
+  const resumeUpload = useUpload();
   const router = useRouter();
 
   useEffect(() => {
     const checkAuthStatus = async () => {
       setIsLoading(true);
       try {
-        const response = await fetch('/api/user-data');
+        const response = await fetchWithRefresh('/api/user-data');
         if (response.ok) {
           const data = await response.json();
           setUserInfo(data);
-          // Store the actual access token
-          setAccessToken(data.access_token);
+          // The token itself stays in an httpOnly cookie; we only track that a session exists
+          setIsAuthenticated(true);
           setAccountType(data.is_employer ? 'employer' : 'job_seeker');
         } else if (response.status === 401) {
           // Not authenticated
-          setAccessToken(null);
+          setIsAuthenticated(false);
           setUserInfo(null);
           setAccountType(null);
         } else {
@@ -130,10 +139,17 @@ export default function Home() {
     window.location.href = authUrl;
   };
 
-  const handleLogout = async () => {
+  const handleLogout = async (everywhere = false) => {
     try {
-      await fetch('/api/logout', { method: 'POST' });
-      setAccessToken(null);
+      const response = await fetch('/api/logout', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ everywhere }),
+      });
+      if (!response.ok) {
+        throw new Error(`Logout failed with status ${response.status}`);
+      }
+      setIsAuthenticated(false);
       setUserInfo(null);
       setAccountType(null);
       setApiLimit(null);
@@ -146,7 +162,7 @@ export default function Home() {
   };
 
   const checkApiLimit = async () => {
-    if (!accessToken || !userInfo) {
+    if (!isAuthenticated || !userInfo) {
       setMessage({ type: 'error', text: 'You must be authorized to check API limit' });
       return;
     }
@@ -156,7 +172,7 @@ export default function Home() {
     setApiLimitLoading(true);  // Use the new loading state
 
     try {
-      const response = await fetch(`/api/check-api-limit?accessToken=${accessToken}&managerId=${userInfo.id}`);
+      const response = await fetchWithRefresh(`/api/check-api-limit?managerId=${encodeURIComponent(userInfo.id)}`);
       if (!response.ok) {
         throw new Error('Failed to check API limit');
       }
@@ -177,26 +193,44 @@ export default function Home() {
   };
 
   const handleWriteToSheet = async () => {
-    if (!accessToken) {
+    if (!isAuthenticated) {
       setMessage({ type: 'error', text: 'You must be authorized to perform this action' });
       return;
     }
 
-    if (!sheetUrl) {
-      setMessage({ type: 'error', text: 'Please enter a Google Sheet URL' });
+    const { upload } = resumeUpload;
+    if (!sheetUrl && !upload) {
+      setMessage({ type: 'error', text: 'Please enter a Google Sheet URL or upload a file' });
+      return;
+    }
+    // Contacts are written next to the links in the sheet; for a file they can only be downloaded
+    if (upload && resumeOutput === 'sheets') {
+      setMessage({ type: 'error', text: 'Pick a file output to get the contacts for an uploaded file' });
       return;
     }
+    const input = upload ? { uploadId: upload.uploadId } : { sheetUrl };
 
     setMessage(null);
     setActionLoading(true);
 
     try {
-      const response = await fetch('/api/write-to-sheet', {
+      // Contacts are paid HH actions, so the link column is confirmed before any are opened
+      if (!await resumeColumns.verify(input)) {
+        setMessage({ type: 'error', text: 'Some required columns were not found in the sheet. Match them below and run again.' });
+        return;
+      }
+
+      const response = await fetchWithRefresh('/api/write-to-sheet', {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ sheetUrl, accessToken }),
+        body: JSON.stringify({
+          ...input,
+          columns: resumeColumns.columns,
+          worksheet: resumeColumns.worksheet,
+          output: resumeOutput
+        }),
       });
 
       if (!response.ok) {
@@ -204,8 +238,11 @@ export default function Home() {
         throw new Error(errorData.error || 'Failed to write to Google Sheet');
       }
 
-      await response.json();
-      setMessage({ type: 'success', text: 'Google Sheet updated successfully' });
+      const data = await response.json();
+      if (data.downloadUrl) {
+        window.location.href = data.downloadUrl;
+      }
+      setMessage({ type: 'success', text: data.message || 'Google Sheet updated successfully' });
     } catch (error: unknown) {
       setMessage({ 
         type: 'error', 
@@ -233,7 +270,7 @@ export default function Home() {
     <div className="container mx-auto p-4">
       <h1 className="text-3xl font-bold mb-8">HH.ru Data Fetcher</h1>
       
-      {accessToken ? (
+      {isAuthenticated ? (
         <div>
           <div className="mb-4 flex justify-between items-center">
             <div>
@@ -242,11 +279,17 @@ export default function Home() {
               </span>
               <span className="mr-2">Email: {userInfo?.email}</span>
               <button
-                onClick={handleLogout}
-                className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 transition"
+                onClick={() => handleLogout()}
+                className="bg-red-500 text-white px-4 py-2 rounded hover:bg-red-600 transition mr-2"
               >
                 Logout
               </button>
+              <button
+                onClick={() => handleLogout(true)}
+                className="bg-red-700 text-white px-4 py-2 rounded hover:bg-red-800 transition"
+              >
+                Log out everywhere
+              </button>
             </div>
           </div>
 
@@ -279,18 +322,19 @@ export default function Home() {
               </p>
               <h3 className="text-lg font-semibold mb-2">Input Requirements:</h3>
               <ul className="list-disc list-inside mb-4">
-                <li>Worksheet name: &apos;Resume&apos;</li>
+                <li>Worksheet name: &apos;Resume&apos; (or pick another one below)</li>
+                <li>Share the sheet with the service account so it can be read and updated</li>
                 <li>Required columns:
                   <ul className="list-disc list-inside ml-4">
-                    <li>Company name</li>
-                    <li>INN</li>
-                    <li>Link to resume</li>
+                    <li>Link to resume (also recognised: &apos;Ссылка на резюме&apos;, &apos;Resume link&apos;, ...)</li>
                   </ul>
                 </li>
+                <li>Columns are found by header; if one isn&apos;t recognised you&apos;ll be asked to pick it</li>
               </ul>
               <h3 className="text-lg font-semibold mb-2">Output:</h3>
               <p className="mb-4">
-                The tool will update the existing rows in your sheet with the following information:
+                The tool will update the existing rows in your sheet with the following information
+                (columns the sheet doesn&apos;t have are added after the last one):
               </p>
               <ul className="list-disc list-inside mb-4">
                 <li>Full name</li>
@@ -310,9 +354,29 @@ export default function Home() {
                 value={sheetUrl}
                 onChange={(e) => setSheetUrl(e.target.value)}
                 placeholder="Enter Google Sheet URL"
-                className="w-full p-2 border rounded mb-4"
+                className="w-full p-2 border rounded mb-2"
                 disabled={isResumeDisabled || actionLoading}
               />
+              <UploadField
+                upload={resumeUpload.upload}
+                isUploading={resumeUpload.isUploading}
+                error={resumeUpload.uploadError}
+                onFile={resumeUpload.uploadFile}
+                onClear={resumeUpload.clear}
+                disabled={isResumeDisabled || actionLoading}
+              />
+              <div className="mb-4 flex flex-wrap gap-4">
+                <div className="flex-1">
+                  <WorksheetField value={resumeColumns.worksheet} onChange={resumeColumns.setWorksheet} defaultName="Resume" />
+                </div>
+                <OutputSelect value={resumeOutput} onChange={setResumeOutput} />
+              </div>
+              <ColumnMapping
+                schemaId="resume-contacts"
+                check={resumeColumns.check}
+                columns={resumeColumns.columns}
+                onChange={resumeColumns.setColumns}
+              />
               <button
                 onClick={handleWriteToSheet}
                 className={`bg-green-500 hover:bg-green-700 text-white font-bold py-2 px-4 rounded mr-4 ${
@@ -320,7 +384,7 @@ export default function Home() {
                 }`}
                 disabled={isResumeDisabled || actionLoading}
               >
-                {actionLoading ? 'Updating...' : 'Write to Google Sheet'}
+                {actionLoading ? 'Updating...' : resumeOutput === 'sheets' ? 'Write to Google Sheet' : 'Fetch contacts'}
               </button>
               <button
                 onClick={checkApiLimit}
@@ -363,6 +427,7 @@ export default function Home() {
                 <li>Phone</li>
                 <li>Phone Comment</li>
                 <li>Individual Vacancy Link</li>
+                <li>INN check (whether the vacancy&apos;s employer is the company of the INN) and Registry name</li>
                 <li>API Response (raw data from HH.ru API)</li>
               </ul>
 
@@ -372,10 +437,8 @@ export default function Home() {
                 </div>
               )}
 
-              <VacancyContactTest 
-                accessToken={accessToken} 
-                disabled={isVacancyDisabled} 
-              />
+              <VacancyContactTest disabled={isVacancyDisabled} />
+              <InnRegistryImport />
             </div>
           )}
 
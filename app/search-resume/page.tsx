@@ -2,6 +2,8 @@
 
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import { driveJob, startJob } from '@/lib/jobClient';
 
 const CLIENT_ID = process.env.NEXT_PUBLIC_HH_CLIENT_ID;
 const REDIRECT_URI = process.env.NEXT_PUBLIC_HH_REDIRECT_URI;
@@ -30,7 +32,7 @@ type SearchHistory = {
 };
 
 export default function Home() {
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [userInfo, setUserInfo] = useState<any>(null);
   const [accountType, setAccountType] = useState<'employer' | 'job_seeker' | null>(null);
   const [searchText, setSearchText] = useState('');
@@ -45,14 +47,14 @@ export default function Home() {
     const checkAuthStatus = async () => {
       setIsLoading(true);
       try {
-        const response = await fetch('/api/user-data');
+        const response = await fetchWithRefresh('/api/user-data');
         if (response.ok) {
           const data = await response.json();
           setUserInfo(data);
-          setAccessToken(data.access_token);
+          setIsAuthenticated(true);
           setAccountType(data.is_employer ? 'employer' : 'job_seeker');
         } else if (response.status === 401) {
-          setAccessToken(null);
+          setIsAuthenticated(false);
           setUserInfo(null);
           setAccountType(null);
         } else {
@@ -102,34 +104,30 @@ export default function Home() {
     }
 
     try {
+      if (mode === 'full') {
+        // Full searches run as a background job that writes straight to the sheet
+        const job = await startJob('resume-search', { text: searchText, sheetUrl, totalLimit: 100 });
+        const finished = await driveJob(job.id, () => undefined);
+        if (finished.status !== 'completed') {
+          throw new Error(finished.error || `Search ${finished.status}`);
+        }
+        return;
+      }
+
       const queryParams = new URLSearchParams({
-        mode,
         text: searchText,
-        accessToken: accessToken || '',
         sheetUrl: encodeURIComponent(sheetUrl),
         totalLimit: '100'
       });
 
-      const response = await fetch(`/api/search-resume?${queryParams.toString()}`);
+      const response = await fetchWithRefresh(`/api/search-resume?${queryParams.toString()}`);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
       }
       
-      if (mode === 'preview') {
-        const data = await response.json();
-        setPreviewResults(data);
-      } else {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.style.display = 'none';
-        a.href = url;
-        a.download = 'resumes.csv';
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
-      }
+      const data = await response.json();
+      setPreviewResults(data.items);
     } catch (error) {
       console.error('Error fetching data:', error);
       setError('Failed to fetch data. Please try again.');
@@ -138,8 +136,13 @@ export default function Home() {
     }
   };
 
-  const handleLogout = () => {
-    setAccessToken(null);
+  const handleLogout = async () => {
+    try {
+      await fetch('/api/logout', { method: 'POST' });
+    } catch (error) {
+      console.error('Error logging out:', error);
+    }
+    setIsAuthenticated(false);
     setUserInfo(null);
     setAccountType(null);
   };
@@ -154,7 +157,7 @@ export default function Home() {
     setError(null);
 
     try {
-      const response = await fetch('/api/validate-companies', {
+      const response = await fetchWithRefresh('/api/validate-companies', {
         method: 'POST',
         headers: { 'Content-Type': 'application/json' },
         body: JSON.stringify({ sheetUrl })
@@ -179,7 +182,7 @@ export default function Home() {
     <div className="container mx-auto p-4">
       <h1 className="text-3xl font-bold mb-8">HH.ru Resume Search</h1>
       
-      {accessToken ? (
+      {isAuthenticated ? (
         <div>
           <div className="mb-4 flex justify-between items-center">
             <div>
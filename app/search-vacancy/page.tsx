@@ -2,9 +2,15 @@
 
 import { useState } from 'react';
 import CompanyUploader from '../../components/CompanyUploader';
+import OutputSelect from '../components/OutputSelect';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
+import type { OutputFormat } from '@/lib/output/types';
 
 export default function Home() {
   const [searchText, setSearchText] = useState('');
+  const [output, setOutput] = useState<OutputFormat>('csv');
+  const [sheetUrl, setSheetUrl] = useState('');
+  const [status, setStatus] = useState<string | null>(null);
   const [companies, setCompanies] = useState<string[]>([]);
   const [previewResults, setPreviewResults] = useState<any[]>([]);
   const [isLoading, setIsLoading] = useState(false);
@@ -16,10 +22,25 @@ export default function Home() {
   };
 
   const handleSearch = async (mode: 'preview' | 'full') => {
+    if (mode === 'full' && output === 'sheets' && !sheetUrl) {
+      setError('Enter the Google Sheet URL to write the results to, or pick a file output');
+      return;
+    }
+
     setIsLoading(true);
     setError(null);
+    setStatus(null);
     try {
-      const response = await fetch(`/api/search-resume?mode=${mode}&text=${encodeURIComponent(searchText)}&companies=${encodeURIComponent(companies.join(','))}&totalLimit=100&limitPerCompany=3`);
+      const params = new URLSearchParams({
+        mode,
+        text: searchText,
+        companies: companies.join(','),
+        totalLimit: '100',
+        limitPerCompany: '3',
+        output,
+        sheetUrl
+      });
+      const response = await fetchWithRefresh(`/api/search-vacancy?${params.toString()}`);
       
       if (!response.ok) {
         throw new Error(`HTTP error! status: ${response.status}`);
@@ -29,15 +50,13 @@ export default function Home() {
         const data = await response.json();
         setPreviewResults(data);
       } else {
-        const blob = await response.blob();
-        const url = window.URL.createObjectURL(blob);
-        const a = document.createElement('a');
-        a.style.display = 'none';
-        a.href = url;
-        a.download = 'vacancies.csv';
-        document.body.appendChild(a);
-        a.click();
-        window.URL.revokeObjectURL(url);
+        const data: { count: number; downloadUrl?: string } = await response.json();
+        if (data.downloadUrl) {
+          // The file is rendered from the stored run; the attachment keeps this page open
+          window.location.href = data.downloadUrl;
+        } else {
+          setStatus(`Wrote ${data.count} vacancies to the 'vacancies' sheet`);
+        }
       }
     } catch (error) {
       console.error('Error fetching data:', error);
@@ -65,6 +84,18 @@ export default function Home() {
           placeholder="Enter search terms"
           className="w-full p-2 border rounded mb-4"
         />
+        <div className="flex items-center gap-4 mb-4">
+          <OutputSelect value={output} onChange={setOutput} />
+          {output === 'sheets' && (
+            <input
+              type="text"
+              value={sheetUrl}
+              onChange={(e) => setSheetUrl(e.target.value)}
+              placeholder="Enter Google Sheet URL"
+              className="flex-1 p-2 border rounded"
+            />
+          )}
+        </div>
         <div className="flex space-x-4">
           <button
             onClick={() => handleSearch('preview')}
@@ -78,13 +109,14 @@ export default function Home() {
             className="bg-green-500 text-white px-6 py-2 rounded hover:bg-green-600 transition"
             disabled={isLoading || companies.length === 0}
           >
-            Download CSV
+            {output === 'sheets' ? 'Write to Sheet' : 'Download'}
           </button>
         </div>
       </div>
       
       {isLoading && <p className="text-lg font-semibold">Loading...</p>}
       {error && <p className="text-lg font-semibold text-red-500">{error}</p>}
+      {status && <p className="text-lg font-semibold text-green-700">{status}</p>}
       
       {previewResults.length > 0 && (
         <div className="mb-8">
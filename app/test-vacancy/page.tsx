@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react';
 import dynamic from 'next/dynamic';
+import { fetchWithRefresh } from '@/lib/fetchWithRefresh';
 
 const VacancyContactTest = dynamic(() => import('../components/VacancyContactTest'), { ssr: false });
 
@@ -9,7 +10,7 @@ const CLIENT_ID = process.env.NEXT_PUBLIC_HH_CLIENT_ID;
 const REDIRECT_URI = process.env.NEXT_PUBLIC_HH_REDIRECT_URI;
 
 export default function TestVacancyPage() {
-  const [accessToken, setAccessToken] = useState<string | null>(null);
+  const [isAuthenticated, setIsAuthenticated] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isDisabled, setIsDisabled] = useState(false);
 
@@ -20,24 +21,12 @@ export default function TestVacancyPage() {
       return;
     }
 
-    // Check if we have an access token in localStorage
-    const storedToken = localStorage.getItem('accessToken');
-    if (storedToken) {
-      setAccessToken(storedToken);
-      return;
-    }
+    // The session lives in an httpOnly cookie; ask the server whether it is valid
+    fetchWithRefresh('/api/user-data')
+      .then(response => setIsAuthenticated(response.ok))
+      .catch(() => setIsAuthenticated(false));
 
-    // Check if we're returning from the OAuth redirect
     const urlParams = new URLSearchParams(window.location.search);
-    const token = urlParams.get('access_token');
-    if (token) {
-      console.log('Received access token:', token);
-      setAccessToken(token);
-      localStorage.setItem('accessToken', token);
-      // Clear the URL parameters
-      window.history.replaceState({}, document.title, "/test-vacancy");
-    }
-
     const error = urlParams.get('error');
     if (error) {
       setError(`Authorization error: ${error}`);
@@ -54,9 +43,9 @@ export default function TestVacancyPage() {
     window.location.href = authUrl;
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('accessToken');
-    setAccessToken(null);
+  const handleLogout = async () => {
+    await fetch('/api/logout', { method: 'POST' }).catch(() => undefined);
+    setIsAuthenticated(false);
     // Clear other relevant states if needed
     window.location.href = '/test-vacancy';
   };
@@ -65,7 +54,7 @@ export default function TestVacancyPage() {
     <div className="container mx-auto p-4">
       <h1 className="text-3xl font-bold mb-8">HH.ru Resume Fetcher</h1>
       
-      {!accessToken ? (
+      {!isAuthenticated ? (
         <div>
           <button
             onClick={handleAuthorize}
@@ -82,7 +71,7 @@ export default function TestVacancyPage() {
           >
             Logout
           </button>
-          <VacancyContactTest accessToken={accessToken} disabled={isDisabled} />
+          <VacancyContactTest disabled={isDisabled} />
         </div>
       )}
 
@@ -0,0 +1,21 @@
+export {
+  DEFAULT_ALIASES,
+  DEFAULT_COMPANY_NAME_RULES,
+  DEFAULT_STOP_WORDS,
+  formatAliases,
+  parseAliases,
+  parseCompanyNameRules
+} from './rules';
+export type { CompanyNameRules } from './rules';
+export {
+  PREFIX_SCORE,
+  companySimilarity,
+  levenshteinDistance,
+  levenshteinSimilarity,
+  prefixSimilarity,
+  tokenJaccard
+} from './similarity';
+export { INN_CHECK_LABELS, isValidInn, normalizeInn } from './inn';
+export type { InnCheckStatus } from './inn';
+export { createCompanyNormalizer, transliterate } from './normalizer';
+export type { CompanyMatch, CompanyNormalizer } from './normalizer';
@@ -0,0 +1,37 @@
+// Russian taxpayer numbers (ИНН): 10 digits for organisations, 12 for individual entrepreneurs
+
+const INN10_WEIGHTS = [2, 4, 10, 3, 5, 9, 4, 6, 8];
+const INN12_WEIGHTS_11 = [7, 2, 4, 10, 3, 5, 9, 4, 6, 8];
+const INN12_WEIGHTS_12 = [3, 7, 2, 4, 10, 3, 5, 9, 4, 6, 8];
+
+function checkDigit(digits: string, weights: number[]): number {
+  const sum = weights.reduce((total, weight, index) => total + weight * Number(digits[index]), 0);
+  return (sum % 11) % 10;
+}
+
+// Digits only; Excel drops the leading zero of INNs from regions 01-09, so it is put back
+export function normalizeInn(value: string): string {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 9 || digits.length === 11 ? `0${digits}` : digits;
+}
+
+export function isValidInn(inn: string): boolean {
+  if (/^\d{10}$/.test(inn)) {
+    return checkDigit(inn, INN10_WEIGHTS) === Number(inn[9]);
+  }
+  if (/^\d{12}$/.test(inn)) {
+    return checkDigit(inn, INN12_WEIGHTS_11) === Number(inn[10])
+      && checkDigit(inn, INN12_WEIGHTS_12) === Number(inn[11]);
+  }
+  return false;
+}
+
+// How a vacancy's employer compares with the INN of its sheet row
+export type InnCheckStatus = 'match' | 'mismatch' | 'unknown' | 'invalid';
+
+export const INN_CHECK_LABELS: Record<InnCheckStatus, string> = {
+  match: 'OK',
+  mismatch: 'Mismatch',
+  unknown: 'Not verified',
+  invalid: 'Invalid INN'
+};
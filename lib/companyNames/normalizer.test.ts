@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { createCompanyNormalizer, transliterate } from './normalizer';
+import { DEFAULT_COMPANY_NAME_RULES, parseCompanyNameRules } from './rules';
+import { PREFIX_SCORE } from './similarity';
+
+describe('transliterate', () => {
+  it('spells Cyrillic the way brands write themselves in Latin', () => {
+    expect(transliterate('яндекс')).toBe('yandex');
+    expect(transliterate('хэдхантер')).toBe('hedhanter');
+  });
+});
+
+describe('createCompanyNormalizer', () => {
+  const normalizer = createCompanyNormalizer();
+
+  it('removes quotes, legal forms, regions and punctuation', () => {
+    expect(normalizer.clean('ПАО «Сбербанк»')).toBe('сбербанк');
+    expect(normalizer.clean('ООО "Рога и Копыта", Москва')).toBe('рога и копыта');
+    expect(normalizer.clean('Акционерное общество "Тинькофф Банк"')).toBe('тинькофф банк');
+  });
+
+  it('compares Cyrillic and Latin spellings through their keys', () => {
+    expect(normalizer.key('ООО Яндекс')).toBe(normalizer.key('Yandex'));
+    expect(normalizer.score('Яндекс', 'ООО «YANDEX»')).toBe(1);
+  });
+
+  it('matches well-known short forms through the default aliases', () => {
+    expect(normalizer.bestMatch('Сбер', ['Сбербанк'])).toEqual({ company: 'Сбербанк', score: 1 });
+    expect(normalizer.score('Sber', 'ПАО Сбербанк')).toBe(1);
+  });
+
+  it('leaves different companies unmatched', () => {
+    expect(normalizer.bestMatch('Лукойл', ['Роснефть', 'Газпром нефть'])).toBeNull();
+    expect(normalizer.bestMatch('Мега', ['МегаФон'])).toBeNull();
+    expect(normalizer.bestMatch('Газпром', ['Газпромбанк'])).toBeNull();
+  });
+
+  it('matches names that start another one with the prefix rule', () => {
+    const withPrefix = createCompanyNormalizer({ ...DEFAULT_COMPANY_NAME_RULES, aliases: {}, prefixMatch: true });
+    expect(withPrefix.bestMatch('Сбер', ['Сбербанк'])).toEqual({ company: 'Сбербанк', score: PREFIX_SCORE });
+    expect(withPrefix.bestMatch('ПАО Сбербанк', ['Сбер', 'Сбербанк'])).toEqual({ company: 'Сбербанк', score: 1 });
+  });
+
+  it('maps aliases to their canonical name and searches for all of them', () => {
+    const withAliases = createCompanyNormalizer({
+      ...DEFAULT_COMPANY_NAME_RULES,
+      aliases: { 'Вымпелком': ['Билайн', 'Beeline'] }
+    });
+    expect(withAliases.key('ПАО Билайн')).toBe(withAliases.key('Вымпелком'));
+    expect(withAliases.score('Beeline', 'ПАО Вымпелком')).toBe(1);
+    expect(withAliases.searchTerms('Билайн')).toEqual(['билайн', 'вымпелком', 'beeline']);
+  });
+
+  it('honours the threshold of the rules', () => {
+    const strict = createCompanyNormalizer({ ...DEFAULT_COMPANY_NAME_RULES, threshold: 0.95 });
+    expect(normalizer.bestMatch('Тинькоф', ['Тинькофф'])).not.toBeNull();
+    expect(strict.bestMatch('Тинькоф', ['Тинькофф'])).toBeNull();
+  });
+
+  it('keeps the original spelling without transliteration', () => {
+    const cyrillic = createCompanyNormalizer({ ...DEFAULT_COMPANY_NAME_RULES, transliterate: false });
+    expect(cyrillic.key('Яндекс')).toBe('яндекс');
+    expect(cyrillic.score('Яндекс', 'Yandex')).toBeLessThan(DEFAULT_COMPANY_NAME_RULES.threshold);
+  });
+});
+
+describe('parseCompanyNameRules', () => {
+  it('fills in the defaults', () => {
+    expect(parseCompanyNameRules({})).toEqual(DEFAULT_COMPANY_NAME_RULES);
+  });
+
+  it('rejects a threshold outside 0..1', () => {
+    expect(() => parseCompanyNameRules({ threshold: 1.5 })).toThrow('threshold');
+  });
+});
@@ -0,0 +1,134 @@
+import { DEFAULT_COMPANY_NAME_RULES, type CompanyNameRules } from './rules';
+import { companySimilarity, prefixSimilarity } from './similarity';
+
+const CYRILLIC_TO_LATIN: Record<string, string> = {
+  а: 'a', б: 'b', в: 'v', г: 'g', д: 'd', е: 'e', ё: 'e', ж: 'zh', з: 'z', и: 'i', й: 'y',
+  к: 'k', л: 'l', м: 'm', н: 'n', о: 'o', п: 'p', р: 'r', с: 's', т: 't', у: 'u', ф: 'f',
+  х: 'h', ц: 'ts', ч: 'ch', ш: 'sh', щ: 'sch', ъ: '', ы: 'y', ь: '', э: 'e', ю: 'yu', я: 'ya'
+};
+
+// Spellings that differ between transliteration and how brands write themselves in Latin
+// ("Яндекс" → "yandeks" vs "Yandex"); applied to both sides, so only consistency matters
+const LATIN_SIMPLIFICATIONS: [RegExp, string][] = [
+  [/ks/g, 'x'],
+  [/kh/g, 'h'],
+  [/ph/g, 'f'],
+  [/w/g, 'v'],
+  [/j/g, 'y']
+];
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+export function transliterate(value: string): string {
+  const latin = Array.from(value).map(char => CYRILLIC_TO_LATIN[char] ?? char).join('');
+  return LATIN_SIMPLIFICATIONS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), latin);
+}
+
+export interface CompanyMatch {
+  score: number;
+  // The compared name (e.g. the resume's employer) that produced the score
+  company: string;
+}
+
+export interface CompanyNormalizer {
+  readonly rules: CompanyNameRules;
+  // Stop words, quotes and punctuation removed; keeps the original script, so it can go into HH search text
+  clean(name: string): string;
+  // Comparable key: cleaned, transliterated and mapped through the alias table
+  key(name: string): string;
+  // Names to search HH.ru for: the cleaned name plus the cleaned aliases of its company
+  searchTerms(name: string): string[];
+  score(a: string, b: string): number;
+  // Best-scoring candidate at or above the threshold, or null
+  bestMatch(target: string, candidates: string[]): CompanyMatch | null;
+}
+
+export function createCompanyNormalizer(rules: CompanyNameRules = DEFAULT_COMPANY_NAME_RULES): CompanyNormalizer {
+  // Longest first, so "акционерное общество" goes before "общество"
+  const stopWordPatterns = [...rules.stopWords]
+    .sort((a, b) => b.length - a.length)
+    .map(word => escapeRegExp(word.toLowerCase()))
+    .map(word => [
+      new RegExp(`^${word}\\s+`, 'g'),
+      new RegExp(`\\s+${word}\\s+`, 'g'),
+      new RegExp(`\\s+${word}$`, 'g')
+    ]);
+
+  function clean(name: string): string {
+    // 1. First remove quotes and convert to lowercase
+    let cleanName = name
+      .replace(/["'«»]/g, '')
+      .toLowerCase();
+
+    // 2. Remove all stop words (at start, in middle, at end)
+    for (const [start, middle, end] of stopWordPatterns) {
+      cleanName = cleanName
+        .replace(start, '')
+        .replace(middle, ' ')
+        .replace(end, '');
+    }
+
+    // 3. Clean up formatting
+    return cleanName
+      .replace(/[.,]/g, '')       // Remove dots and commas
+      .replace(/\(\s*\)/g, '')    // Remove empty parentheses
+      .replace(/\s+/g, ' ')       // Normalize spaces
+      .replace(/^\s*-\s*/, '')    // Remove leading hyphen
+      .replace(/\s*-\s*$/, '')    // Remove trailing hyphen
+      .trim();
+  }
+
+  const baseKey = (name: string) => {
+    const cleanName = clean(name);
+    return rules.transliterate ? transliterate(cleanName) : cleanName;
+  };
+
+  // Every spelling of an aliased company → the key of its canonical name
+  const aliasKeys = new Map<string, string>();
+  const aliasTerms = new Map<string, string[]>();
+  Object.entries(rules.aliases).forEach(([canonical, variants]) => {
+    const canonicalKey = baseKey(canonical);
+    if (!canonicalKey) return;
+    const names = [canonical, ...variants];
+    names.forEach(name => {
+      const variantKey = baseKey(name);
+      if (variantKey) aliasKeys.set(variantKey, canonicalKey);
+    });
+    aliasTerms.set(canonicalKey, names.map(clean).filter(Boolean));
+  });
+
+  function key(name: string): string {
+    const nameKey = baseKey(name);
+    return aliasKeys.get(nameKey) ?? nameKey;
+  }
+
+  function score(a: string, b: string): number {
+    const keyA = key(a);
+    const keyB = key(b);
+    if (!keyA || !keyB) return 0;
+    const similarity = companySimilarity(keyA, keyB);
+    return rules.prefixMatch ? Math.max(similarity, prefixSimilarity(keyA, keyB)) : similarity;
+  }
+
+  return {
+    rules,
+    clean,
+    key,
+    searchTerms(name) {
+      return Array.from(new Set([clean(name), ...(aliasTerms.get(key(name)) || [])].filter(Boolean)));
+    },
+    score,
+    bestMatch(target, candidates) {
+      let best: CompanyMatch | null = null;
+      for (const company of candidates) {
+        const candidateScore = score(target, company);
+        if (candidateScore >= rules.threshold && (!best || candidateScore > best.score)) {
+          best = { score: candidateScore, company };
+        }
+      }
+      return best;
+    }
+  };
+}
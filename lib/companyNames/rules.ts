@@ -0,0 +1,119 @@
+// Editable rules for turning company names into comparable keys. Browser-safe: the rules
+// editor in ResumeSearch validates with the same code as the API.
+
+export interface CompanyNameRules {
+  // Legal forms, regions and other words removed from names before comparing
+  stopWords: string[];
+  // Compare Cyrillic and Latin spellings ("Яндекс" / "Yandex") by transliterating both to Latin
+  transliterate: boolean;
+  // Canonical name → other names of the same company (abbreviations, brands, old names)
+  aliases: Record<string, string[]>;
+  // Count a name that starts another one ("Сбер" / "Сбербанк") as a match. Off by default:
+  // it also pairs different companies such as "Мега" and "МегаФон"
+  prefixMatch: boolean;
+  // Minimum similarity (0..1) between a resume's employer and the searched company
+  threshold: number;
+}
+
+export const DEFAULT_STOP_WORDS = [
+  'область',
+  'край',
+  'республика',
+  'округ',
+  'москва',
+  'московская',
+  'санкт-петербург',
+  'ленинградская',
+  'новосибирск',
+  'район',
+  'город',
+  'пао',
+  'оао',
+  'ооо',
+  'зао',
+  'ао',
+  'группа',
+  'компаний',
+  'компания',
+  'корпорация',
+  'холдинг',
+  'филиал',
+  'представительство',
+  'общество с ограниченной ответственностью',
+  'акционерное общество'
+];
+
+// Well-known short forms; prefix matching would find them too, but with false positives
+export const DEFAULT_ALIASES: Record<string, string[]> = {
+  'Сбербанк': ['Сбер', 'Sber']
+};
+
+export const DEFAULT_COMPANY_NAME_RULES: CompanyNameRules = {
+  stopWords: DEFAULT_STOP_WORDS,
+  transliterate: true,
+  aliases: DEFAULT_ALIASES,
+  prefixMatch: false,
+  threshold: 0.85
+};
+
+function toStringList(value: unknown, field: string): string[] {
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string')) {
+    throw new Error(`${field} must be a list of strings`);
+  }
+  return value.map(item => item.trim()).filter(Boolean);
+}
+
+// Validates rules coming from the API or the editor; missing fields fall back to the defaults
+export function parseCompanyNameRules(input: unknown): CompanyNameRules {
+  const value = (input || {}) as Partial<Record<keyof CompanyNameRules, unknown>>;
+
+  const stopWords = value.stopWords === undefined
+    ? DEFAULT_COMPANY_NAME_RULES.stopWords
+    : toStringList(value.stopWords, 'stopWords').map(word => word.toLowerCase());
+
+  const transliterate = value.transliterate === undefined ? DEFAULT_COMPANY_NAME_RULES.transliterate : value.transliterate;
+  if (typeof transliterate !== 'boolean') {
+    throw new Error('transliterate must be true or false');
+  }
+
+  const aliases: Record<string, string[]> = value.aliases === undefined ? { ...DEFAULT_COMPANY_NAME_RULES.aliases } : {};
+  if (value.aliases !== undefined) {
+    if (!value.aliases || typeof value.aliases !== 'object' || Array.isArray(value.aliases)) {
+      throw new Error('aliases must map a company name to a list of names');
+    }
+    Object.entries(value.aliases).forEach(([canonical, variants]) => {
+      if (canonical.trim()) {
+        aliases[canonical.trim()] = toStringList(variants, `aliases["${canonical}"]`);
+      }
+    });
+  }
+
+  const prefixMatch = value.prefixMatch === undefined ? DEFAULT_COMPANY_NAME_RULES.prefixMatch : value.prefixMatch;
+  if (typeof prefixMatch !== 'boolean') {
+    throw new Error('prefixMatch must be true or false');
+  }
+
+  const threshold = value.threshold === undefined ? DEFAULT_COMPANY_NAME_RULES.threshold : Number(value.threshold);
+  if (!Number.isFinite(threshold) || threshold <= 0 || threshold > 1) {
+    throw new Error('threshold must be a number greater than 0 and at most 1');
+  }
+
+  return { stopWords, transliterate, aliases, prefixMatch, threshold };
+}
+
+// Text form used by the editor: one company per line, "Canonical: alias, alias"
+export function formatAliases(aliases: Record<string, string[]>): string {
+  return Object.entries(aliases)
+    .map(([canonical, variants]) => `${canonical}: ${variants.join(', ')}`)
+    .join('\n');
+}
+
+export function parseAliases(text: string): Record<string, string[]> {
+  const aliases: Record<string, string[]> = {};
+  text.split('\n').forEach(line => {
+    const [canonical, variants = ''] = line.split(':');
+    if (!canonical?.trim()) return;
+    aliases[canonical.trim()] = variants.split(',').map(variant => variant.trim()).filter(Boolean);
+  });
+  return aliases;
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import {
+  PREFIX_SCORE,
+  companySimilarity,
+  levenshteinDistance,
+  levenshteinSimilarity,
+  prefixSimilarity,
+  tokenJaccard
+} from './similarity';
+import { transliterate } from './normalizer';
+import { DEFAULT_COMPANY_NAME_RULES } from './rules';
+
+describe('levenshteinDistance', () => {
+  it('counts insertions, deletions and substitutions', () => {
+    expect(levenshteinDistance('kitten', 'sitting')).toBe(3);
+    expect(levenshteinDistance('', 'abc')).toBe(3);
+    expect(levenshteinDistance('abc', 'abc')).toBe(0);
+  });
+
+  it('scales to a similarity by the longer key', () => {
+    expect(levenshteinSimilarity('yandex', 'yandeks')).toBeCloseTo(1 - 2 / 7);
+    expect(levenshteinSimilarity('', '')).toBe(1);
+  });
+});
+
+describe('tokenJaccard', () => {
+  it('ignores word order', () => {
+    expect(tokenJaccard('alfa bank', 'bank alfa')).toBe(1);
+    expect(tokenJaccard('alfa bank', 'alfa strahovanie')).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('prefixSimilarity', () => {
+  it('scores a short form that starts the longer key', () => {
+    expect(prefixSimilarity('sber', 'sberbank')).toBe(PREFIX_SCORE);
+    expect(prefixSimilarity('sberbank', 'sber')).toBe(PREFIX_SCORE);
+  });
+
+  it('needs a few characters and the start of the key', () => {
+    expect(prefixSimilarity('mts', 'mtsbank')).toBe(0);
+    expect(prefixSimilarity('bank', 'sberbank')).toBe(0);
+  });
+});
+
+describe('companySimilarity', () => {
+  const threshold = DEFAULT_COMPANY_NAME_RULES.threshold;
+
+  it('takes the best of the measures', () => {
+    expect(companySimilarity('ozon', 'ozon')).toBe(1);
+    expect(companySimilarity('tinkoff bank', 'bank tinkoff')).toBe(1);
+    expect(companySimilarity('lukoil', 'rosneft')).toBeLessThan(0.5);
+  });
+
+  it.each([
+    ['Мега', 'МегаФон'],
+    ['Газпром', 'Газпромбанк'],
+    ['Рост', 'Ростелеком'],
+    ['Альфа', 'Альфастрахование'],
+    ['Сбер', 'Сбербанк']
+  ])('keeps %s and %s apart without the prefix rule', (a, b) => {
+    expect(companySimilarity(transliterate(a.toLowerCase()), transliterate(b.toLowerCase()))).toBeLessThan(threshold);
+  });
+});
@@ -0,0 +1,50 @@
+// Similarity measures on normalised company keys, all in the range 0..1
+
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (!a.length) return b.length;
+  if (!b.length) return a.length;
+
+  // Single-row dynamic programming
+  let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      current.push(Math.min(previous[j] + 1, current[j - 1] + 1, substitution));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+export function levenshteinSimilarity(a: string, b: string): number {
+  const maxLength = Math.max(a.length, b.length);
+  return maxLength === 0 ? 1 : 1 - levenshteinDistance(a, b) / maxLength;
+}
+
+export function tokenJaccard(a: string, b: string): number {
+  const tokensA = new Set(a.split(' ').filter(Boolean));
+  const tokensB = new Set(b.split(' ').filter(Boolean));
+  if (tokensA.size === 0 && tokensB.size === 0) return 1;
+
+  const intersection = Array.from(tokensA).filter(token => tokensB.has(token)).length;
+  return intersection / (tokensA.size + tokensB.size - intersection);
+}
+
+// Short forms like "Сбер" for "Сбербанк": the shorter key starts the longer one. Only used with
+// the prefixMatch rule, since it also pairs "Мега" with "МегаФон"; scored just above the default
+// threshold and below an exact match.
+export const PREFIX_SCORE = 0.9;
+const MIN_PREFIX_LENGTH = 4;
+
+export function prefixSimilarity(a: string, b: string): number {
+  const [shorter, longer] = a.length <= b.length ? [a, b] : [b, a];
+  return shorter.length >= MIN_PREFIX_LENGTH && longer.startsWith(shorter) ? PREFIX_SCORE : 0;
+}
+
+// Jaccard catches reordered or extra words, Levenshtein catches typos and spelling variants
+export function companySimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  return Math.max(tokenJaccard(a, b), levenshteinSimilarity(a, b));
+}
@@ -0,0 +1,28 @@
+import { deleteSetting, getSetting, setSetting } from '@/lib/db';
+import { DEFAULT_COMPANY_NAME_RULES, parseCompanyNameRules, type CompanyNameRules } from './rules';
+
+const SETTINGS_KEY = 'company-name-rules';
+
+// The user's saved rules, or the defaults. Searches snapshot these when they start.
+export function loadCompanyNameRules(ownerId: string): CompanyNameRules {
+  const stored = getSetting<unknown>(ownerId, SETTINGS_KEY);
+  if (!stored) return DEFAULT_COMPANY_NAME_RULES;
+
+  try {
+    return parseCompanyNameRules(stored);
+  } catch (error) {
+    console.error('Ignoring invalid stored company name rules:', error);
+    return DEFAULT_COMPANY_NAME_RULES;
+  }
+}
+
+export function saveCompanyNameRules(ownerId: string, input: unknown): CompanyNameRules {
+  const rules = parseCompanyNameRules(input);
+  setSetting(ownerId, SETTINGS_KEY, rules);
+  return rules;
+}
+
+export function resetCompanyNameRules(ownerId: string): CompanyNameRules {
+  deleteSetting(ownerId, SETTINGS_KEY);
+  return DEFAULT_COMPANY_NAME_RULES;
+}
@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvDelimiter, parseCsv, toCsv } from './csv';
+
+describe('parseCsv', () => {
+  it('splits rows on LF and CRLF', () => {
+    expect(parseCsv('Company,INN\r\nАльфа,7700000001\nБета,7700000002')).toEqual([
+      ['Company', 'INN'],
+      ['Альфа', '7700000001'],
+      ['Бета', '7700000002']
+    ]);
+  });
+
+  it('keeps delimiters, doubled quotes and line breaks inside quoted cells', () => {
+    expect(parseCsv('"ООО ""Ромашка"", Москва","Строка 1\r\nСтрока 2\nСтрока 3"\nnext,row')).toEqual([
+      ['ООО "Ромашка", Москва', 'Строка 1\r\nСтрока 2\nСтрока 3'],
+      ['next', 'row']
+    ]);
+  });
+
+  it('keeps empty cells and ignores a trailing line break', () => {
+    expect(parseCsv('a;;c;\n;b;;\n', ';')).toEqual([
+      ['a', '', 'c', ''],
+      ['', 'b', '', '']
+    ]);
+  });
+
+  it('reads back what toCsv writes', () => {
+    const rows = [['Name', 'Note'], ['Иван "Ваня"', 'line 1\nline 2, with comma'], ['', '']];
+    expect(parseCsv(toCsv(rows))).toEqual(rows);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks the delimiter used most in the header line', () => {
+    expect(detectCsvDelimiter('Company,INN,Region\n1;2;3;4;5')).toBe(',');
+    expect(detectCsvDelimiter('Компания;ИНН;Регион, город\r\nАльфа;1;Москва')).toBe(';');
+    expect(detectCsvDelimiter('Company\tINN\tRegion')).toBe('\t');
+  });
+
+  it('falls back to a comma for a single-column file', () => {
+    expect(detectCsvDelimiter('Company\nАльфа')).toBe(',');
+    expect(detectCsvDelimiter('')).toBe(',');
+  });
+});
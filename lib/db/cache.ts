@@ -0,0 +1,29 @@
+import { fromJson, getDb, toJson } from './client';
+
+// Local cache for slow-changing HH.ru reference data (dictionaries, areas). A failed refresh
+// falls back to the stale copy, so dropdowns keep working when HH is unreachable.
+export async function getCached<T>(key: string, maxAgeMs: number, load: () => Promise<T>): Promise<T> {
+  const db = getDb();
+  const row = db.prepare('SELECT value, fetched_at FROM hh_cache WHERE key = ?').get(key) as
+    | { value: string; fetched_at: string }
+    | undefined;
+
+  if (row && Date.now() - new Date(row.fetched_at).getTime() < maxAgeMs) {
+    return fromJson<T>(row.value);
+  }
+
+  try {
+    const value = await load();
+    db.prepare(`
+      INSERT INTO hh_cache (key, value, fetched_at) VALUES (?, ?, ?)
+      ON CONFLICT (key) DO UPDATE SET value = excluded.value, fetched_at = excluded.fetched_at
+    `).run(key, toJson(value), new Date().toISOString());
+    return value;
+  } catch (error) {
+    if (row) {
+      console.error(`Refreshing cached ${key} failed, serving the copy from ${row.fetched_at}:`, error);
+      return fromJson<T>(row.value);
+    }
+    throw error;
+  }
+}
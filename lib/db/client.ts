@@ -0,0 +1,42 @@
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+import { MIGRATIONS } from './schema';
+
+let db: Database.Database | null = null;
+
+export function getDatabasePath(): string {
+  return process.env.DATABASE_PATH || path.join(process.cwd(), '.data', 'app.db');
+}
+
+function migrate(database: Database.Database) {
+  const version = database.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(version).forEach((sql, index) => {
+    database.transaction(() => {
+      database.exec(sql);
+      database.pragma(`user_version = ${version + index + 1}`);
+    })();
+  });
+}
+
+// One connection per server process; better-sqlite3 is synchronous, so there is nothing to pool
+export function getDb(): Database.Database {
+  if (!db) {
+    const file = getDatabasePath();
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+
+    db = new Database(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('foreign_keys = ON');
+    migrate(db);
+  }
+  return db;
+}
+
+export function toJson(value: unknown): string {
+  return JSON.stringify(value ?? null);
+}
+
+export function fromJson<T>(value: string | null): T {
+  return value ? JSON.parse(value) : (null as T);
+}
@@ -0,0 +1,21 @@
+import { fromJson, getDb, toJson } from './client';
+
+// Per-company results of a company validation run, in input order. Stored whole as JSON so the
+// run can be exported again in any format.
+export function saveRunCompanies<T extends { company: string; status: string }>(runId: string, companies: T[]) {
+  const db = getDb();
+  const insert = db.prepare(`
+    INSERT INTO run_companies (run_id, position, company, status, data) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (run_id, position) DO UPDATE SET company = excluded.company, status = excluded.status, data = excluded.data
+  `);
+  db.transaction(() => {
+    companies.forEach((item, position) => insert.run(runId, position, item.company, item.status, toJson(item)));
+  })();
+}
+
+export function getRunCompanies<T>(runId: string): T[] {
+  const rows = getDb()
+    .prepare('SELECT data FROM run_companies WHERE run_id = ? ORDER BY position')
+    .all(runId) as { data: string }[];
+  return rows.map(row => fromJson<T>(row.data));
+}
@@ -0,0 +1,77 @@
+import { getDb } from './client';
+
+export type ContactSource = 'resume' | 'vacancy';
+
+export interface StoredContact {
+  sourceType: ContactSource;
+  sourceId: string;
+  runId: string | null;
+  fullName: string;
+  email: string;
+  phone: string;
+  phoneComment: string;
+  fetchedAt: string;
+}
+
+interface ContactRow {
+  source_type: ContactSource;
+  source_id: string;
+  run_id: string | null;
+  full_name: string | null;
+  email: string | null;
+  phone: string | null;
+  phone_comment: string | null;
+  fetched_at: string;
+}
+
+function toStoredContact(row: ContactRow): StoredContact {
+  return {
+    sourceType: row.source_type,
+    sourceId: row.source_id,
+    runId: row.run_id,
+    fullName: row.full_name || '',
+    email: row.email || '',
+    phone: row.phone || '',
+    phoneComment: row.phone_comment || '',
+    fetchedAt: row.fetched_at
+  };
+}
+
+// Contacts are append-only: every fetch is kept, so changes can be audited over time
+export function saveContact(contact: Omit<StoredContact, 'fetchedAt'>) {
+  getDb()
+    .prepare(`
+      INSERT INTO contacts (source_type, source_id, run_id, full_name, email, phone, phone_comment, fetched_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+    `)
+    .run(
+      contact.sourceType,
+      contact.sourceId,
+      contact.runId,
+      contact.fullName,
+      contact.email,
+      contact.phone,
+      contact.phoneComment,
+      new Date().toISOString()
+    );
+}
+
+// Only contacts the owner's own runs fetched: opened contacts are paid for by one HH account
+export function findLatestContact(ownerId: string, sourceType: ContactSource, sourceId: string): StoredContact | null {
+  const row = getDb()
+    .prepare(`
+      SELECT c.* FROM contacts c JOIN search_runs sr ON sr.id = c.run_id
+      WHERE sr.owner_id = ? AND c.source_type = ? AND c.source_id = ?
+      ORDER BY c.fetched_at DESC, c.id DESC
+      LIMIT 1
+    `)
+    .get(ownerId, sourceType, sourceId) as ContactRow | undefined;
+  return row ? toStoredContact(row) : null;
+}
+
+export function getRunContacts(runId: string): StoredContact[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM contacts WHERE run_id = ? ORDER BY id')
+    .all(runId) as ContactRow[];
+  return rows.map(toStoredContact);
+}
@@ -0,0 +1,67 @@
+import { getDb } from './client';
+
+export type EmployerDecisionStatus = 'confirmed' | 'rejected';
+
+// The user's verdict on one HH employer for one input company, made in the company review.
+// Confirmed employers are the only ones a later resume search matches for that company.
+export interface EmployerDecision {
+  // Input company name as reviewed; compared by normalised key when reused
+  company: string;
+  employerId: string;
+  employerName: string | null;
+  status: EmployerDecisionStatus;
+  updatedAt: string;
+}
+
+// status null forgets the decision
+export interface EmployerDecisionUpdate {
+  company: string;
+  employerId: string;
+  employerName?: string | null;
+  status: EmployerDecisionStatus | null;
+}
+
+interface EmployerDecisionRow {
+  company: string;
+  employer_id: string;
+  employer_name: string | null;
+  status: EmployerDecisionStatus;
+  updated_at: string;
+}
+
+export function getEmployerDecisions(ownerId: string): EmployerDecision[] {
+  const rows = getDb()
+    .prepare('SELECT * FROM employer_decisions WHERE owner_id = ? ORDER BY company, updated_at')
+    .all(ownerId) as EmployerDecisionRow[];
+  return rows.map(row => ({
+    company: row.company,
+    employerId: row.employer_id,
+    employerName: row.employer_name,
+    status: row.status,
+    updatedAt: row.updated_at
+  }));
+}
+
+export function saveEmployerDecisions(ownerId: string, updates: EmployerDecisionUpdate[]) {
+  const db = getDb();
+  const upsert = db.prepare(`
+    INSERT INTO employer_decisions (owner_id, company, employer_id, employer_name, status, updated_at)
+    VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (owner_id, company, employer_id) DO UPDATE SET
+      employer_name = COALESCE(excluded.employer_name, employer_decisions.employer_name),
+      status = excluded.status,
+      updated_at = excluded.updated_at
+  `);
+  const remove = db.prepare('DELETE FROM employer_decisions WHERE owner_id = ? AND company = ? AND employer_id = ?');
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    updates.forEach(update => {
+      if (update.status === null) {
+        remove.run(ownerId, update.company, update.employerId);
+      } else {
+        upsert.run(ownerId, update.company, update.employerId, update.employerName ?? null, update.status, now);
+      }
+    });
+  })();
+}
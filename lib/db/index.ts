@@ -0,0 +1,29 @@
+export { getDatabasePath, getDb } from './client';
+export { createRun, finishRun, getRun, listRuns, updateRunParams } from './runs';
+export type { SearchRun, SearchRunStatus, SearchRunType } from './runs';
+export {
+  countRunResumes,
+  diffRunResumes,
+  findRunResumes,
+  getCandidateHistory,
+  getRunIdentities,
+  getRunResumes,
+  personKey,
+  saveRunResumes
+} from './resumes';
+export type { CandidateHistory, RunDiff, StoredResume } from './resumes';
+export { getRunVacancies, saveRunVacancies } from './vacancies';
+export { getRunCompanies, saveRunCompanies } from './companies';
+export type { RunVacancy } from './vacancies';
+export { findLatestContact, getRunContacts, saveContact } from './contacts';
+export type { ContactSource, StoredContact } from './contacts';
+export { deleteSetting, getSetting, setSetting } from './settings';
+export { getCached } from './cache';
+export { getUpload, saveUpload } from './uploads';
+export { getEmployerDecisions, saveEmployerDecisions } from './employers';
+export type { EmployerDecision, EmployerDecisionStatus, EmployerDecisionUpdate } from './employers';
+export type { StoredUpload, UploadedWorksheet } from './uploads';
+export { findSessionUser, forgetSession, getUserSessions, registerSession } from './sessions';
+export { claimJobLease, isJobLeased, releaseJobLease } from './jobLeases';
+export { getInnRecord, getInnRegistryStats, importInnRecords } from './innRegistry';
+export type { InnRecord } from './innRegistry';
@@ -0,0 +1,69 @@
+import { fromJson, getDb, toJson } from './client';
+
+// Legal name and brands of a company by its INN, imported from a CSV/XLSX (e.g. an EGRUL
+// export). Shared by all users, like the HH reference data: it describes companies, not
+// anyone's preferences.
+export interface InnRecord {
+  inn: string;
+  legalName: string;
+  shortName: string | null;
+  // Names the company hires under on HH, if they differ from the legal one
+  brands: string[];
+  // File the record was imported from
+  source: string | null;
+  importedAt: string;
+}
+
+interface InnRecordRow {
+  inn: string;
+  legal_name: string;
+  short_name: string | null;
+  brands: string;
+  source: string | null;
+  imported_at: string;
+}
+
+function fromRow(row: InnRecordRow): InnRecord {
+  return {
+    inn: row.inn,
+    legalName: row.legal_name,
+    shortName: row.short_name,
+    brands: fromJson(row.brands),
+    source: row.source,
+    importedAt: row.imported_at
+  };
+}
+
+// Re-importing an INN replaces its names
+export function importInnRecords(records: Omit<InnRecord, 'importedAt'>[]): number {
+  const db = getDb();
+  const upsert = db.prepare(`
+    INSERT INTO inn_registry (inn, legal_name, short_name, brands, source, imported_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (inn) DO UPDATE SET
+      legal_name = excluded.legal_name,
+      short_name = excluded.short_name,
+      brands = excluded.brands,
+      source = excluded.source,
+      imported_at = excluded.imported_at
+  `);
+  const now = new Date().toISOString();
+
+  db.transaction(() => {
+    records.forEach(record => {
+      upsert.run(record.inn, record.legalName, record.shortName, toJson(record.brands), record.source, now);
+    });
+  })();
+  return records.length;
+}
+
+export function getInnRecord(inn: string): InnRecord | null {
+  const row = getDb().prepare('SELECT * FROM inn_registry WHERE inn = ?').get(inn) as InnRecordRow | undefined;
+  return row ? fromRow(row) : null;
+}
+
+export function getInnRegistryStats(): { count: number; lastImportedAt: string | null } {
+  const row = getDb()
+    .prepare('SELECT COUNT(*) AS count, MAX(imported_at) AS last_imported_at FROM inn_registry')
+    .get() as { count: number; last_imported_at: string | null };
+  return { count: row.count, lastImportedAt: row.last_imported_at };
+}
@@ -0,0 +1,26 @@
+import { getDb } from './client';
+
+// Which /run call is executing a chunk of a job. Claiming is a single conditional upsert, so
+// of two concurrent calls exactly one gets the lease; an expired lease can be taken over.
+export function claimJobLease(jobId: string, holder: string, leaseMs: number): boolean {
+  const now = Date.now();
+  const result = getDb()
+    .prepare(`
+      INSERT INTO job_leases (job_id, holder, lease_until) VALUES (?, ?, ?)
+      ON CONFLICT (job_id) DO UPDATE SET holder = excluded.holder, lease_until = excluded.lease_until
+      WHERE job_leases.lease_until <= ?
+    `)
+    .run(jobId, holder, now + leaseMs, now);
+  return result.changes === 1;
+}
+
+export function releaseJobLease(jobId: string, holder: string) {
+  getDb().prepare('DELETE FROM job_leases WHERE job_id = ? AND holder = ?').run(jobId, holder);
+}
+
+export function isJobLeased(jobId: string): boolean {
+  const row = getDb()
+    .prepare('SELECT 1 FROM job_leases WHERE job_id = ? AND lease_until > ?')
+    .get(jobId, Date.now());
+  return Boolean(row);
+}
@@ -0,0 +1,197 @@
+import type { HHResume } from '@/lib/hh';
+import { fromJson, getDb, toJson } from './client';
+
+// Same person across different resumes: name, birth year and region. Names and birth dates
+// are only in the payload once contacts were opened, so most search results have no key.
+export function personKey(resume: HHResume): string | null {
+  const normalize = (value: string | null | undefined) => (value || '').trim().toLowerCase().replace(/ё/g, 'е');
+  const lastName = normalize(resume.last_name);
+  const firstName = normalize(resume.first_name);
+  const birthYear = resume.birth_date?.slice(0, 4);
+  if (!lastName || !firstName || !birthYear) return null;
+  return [lastName, firstName, birthYear, resume.area?.id || ''].join('|');
+}
+
+export interface StoredResume<T extends HHResume = HHResume> {
+  id: string;
+  data: T;
+  company: string | null;
+  firstSeenAt: string;
+  lastSeenAt: string;
+}
+
+// Upserts the resumes and links them to the run in their original order. The payload is kept
+// per run: it can hold contacts the run's owner paid to open, which other users must not see.
+// first_seen_at is kept so later runs can tell new resumes from known ones. With `append`
+// new resumes are placed after the ones already linked (e.g. the next page of a preview) and
+// resumes the run already has keep their place.
+export function saveRunResumes<T extends HHResume>(
+  runId: string,
+  resumes: T[],
+  companyOf: (resume: T) => string | null = () => null,
+  options: { append?: boolean } = {}
+) {
+  const db = getDb();
+  const offset = options.append
+    ? (db.prepare('SELECT COALESCE(MAX(position) + 1, 0) AS next FROM run_resumes WHERE run_id = ?').get(runId) as { next: number }).next
+    : 0;
+  const now = new Date().toISOString();
+  const upsertResume = db.prepare(`
+    INSERT INTO resumes (id, person_key, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET
+      person_key = COALESCE(excluded.person_key, person_key),
+      last_seen_at = excluded.last_seen_at
+  `);
+  const link = db.prepare(`
+    INSERT INTO run_resumes (run_id, resume_id, data, company, position) VALUES (?, ?, ?, ?, ?)
+    ON CONFLICT (run_id, resume_id) DO UPDATE SET data = excluded.data, company = excluded.company
+    ${options.append ? '' : ', position = excluded.position'}
+  `);
+
+  db.transaction(() => {
+    resumes.forEach((resume, position) => {
+      upsertResume.run(resume.id, personKey(resume), now, now);
+      link.run(runId, resume.id, toJson(resume), companyOf(resume), offset + position);
+    });
+  })();
+}
+
+interface StoredResumeRow {
+  id: string;
+  data: string;
+  company: string | null;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+function toStoredResume<T extends HHResume>(row: StoredResumeRow): StoredResume<T> {
+  return {
+    id: row.id,
+    data: fromJson<T>(row.data),
+    company: row.company,
+    firstSeenAt: row.first_seen_at,
+    lastSeenAt: row.last_seen_at
+  };
+}
+
+// In run order; `offset`/`limit` read one slice of a large run
+export function getRunResumes<T extends HHResume = HHResume>(
+  runId: string,
+  options: { offset?: number; limit?: number } = {}
+): StoredResume<T>[] {
+  const rows = getDb()
+    .prepare(`
+      SELECT r.id, rr.data, rr.company, r.first_seen_at, r.last_seen_at
+      FROM run_resumes rr JOIN resumes r ON r.id = rr.resume_id
+      WHERE rr.run_id = ?
+      ORDER BY rr.position
+      LIMIT ? OFFSET ?
+    `)
+    .all(runId, options.limit ?? -1, options.offset ?? 0) as StoredResumeRow[];
+
+  return rows.map(row => toStoredResume<T>(row));
+}
+
+export function countRunResumes(runId: string): number {
+  return (getDb().prepare('SELECT COUNT(*) AS count FROM run_resumes WHERE run_id = ?').get(runId) as { count: number }).count;
+}
+
+// SQLite limits the number of bound parameters per statement
+const ID_BATCH_SIZE = 500;
+
+function inBatches<T>(ids: string[], query: (batch: string[], placeholders: string) => T[]): T[] {
+  const rows: T[] = [];
+  for (let start = 0; start < ids.length; start += ID_BATCH_SIZE) {
+    const batch = ids.slice(start, start + ID_BATCH_SIZE);
+    rows.push(...query(batch, batch.map(() => '?').join(', ')));
+  }
+  return rows;
+}
+
+// The run's resumes that have one of the ids or person fingerprints, in run order
+export function findRunResumes<T extends HHResume = HHResume>(
+  runId: string,
+  ids: string[],
+  personKeys: string[]
+): StoredResume<T>[] {
+  const db = getDb();
+  const select = (column: string, values: string[]) => inBatches(values, (batch, placeholders) => db
+    .prepare(`
+      SELECT r.id, rr.data, rr.company, r.first_seen_at, r.last_seen_at, rr.position
+      FROM run_resumes rr JOIN resumes r ON r.id = rr.resume_id
+      WHERE rr.run_id = ? AND r.${column} IN (${placeholders})
+    `)
+    .all(runId, ...batch) as (StoredResumeRow & { position: number })[]);
+
+  const rows = new Map<string, StoredResumeRow & { position: number }>();
+  [...select('id', ids), ...select('person_key', personKeys)].forEach(row => rows.set(row.id, row));
+  return Array.from(rows.values())
+    .sort((a, b) => a.position - b.position)
+    .map(row => toStoredResume<T>(row));
+}
+
+export interface CandidateHistory {
+  // When runs other than the excluded one first and last found this person
+  firstSeenAt: string;
+  lastSeenAt: string;
+  runCount: number;
+}
+
+// History per resume id across all of the owner's runs, counting the person's other resumes
+// too when their fingerprint is known. Resumes never seen before are missing from the map.
+export function getCandidateHistory(
+  ownerId: string,
+  resumeIds: string[],
+  options: { excludeRunId?: string } = {}
+): Map<string, CandidateHistory> {
+  const db = getDb();
+  const rows = inBatches(resumeIds, (batch, placeholders) => db
+    .prepare(`
+      SELECT r.id, MIN(sr.started_at) AS first_seen, MAX(sr.started_at) AS last_seen, COUNT(DISTINCT sr.id) AS run_count
+      FROM resumes r
+      JOIN resumes same ON same.id = r.id OR (r.person_key IS NOT NULL AND same.person_key = r.person_key)
+      JOIN run_resumes rr ON rr.resume_id = same.id
+      JOIN search_runs sr ON sr.id = rr.run_id
+      WHERE r.id IN (${placeholders}) AND sr.owner_id = ? AND sr.id != ?
+      GROUP BY r.id
+    `)
+    .all(...batch, ownerId, options.excludeRunId || '') as { id: string; first_seen: string; last_seen: string; run_count: number }[]);
+
+  return new Map(rows.map(row => [row.id, { firstSeenAt: row.first_seen, lastSeenAt: row.last_seen, runCount: row.run_count }]));
+}
+
+// Resume ids and person fingerprints found by a run, for "only new since that run"
+export function getRunIdentities(runId: string): { ids: Set<string>; personKeys: Set<string> } {
+  const rows = getDb()
+    .prepare(`
+      SELECT r.id, r.person_key FROM run_resumes rr JOIN resumes r ON r.id = rr.resume_id
+      WHERE rr.run_id = ?
+    `)
+    .all(runId) as { id: string; person_key: string | null }[];
+  return {
+    ids: new Set(rows.map(row => row.id)),
+    personKeys: new Set(rows.map(row => row.person_key).filter((key): key is string => !!key))
+  };
+}
+
+export interface RunDiff {
+  added: string[];
+  removed: string[];
+  unchanged: string[];
+}
+
+// Resume ids found by `runId` compared with `baseRunId`
+export function diffRunResumes(baseRunId: string, runId: string): RunDiff {
+  const idsOf = (id: string) => new Set(
+    (getDb().prepare('SELECT resume_id FROM run_resumes WHERE run_id = ?').all(id) as { resume_id: string }[])
+      .map(row => row.resume_id)
+  );
+  const base = idsOf(baseRunId);
+  const current = idsOf(runId);
+
+  return {
+    added: Array.from(current).filter(id => !base.has(id)),
+    removed: Array.from(base).filter(id => !current.has(id)),
+    unchanged: Array.from(current).filter(id => base.has(id))
+  };
+}
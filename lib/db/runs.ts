@@ -0,0 +1,113 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { HHCallMetrics } from '@/lib/hh';
+import { fromJson, getDb, toJson } from './client';
+
+export type SearchRunType =
+  | 'resume-search'
+  | 'resume-preview'
+  | 'resume-contacts'
+  | 'vacancy-contacts'
+  | 'vacancy-search'
+  | 'company-validation';
+export type SearchRunStatus = 'running' | 'completed' | 'failed' | 'cancelled';
+
+export interface SearchRun<TParams = Record<string, unknown>> {
+  id: string;
+  type: SearchRunType;
+  ownerId: string;
+  params: TParams;
+  status: SearchRunStatus;
+  resultCount: number;
+  error: string | null;
+  apiCalls: HHCallMetrics | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+interface SearchRunRow {
+  id: string;
+  type: SearchRunType;
+  owner_id: string;
+  params: string;
+  status: SearchRunStatus;
+  result_count: number;
+  error: string | null;
+  api_calls: string | null;
+  started_at: string;
+  finished_at: string | null;
+}
+
+function toSearchRun<TParams = Record<string, unknown>>(row: SearchRunRow): SearchRun<TParams> {
+  return {
+    id: row.id,
+    type: row.type,
+    ownerId: row.owner_id,
+    params: fromJson<TParams>(row.params),
+    status: row.status,
+    resultCount: row.result_count,
+    error: row.error,
+    apiCalls: fromJson(row.api_calls),
+    startedAt: row.started_at,
+    finishedAt: row.finished_at
+  };
+}
+
+// `id` lets a background job record its run under the job's own id, so a resumed job keeps one run
+export function createRun<TParams = Record<string, unknown>>(
+  type: SearchRunType,
+  ownerId: string,
+  params: TParams,
+  id: string = uuidv4()
+): SearchRun<TParams> {
+  getDb()
+    .prepare(`
+      INSERT INTO search_runs (id, type, owner_id, params, status, started_at)
+      VALUES (?, ?, ?, ?, 'running', ?)
+      ON CONFLICT (id) DO NOTHING
+    `)
+    .run(id, type, ownerId, toJson(params), new Date().toISOString());
+  return getRun<TParams>(id) as SearchRun<TParams>;
+}
+
+// For what a run only learns once it has started, e.g. the company groups a preview resolved
+export function updateRunParams<TParams>(id: string, params: TParams) {
+  getDb().prepare('UPDATE search_runs SET params = ? WHERE id = ?').run(toJson(params), id);
+}
+
+export function finishRun(
+  id: string,
+  outcome: { status: Exclude<SearchRunStatus, 'running'>; resultCount?: number; error?: string; apiCalls?: HHCallMetrics }
+) {
+  getDb()
+    .prepare(`
+      UPDATE search_runs
+      SET status = ?, result_count = COALESCE(?, result_count), error = ?, api_calls = COALESCE(?, api_calls), finished_at = ?
+      WHERE id = ?
+    `)
+    .run(
+      outcome.status,
+      outcome.resultCount ?? null,
+      outcome.error ?? null,
+      outcome.apiCalls ? toJson(outcome.apiCalls) : null,
+      new Date().toISOString(),
+      id
+    );
+}
+
+// The caller vouches for the params type, usually after checking the run's type
+export function getRun<TParams = Record<string, unknown>>(id: string): SearchRun<TParams> | null {
+  const row = getDb().prepare('SELECT * FROM search_runs WHERE id = ?').get(id) as SearchRunRow | undefined;
+  return row ? toSearchRun<TParams>(row) : null;
+}
+
+export function listRuns(ownerId: string, options: { type?: SearchRunType; limit?: number } = {}): SearchRun[] {
+  const rows = getDb()
+    .prepare(`
+      SELECT * FROM search_runs
+      WHERE owner_id = ? AND (? IS NULL OR type = ?)
+      ORDER BY started_at DESC
+      LIMIT ?
+    `)
+    .all(ownerId, options.type ?? null, options.type ?? null, options.limit ?? 50) as SearchRunRow[];
+  return rows.map(row => toSearchRun(row));
+}
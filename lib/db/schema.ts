@@ -0,0 +1,162 @@
+// Each entry upgrades the database by one version (tracked in PRAGMA user_version).
+// Only ever append: released migrations must not change.
+export const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE search_runs (
+    id TEXT PRIMARY KEY,
+    type TEXT NOT NULL,
+    owner_id TEXT NOT NULL,
+    params TEXT NOT NULL,
+    status TEXT NOT NULL,
+    result_count INTEGER NOT NULL DEFAULT 0,
+    error TEXT,
+    api_calls TEXT,
+    started_at TEXT NOT NULL,
+    finished_at TEXT
+  );
+  CREATE INDEX search_runs_owner ON search_runs (owner_id, started_at);
+
+  CREATE TABLE resumes (
+    id TEXT PRIMARY KEY,
+    data TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL
+  );
+
+  CREATE TABLE run_resumes (
+    run_id TEXT NOT NULL REFERENCES search_runs (id) ON DELETE CASCADE,
+    resume_id TEXT NOT NULL REFERENCES resumes (id),
+    company TEXT,
+    position INTEGER NOT NULL,
+    PRIMARY KEY (run_id, resume_id)
+  );
+
+  CREATE TABLE vacancies (
+    id TEXT PRIMARY KEY,
+    employer_id TEXT,
+    employer_name TEXT,
+    data TEXT NOT NULL,
+    first_seen_at TEXT NOT NULL,
+    last_seen_at TEXT NOT NULL
+  );
+
+  CREATE TABLE run_vacancies (
+    run_id TEXT NOT NULL REFERENCES search_runs (id) ON DELETE CASCADE,
+    vacancy_id TEXT NOT NULL REFERENCES vacancies (id),
+    company_name TEXT,
+    inn TEXT,
+    source_link TEXT,
+    PRIMARY KEY (run_id, vacancy_id)
+  );
+
+  CREATE TABLE contacts (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    source_type TEXT NOT NULL,
+    source_id TEXT NOT NULL,
+    run_id TEXT REFERENCES search_runs (id) ON DELETE SET NULL,
+    full_name TEXT,
+    email TEXT,
+    phone TEXT,
+    phone_comment TEXT,
+    fetched_at TEXT NOT NULL
+  );
+  CREATE INDEX contacts_source ON contacts (source_type, source_id, fetched_at);
+  `,
+  `
+  CREATE TABLE settings (
+    owner_id TEXT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (owner_id, key)
+  );
+  `,
+  `
+  CREATE TABLE hh_cache (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL,
+    fetched_at TEXT NOT NULL
+  );
+  `,
+  `
+  ALTER TABLE resumes ADD COLUMN person_key TEXT;
+  CREATE INDEX resumes_person_key ON resumes (person_key);
+  `,
+  `
+  CREATE TABLE uploads (
+    id TEXT PRIMARY KEY,
+    owner_id TEXT NOT NULL,
+    filename TEXT NOT NULL,
+    worksheets TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX uploads_owner ON uploads (owner_id, created_at);
+  `,
+  `
+  CREATE TABLE employer_decisions (
+    owner_id TEXT NOT NULL,
+    company TEXT NOT NULL,
+    employer_id TEXT NOT NULL,
+    employer_name TEXT,
+    status TEXT NOT NULL,
+    updated_at TEXT NOT NULL,
+    PRIMARY KEY (owner_id, company, employer_id)
+  );
+  `,
+  `
+  CREATE TABLE inn_registry (
+    inn TEXT PRIMARY KEY,
+    legal_name TEXT NOT NULL,
+    short_name TEXT,
+    brands TEXT NOT NULL,
+    source TEXT,
+    imported_at TEXT NOT NULL
+  );
+  ALTER TABLE run_vacancies ADD COLUMN inn_check TEXT;
+  ALTER TABLE run_vacancies ADD COLUMN registry_name TEXT;
+  `,
+  `
+  CREATE TABLE hh_sessions (
+    access_token TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX hh_sessions_user ON hh_sessions (user_id);
+  `,
+  `
+  CREATE TABLE run_companies (
+    run_id TEXT NOT NULL REFERENCES search_runs (id) ON DELETE CASCADE,
+    position INTEGER NOT NULL,
+    company TEXT NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL,
+    PRIMARY KEY (run_id, position)
+  );
+  `,
+  // Resume payloads move from the shared resumes row to the run that fetched them
+  `
+  ALTER TABLE run_resumes ADD COLUMN data TEXT;
+  UPDATE run_resumes SET data = (SELECT data FROM resumes WHERE resumes.id = run_resumes.resume_id);
+  ALTER TABLE resumes DROP COLUMN data;
+  `,
+  // Sessions are keyed by a hash of the token and keep the token only encrypted
+  `
+  DROP TABLE hh_sessions;
+  CREATE TABLE hh_sessions (
+    token_hash TEXT PRIMARY KEY,
+    user_id TEXT NOT NULL,
+    encrypted_token TEXT,
+    created_at TEXT NOT NULL
+  );
+  CREATE INDEX hh_sessions_user ON hh_sessions (user_id);
+  CREATE INDEX hh_sessions_created ON hh_sessions (created_at);
+  `,
+  // Chunk leases move out of the job files, where claiming them wasn't atomic
+  `
+  CREATE TABLE job_leases (
+    job_id TEXT PRIMARY KEY,
+    holder TEXT NOT NULL,
+    lease_until INTEGER NOT NULL
+  );
+  `
+];
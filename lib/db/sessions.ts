@@ -0,0 +1,89 @@
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from 'crypto';
+import { getDb } from './client';
+
+// HH.ru access tokens live two weeks from when they are issued, which is before they are first
+// seen here; older sessions can't be used or revoked any more
+const SESSION_TTL_MS = 14 * 24 * 60 * 60 * 1000;
+
+// Sessions seen per HH.ru user, shared by every instance using this database, so "log out
+// everywhere" reaches the user's other browsers wherever they were last served. Rows are keyed
+// by a hash of the token; the token itself is only kept encrypted, to revoke it at HH.ru.
+
+function tokenHash(accessToken: string): string {
+  return createHash('sha256').update(accessToken).digest('hex');
+}
+
+// SESSION_SECRET, or the OAuth client secret every deployment already has. Without either
+// the tokens aren't kept, and "log out everywhere" only ends the current session.
+function encryptionKey(): Buffer | null {
+  const secret = process.env.SESSION_SECRET || process.env.HH_CLIENT_SECRET;
+  return secret ? createHash('sha256').update(`hh-sessions:${secret}`).digest() : null;
+}
+
+function encryptToken(accessToken: string): string | null {
+  const key = encryptionKey();
+  if (!key) return null;
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const encrypted = Buffer.concat([cipher.update(accessToken, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map(part => part.toString('base64url')).join('.');
+}
+
+// null when the secret changed since the token was stored
+function decryptToken(value: string): string | null {
+  const key = encryptionKey();
+  const [iv, tag, encrypted] = value.split('.').map(part => Buffer.from(part, 'base64url'));
+  if (!key || !iv || !tag || !encrypted) return null;
+  try {
+    const decipher = createDecipheriv('aes-256-gcm', key, iv);
+    decipher.setAuthTag(tag);
+    return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString('utf8');
+  } catch {
+    return null;
+  }
+}
+
+function pruneExpiredSessions() {
+  getDb()
+    .prepare('DELETE FROM hh_sessions WHERE created_at < ?')
+    .run(new Date(Date.now() - SESSION_TTL_MS).toISOString());
+}
+
+export function registerSession(userId: string, accessToken: string) {
+  pruneExpiredSessions();
+  getDb()
+    .prepare('INSERT OR IGNORE INTO hh_sessions (token_hash, user_id, encrypted_token, created_at) VALUES (?, ?, ?, ?)')
+    .run(tokenHash(accessToken), userId, encryptToken(accessToken), new Date().toISOString());
+}
+
+export function findSessionUser(accessToken: string): string | null {
+  const row = getDb()
+    .prepare('SELECT user_id FROM hh_sessions WHERE token_hash = ? AND created_at >= ?')
+    .get(tokenHash(accessToken), new Date(Date.now() - SESSION_TTL_MS).toISOString()) as { user_id: string } | undefined;
+  return row ? row.user_id : null;
+}
+
+// The user's tokens that can still be revoked; rows whose token can't be read are dropped
+export function getUserSessions(userId: string): string[] {
+  pruneExpiredSessions();
+  const db = getDb();
+  const rows = db
+    .prepare('SELECT token_hash, encrypted_token FROM hh_sessions WHERE user_id = ?')
+    .all(userId) as { token_hash: string; encrypted_token: string | null }[];
+
+  const tokens: string[] = [];
+  const forget = db.prepare('DELETE FROM hh_sessions WHERE token_hash = ?');
+  rows.forEach(row => {
+    const token = row.encrypted_token ? decryptToken(row.encrypted_token) : null;
+    if (token) {
+      tokens.push(token);
+    } else {
+      forget.run(row.token_hash);
+    }
+  });
+  return tokens;
+}
+
+export function forgetSession(accessToken: string) {
+  getDb().prepare('DELETE FROM hh_sessions WHERE token_hash = ?').run(tokenHash(accessToken));
+}
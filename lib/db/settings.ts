@@ -0,0 +1,22 @@
+import { fromJson, getDb, toJson } from './client';
+
+// Per-user settings stored as JSON values
+export function getSetting<T>(ownerId: string, key: string): T | null {
+  const row = getDb()
+    .prepare('SELECT value FROM settings WHERE owner_id = ? AND key = ?')
+    .get(ownerId, key) as { value: string } | undefined;
+  return row ? fromJson<T>(row.value) : null;
+}
+
+export function setSetting(ownerId: string, key: string, value: unknown) {
+  getDb()
+    .prepare(`
+      INSERT INTO settings (owner_id, key, value, updated_at) VALUES (?, ?, ?, ?)
+      ON CONFLICT (owner_id, key) DO UPDATE SET value = excluded.value, updated_at = excluded.updated_at
+    `)
+    .run(ownerId, key, toJson(value), new Date().toISOString());
+}
+
+export function deleteSetting(ownerId: string, key: string) {
+  getDb().prepare('DELETE FROM settings WHERE owner_id = ? AND key = ?').run(ownerId, key);
+}
@@ -0,0 +1,46 @@
+import { v4 as uuidv4 } from 'uuid';
+import { fromJson, getDb, toJson } from './client';
+
+export interface UploadedWorksheet {
+  title: string;
+  // All rows, header first
+  rows: string[][];
+}
+
+// An XLSX/CSV file uploaded as a tool's input instead of a Google Sheet. Kept after the run,
+// so a resumed job reads the same rows again.
+export interface StoredUpload {
+  id: string;
+  ownerId: string;
+  filename: string;
+  worksheets: UploadedWorksheet[];
+  createdAt: string;
+}
+
+interface UploadRow {
+  id: string;
+  owner_id: string;
+  filename: string;
+  worksheets: string;
+  created_at: string;
+}
+
+export function saveUpload(ownerId: string, filename: string, worksheets: UploadedWorksheet[]): StoredUpload {
+  const upload: StoredUpload = { id: uuidv4(), ownerId, filename, worksheets, createdAt: new Date().toISOString() };
+  getDb()
+    .prepare('INSERT INTO uploads (id, owner_id, filename, worksheets, created_at) VALUES (?, ?, ?, ?, ?)')
+    .run(upload.id, ownerId, filename, toJson(worksheets), upload.createdAt);
+  return upload;
+}
+
+export function getUpload(id: string): StoredUpload | null {
+  const row = getDb().prepare('SELECT * FROM uploads WHERE id = ?').get(id) as UploadRow | undefined;
+  if (!row) return null;
+  return {
+    id: row.id,
+    ownerId: row.owner_id,
+    filename: row.filename,
+    worksheets: fromJson(row.worksheets),
+    createdAt: row.created_at
+  };
+}
@@ -0,0 +1,64 @@
+import type { HHVacancy } from '@/lib/hh';
+import { fromJson, getDb, toJson } from './client';
+
+export interface RunVacancy {
+  vacancy: HHVacancy;
+  companyName?: string;
+  inn?: string;
+  sourceLink?: string;
+  // How the vacancy's employer compares with the row's INN (see checkVacancyInn)
+  innCheck?: string;
+  registryName?: string;
+}
+
+export function saveRunVacancies(runId: string, vacancies: RunVacancy[]) {
+  const db = getDb();
+  const now = new Date().toISOString();
+  const upsertVacancy = db.prepare(`
+    INSERT INTO vacancies (id, employer_id, employer_name, data, first_seen_at, last_seen_at) VALUES (?, ?, ?, ?, ?, ?)
+    ON CONFLICT (id) DO UPDATE SET
+      employer_id = excluded.employer_id,
+      employer_name = excluded.employer_name,
+      data = excluded.data,
+      last_seen_at = excluded.last_seen_at
+  `);
+  const link = db.prepare(`
+    INSERT INTO run_vacancies (run_id, vacancy_id, company_name, inn, source_link, inn_check, registry_name)
+    VALUES (?, ?, ?, ?, ?, ?, ?)
+    ON CONFLICT (run_id, vacancy_id) DO NOTHING
+  `);
+
+  db.transaction(() => {
+    vacancies.forEach(({ vacancy, companyName, inn, sourceLink, innCheck, registryName }) => {
+      upsertVacancy.run(vacancy.id, vacancy.employer?.id ?? null, vacancy.employer?.name ?? null, toJson(vacancy), now, now);
+      link.run(runId, vacancy.id, companyName ?? null, inn ?? null, sourceLink ?? null, innCheck ?? null, registryName ?? null);
+    });
+  })();
+}
+
+export function getRunVacancies(runId: string): RunVacancy[] {
+  const rows = getDb()
+    .prepare(`
+      SELECT v.data, rv.company_name, rv.inn, rv.source_link, rv.inn_check, rv.registry_name
+      FROM run_vacancies rv JOIN vacancies v ON v.id = rv.vacancy_id
+      WHERE rv.run_id = ?
+      ORDER BY rv.rowid
+    `)
+    .all(runId) as {
+      data: string;
+      company_name: string | null;
+      inn: string | null;
+      source_link: string | null;
+      inn_check: string | null;
+      registry_name: string | null;
+    }[];
+
+  return rows.map(row => ({
+    vacancy: fromJson<HHVacancy>(row.data),
+    companyName: row.company_name ?? undefined,
+    inn: row.inn ?? undefined,
+    sourceLink: row.source_link ?? undefined,
+    innCheck: row.inn_check ?? undefined,
+    registryName: row.registry_name ?? undefined
+  }));
+}
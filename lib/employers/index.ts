@@ -0,0 +1,16 @@
+export { findEmployerCandidates, getEmployerDetails, loadEmployerIdSources } from './review';
+export type { CompanyReviewItem, EmployerCandidate } from './review';
+export {
+  checkVacancyInn,
+  createInnResolver,
+  parseInnRegistry,
+  registryNames
+} from './inn';
+export type {
+  InnCheck,
+  InnEmployer,
+  InnMatchMethod,
+  InnRegistryImport,
+  InnResolution,
+  InnResolver
+} from './inn';
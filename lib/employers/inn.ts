@@ -0,0 +1,146 @@
+import { isValidInn, normalizeInn, type CompanyNormalizer, type InnCheckStatus } from '@/lib/companyNames';
+import { getCached, getInnRecord, type InnRecord, type UploadedWorksheet } from '@/lib/db';
+import type { HHClient, HHEmployer, HHVacancy } from '@/lib/hh';
+import { detectColumns, readCell, resolveColumns } from '@/lib/sheets/columns';
+import { INN_REGISTRY_SCHEMA } from '@/lib/sheets/schemas';
+
+const SEARCH_PER_PAGE = 20;
+// HH employers rarely change their names
+const SEARCH_CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+export interface InnRegistryImport {
+  records: Omit<InnRecord, 'importedAt'>[];
+  // Rows without a valid INN or a name
+  skipped: number;
+}
+
+// Reads the registry from the first worksheet of the file that has the INN and name columns
+export function parseInnRegistry(filename: string, worksheets: UploadedWorksheet[]): InnRegistryImport {
+  const worksheet = worksheets.find(sheet => detectColumns(INN_REGISTRY_SCHEMA, sheet.rows[0] || []).missing.length === 0)
+    || worksheets[0];
+  const mapping = resolveColumns(INN_REGISTRY_SCHEMA, worksheet.rows[0] || []);
+
+  const records = new Map<string, Omit<InnRecord, 'importedAt'>>();
+  let skipped = 0;
+  worksheet.rows.slice(1).forEach(row => {
+    const inn = normalizeInn(readCell(row, mapping, 'inn'));
+    const legalName = readCell(row, mapping, 'legalName');
+    if (!isValidInn(inn) || !legalName) {
+      if (row.some(cell => cell.trim())) skipped++;
+      return;
+    }
+    records.set(inn, {
+      inn,
+      legalName,
+      shortName: readCell(row, mapping, 'shortName') || null,
+      brands: readCell(row, mapping, 'brands').split(/[;,\n]/).map(brand => brand.trim()).filter(Boolean),
+      source: filename
+    });
+  });
+  return { records: Array.from(records.values()), skipped };
+}
+
+export type InnMatchMethod = 'inn' | 'registry_name';
+
+export interface InnEmployer {
+  id: string;
+  name: string;
+  // Found by searching HH for the INN itself, or by a registry name of the company
+  method: InnMatchMethod;
+}
+
+export interface InnResolution {
+  inn: string;
+  valid: boolean;
+  record: InnRecord | null;
+  employers: InnEmployer[];
+}
+
+// Every name the registry knows the company by
+export function registryNames(record: InnRecord | null): string[] {
+  if (!record) return [];
+  return Array.from(new Set([record.legalName, record.shortName || '', ...record.brands].filter(Boolean)));
+}
+
+type FoundEmployer = Pick<HHEmployer, 'id' | 'name'>;
+
+// The raw HH results are cached by search text and shared by every user; each user's matching
+// rules filter them after the lookup
+function searchEmployersCached(client: HHClient, text: string): Promise<FoundEmployer[]> {
+  return getCached(`hh:employers:${text}`, SEARCH_CACHE_TTL_MS, async () => {
+    const found = await client.searchEmployers({ text, per_page: SEARCH_PER_PAGE });
+    return (found.items || []).map(({ id, name }) => ({ id, name }));
+  });
+}
+
+async function searchInnEmployers(
+  client: HHClient,
+  inn: string,
+  record: InnRecord | null,
+  normalizer: CompanyNormalizer
+): Promise<InnEmployer[]> {
+  const employers = new Map<string, InnEmployer>();
+  const add = (items: FoundEmployer[], method: InnMatchMethod) => items.forEach(employer => {
+    if (!employers.has(employer.id)) employers.set(employer.id, { id: employer.id, name: employer.name, method });
+  });
+
+  // HH's employer search finds an employer by INN when it was given at registration
+  add(await searchEmployersCached(client, inn), 'inn');
+
+  // Otherwise the registry names are searched and only close matches are kept
+  const names = registryNames(record);
+  for (const name of names) {
+    const found = await searchEmployersCached(client, name);
+    add(found.filter(employer => normalizer.bestMatch(employer.name, names)), 'registry_name');
+  }
+  return Array.from(employers.values());
+}
+
+// INN is the primary key of a company: the HH employers behind it come from HH's own INN
+// search and from the names in the local registry. HH searches are cached, so a preview's
+// pages and a resumed job don't search again.
+export function createInnResolver(client: HHClient, normalizer: CompanyNormalizer) {
+  const resolved = new Map<string, Promise<InnResolution>>();
+
+  const resolve = async (inn: string): Promise<InnResolution> => {
+    const record = getInnRecord(inn);
+    if (!isValidInn(inn)) {
+      return { inn, valid: false, record, employers: [] };
+    }
+    return { inn, valid: true, record, employers: await searchInnEmployers(client, inn, record, normalizer) };
+  };
+
+  return (value: string): Promise<InnResolution> => {
+    const inn = normalizeInn(value);
+    if (!resolved.has(inn)) resolved.set(inn, resolve(inn));
+    return resolved.get(inn) as Promise<InnResolution>;
+  };
+}
+
+export type InnResolver = ReturnType<typeof createInnResolver>;
+
+export interface InnCheck {
+  status: InnCheckStatus;
+  // Registry name the vacancy's employer was compared with
+  registryName: string | null;
+}
+
+// Whether the employer of a vacancy link is the company of the row's INN. Nothing to compare
+// with (no registry record, no employer found by INN) is "unknown", not a mismatch.
+export function checkVacancyInn(vacancy: HHVacancy, resolution: InnResolution, normalizer: CompanyNormalizer): InnCheck {
+  const registryName = resolution.record?.legalName || null;
+  if (!resolution.valid) return { status: 'invalid', registryName };
+
+  const employer = vacancy.employer;
+  if (employer?.id && resolution.employers.some(candidate => candidate.id === employer.id)) {
+    return { status: 'match', registryName };
+  }
+  const names = registryNames(resolution.record);
+  if (employer?.name && names.length > 0 && normalizer.bestMatch(employer.name, names)) {
+    return { status: 'match', registryName };
+  }
+  if (names.length === 0 && resolution.employers.length === 0) {
+    return { status: 'unknown', registryName };
+  }
+  return { status: 'mismatch', registryName };
+}
@@ -0,0 +1,144 @@
+import type { CompanyNormalizer } from '@/lib/companyNames';
+import { getCached, getEmployerDecisions, type EmployerDecision } from '@/lib/db';
+import { getMaxConcurrency, isHHApiError, isSessionExpiredError, mapWithConcurrency, type HHClient, type HHEmployer } from '@/lib/hh';
+import { fetchValidatedCompanies, type CompanyRow, type ValidatedCompany } from '@/lib/resumeSearch';
+import type { InnEmployer, InnResolver } from './inn';
+import type { SheetInput } from '@/lib/sheets/source';
+
+const SEARCH_PER_PAGE = 20;
+// Details (area, site) are only fetched for the candidates worth showing
+const MAX_CANDIDATES = 10;
+const EMPLOYER_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// One HH employer offered for an input company in the company review
+export interface EmployerCandidate {
+  id: string;
+  name: string;
+  url: string;
+  area: string | null;
+  openVacancies: number | null;
+  logoUrl: string | null;
+  siteUrl: string | null;
+  // Name similarity to the input company, 0..1
+  score: number;
+  // The employer was resolved from the company's INN (HH's INN search or the INN registry)
+  innMatch: boolean;
+}
+
+export interface CompanyReviewItem {
+  // Cleaned name the company is searched and remembered by
+  company: string;
+  // Input names merged into it
+  companies: string[];
+  inn: string | null;
+  candidates: EmployerCandidate[];
+  decisions: EmployerDecision[];
+}
+
+function toCandidate(employer: HHEmployer, score: number, innMatch: boolean): EmployerCandidate {
+  return {
+    id: employer.id,
+    name: employer.name,
+    url: employer.alternate_url || `https://hh.ru/employer/${employer.id}`,
+    area: employer.area?.name || null,
+    openVacancies: typeof employer.open_vacancies === 'number' ? employer.open_vacancies : null,
+    logoUrl: employer.logo_urls?.['90'] || employer.logo_urls?.original || null,
+    siteUrl: employer.site_url || null,
+    score,
+    innMatch
+  };
+}
+
+export function getEmployerDetails(client: HHClient, employerId: string): Promise<HHEmployer> {
+  return getCached(`hh:employer:${employerId}`, EMPLOYER_CACHE_TTL_MS, () => client.getEmployer(employerId));
+}
+
+// Candidates for one company, best first: INN matches, then name similarity, then the
+// employer with more open vacancies. Employers confirmed earlier are always kept.
+export async function findEmployerCandidates(
+  client: HHClient,
+  company: string,
+  normalizer: CompanyNormalizer,
+  options: { innEmployers?: InnEmployer[]; decisions?: EmployerDecision[] } = {}
+): Promise<EmployerCandidate[]> {
+  const { innEmployers = [], decisions = [] } = options;
+  const byName = await client.searchEmployers({ text: company, per_page: SEARCH_PER_PAGE });
+  const innIds = new Set(innEmployers.map(employer => employer.id));
+
+  // Employers resolved from the INN only have a name until their details are fetched
+  const employers = new Map<string, HHEmployer>();
+  [...innEmployers.map(({ id, name }) => ({ id, name })), ...(byName.items || [])].forEach(employer => {
+    if (!employers.has(employer.id)) employers.set(employer.id, employer);
+  });
+
+  const ranked = Array.from(employers.values())
+    .map(employer => toCandidate(employer, normalizer.score(company, employer.name), innIds.has(employer.id)))
+    .sort((a, b) =>
+      Number(b.innMatch) - Number(a.innMatch)
+      || b.score - a.score
+      || (b.openVacancies || 0) - (a.openVacancies || 0)
+    );
+
+  const confirmed = decisions.filter(decision => decision.status === 'confirmed').map(decision => decision.employerId);
+  const top = ranked.slice(0, MAX_CANDIDATES);
+  const missing = confirmed.filter(id => !top.some(candidate => candidate.id === id));
+  top.push(...ranked.filter(candidate => missing.includes(candidate.id)));
+
+  const candidates = await Promise.all(top.map(async candidate => {
+    try {
+      const details = await getEmployerDetails(client, candidate.id);
+      return { ...toCandidate(details, candidate.score, candidate.innMatch), openVacancies: candidate.openVacancies ?? details.open_vacancies ?? null };
+    } catch (error) {
+      console.error(`Failed to fetch employer ${candidate.id}:`, error);
+      return candidate;
+    }
+  }));
+
+  // Confirmed employers the search no longer returns (e.g. added by id)
+  const notFound = missing.filter(id => !candidates.some(candidate => candidate.id === id));
+  for (const id of notFound) {
+    try {
+      const details = await getEmployerDetails(client, id);
+      candidates.push(toCandidate(details, normalizer.score(company, details.name), false));
+    } catch (error) {
+      console.error(`Failed to fetch confirmed employer ${id}:`, error);
+    }
+  }
+  return candidates;
+}
+
+// Employer ids resolved from the INNs of the input rows, as if they were validated
+async function resolveRowInns(rows: CompanyRow[], resolveInn: InnResolver): Promise<ValidatedCompany[]> {
+  const withInn = rows.filter(row => row.inn);
+  const resolved = await mapWithConcurrency(withInn, getMaxConcurrency(), async row => {
+    try {
+      const { employers } = await resolveInn(row.inn);
+      return { name: row.name, employerIds: employers.map(employer => employer.id) };
+    } catch (error) {
+      if (isSessionExpiredError(error) || !isHHApiError(error)) throw error;
+      console.error(`Failed to resolve INN ${row.inn} of "${row.name}":`, error);
+      return { name: row.name, employerIds: [] };
+    }
+  });
+  return resolved.filter(company => company.employerIds.length > 0);
+}
+
+// What the resume search needs to match by employer id: the Company_Validation ids, the ids
+// resolved from the input's INNs and the user's review decisions. A missing validation
+// worksheet is fine once there are ids from the other two.
+export async function loadEmployerIdSources(
+  input: SheetInput,
+  ownerId: string,
+  inns?: { rows: CompanyRow[]; resolveInn: InnResolver }
+): Promise<{ validated: ValidatedCompany[]; decisions: EmployerDecision[]; fromInn: number }> {
+  const decisions = getEmployerDecisions(ownerId);
+  const fromInn = inns ? await resolveRowInns(inns.rows, inns.resolveInn) : [];
+  let validated: ValidatedCompany[] = [];
+  try {
+    validated = await fetchValidatedCompanies(input);
+  } catch (error) {
+    if (fromInn.length === 0 && !decisions.some(decision => decision.status === 'confirmed')) throw error;
+    console.error('Company_Validation not readable, using reviewed and INN-resolved employers only:', error);
+  }
+  return { validated: [...fromInn, ...validated], decisions, fromInn: fromInn.length };
+}
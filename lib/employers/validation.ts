@@ -0,0 +1,136 @@
+import type { CompanyNormalizer } from '@/lib/companyNames';
+import type { HHClient, HHEmployer } from '@/lib/hh';
+import type { OutputTable } from '@/lib/output';
+
+// HH returns at most 100 employers per page; five pages is more than any real name needs
+const PER_PAGE = 100;
+const MAX_PAGES = 5;
+
+export interface EmployerSearchFilters {
+  // Skip employers that aren't hiring right now
+  onlyWithVacancies: boolean;
+  // HH area ids; empty = everywhere
+  areas: string[];
+}
+
+export const DEFAULT_EMPLOYER_SEARCH_FILTERS: EmployerSearchFilters = { onlyWithVacancies: false, areas: [] };
+
+export function parseEmployerSearchFilters(input: unknown): EmployerSearchFilters {
+  if (input === undefined || input === null) return DEFAULT_EMPLOYER_SEARCH_FILTERS;
+  if (typeof input !== 'object' || Array.isArray(input)) throw new Error('filters must be an object');
+  const { onlyWithVacancies, areas } = input as Record<string, unknown>;
+  if (areas !== undefined && (!Array.isArray(areas) || areas.some(area => !/^\d+$/.test(String(area))))) {
+    throw new Error('filters.areas must be a list of HH area ids');
+  }
+  return {
+    onlyWithVacancies: onlyWithVacancies === true,
+    areas: ((areas as unknown[] | undefined) || []).map(String)
+  };
+}
+
+// Every page of /employers?text= up to MAX_PAGES
+export async function searchAllEmployers(client: HHClient, text: string, filters: EmployerSearchFilters): Promise<HHEmployer[]> {
+  const employers: HHEmployer[] = [];
+  for (let page = 0; page < MAX_PAGES; page++) {
+    const data = await client.searchEmployers({
+      text,
+      page,
+      per_page: PER_PAGE,
+      only_with_vacancies: filters.onlyWithVacancies || undefined,
+      area: filters.areas.length > 0 ? filters.areas : undefined
+    });
+    employers.push(...(data.items || []));
+    if (page + 1 >= data.pages) break;
+  }
+  return employers;
+}
+
+// error: the HH lookup failed, so whether the company is on HH is unknown
+export type CompanyValidationStatus = 'found' | 'ambiguous' | 'not_found' | 'error';
+
+export const VALIDATION_STATUS_LABELS: Record<CompanyValidationStatus, string> = {
+  found: 'Found exactly one',
+  ambiguous: 'Ambiguous',
+  not_found: 'Not found',
+  error: 'Lookup failed'
+};
+
+export interface RankedEmployer {
+  id: string;
+  name: string;
+  url: string;
+  openVacancies: number | null;
+  score: number;
+}
+
+export interface CompanyValidation {
+  company: string;
+  status: CompanyValidationStatus;
+  // Employers at or above the match threshold, best first; the best one for "found"
+  matches: RankedEmployer[];
+  // Why the lookup failed, for "error"
+  error?: string;
+}
+
+// Scores HH's results against the company name. One employer above the threshold, or one
+// exact name among several, is a find; several close names are left for the company review.
+export function classifyCompany(company: string, employers: HHEmployer[], normalizer: CompanyNormalizer): CompanyValidation {
+  const matches = employers
+    .map(employer => ({
+      id: employer.id,
+      name: employer.name,
+      url: employer.alternate_url || `https://hh.ru/employer/${employer.id}`,
+      openVacancies: typeof employer.open_vacancies === 'number' ? employer.open_vacancies : null,
+      score: normalizer.score(company, employer.name)
+    }))
+    .filter(employer => employer.score >= normalizer.rules.threshold)
+    .sort((a, b) => b.score - a.score || (b.openVacancies || 0) - (a.openVacancies || 0));
+
+  const exact = matches.filter(employer => employer.score === 1);
+  if (matches.length === 1 || exact.length === 1) {
+    return { company, status: 'found', matches: matches.length === 1 ? matches : exact };
+  }
+  return { company, status: matches.length > 1 ? 'ambiguous' : 'not_found', matches };
+}
+
+export type ValidationSummary = Record<CompanyValidationStatus, number>;
+
+export function summarizeValidation(results: CompanyValidation[]): ValidationSummary {
+  const summary: ValidationSummary = { found: 0, ambiguous: 0, not_found: 0, error: 0 };
+  results.forEach(result => summary[result.status]++);
+  return summary;
+}
+
+export const COMPANY_VALIDATION_SHEET = 'Company_Validation';
+
+// One row per candidate employer. "Found" stays Yes/No as resume searches read it; ambiguous
+// candidates are marked so they aren't used until one is confirmed (or the cell set to Yes).
+export function toValidationTable(results: CompanyValidation[]): OutputTable {
+  const found = { found: 'Yes', ambiguous: 'Ambiguous', not_found: 'No', error: 'Error' };
+  return {
+    name: COMPANY_VALIDATION_SHEET,
+    headers: ['Original Name', 'HH.ru Name', 'HH ID', 'URL', 'Found', 'Status', 'Score', 'Open Vacancies'],
+    rows: results.flatMap(result => result.matches.length === 0
+      // A failed lookup shows its error where the HH name would be
+      ? [[result.company, result.status === 'error' ? result.error || '' : 'Not found', 'N/A', 'N/A', found[result.status], VALIDATION_STATUS_LABELS[result.status], '', '']]
+      : result.matches.map(employer => [
+        result.company,
+        employer.name,
+        employer.id,
+        employer.url,
+        found[result.status],
+        VALIDATION_STATUS_LABELS[result.status],
+        employer.score.toFixed(2),
+        employer.openVacancies ?? ''
+      ]))
+  };
+}
+
+export function toValidationSummaryTable(summary: ValidationSummary): OutputTable {
+  return {
+    name: `${COMPANY_VALIDATION_SHEET}_Summary`,
+    headers: ['Category', 'Companies'],
+    rows: (Object.keys(VALIDATION_STATUS_LABELS) as CompanyValidationStatus[])
+      .map(status => [VALIDATION_STATUS_LABELS[status], summary[status]])
+  };
+}
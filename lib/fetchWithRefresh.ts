@@ -0,0 +1,39 @@
+// Browser-side fetch wrapper: when an API route answers 401 (expired HH.ru token), asks
+// /api/oauth-refresh to rotate the token cookies and retries the original request once.
+// Expired access cookies are normally refreshed by the middleware before the route runs; this
+// covers the rest. HH.ru refresh tokens are single-use, so refreshes are shared within the tab
+// and run one at a time across tabs.
+const REFRESH_LOCK = 'hh-oauth-refresh';
+let refreshInFlight: Promise<boolean> | null = null;
+
+const requestRefresh = () => fetch('/api/oauth-refresh', { method: 'POST' })
+  .then(response => response.ok)
+  .catch(() => false);
+
+// Also used directly by streaming callers, whose 401 arrives inside an already-open stream
+export function refreshSession(): Promise<boolean> {
+  if (!refreshInFlight) {
+    // The lock is held until the rotated cookies are stored, so a waiting tab sends the new token
+    const refresh = typeof navigator !== 'undefined' && navigator.locks
+      ? navigator.locks.request(REFRESH_LOCK, requestRefresh)
+      : requestRefresh();
+    refreshInFlight = refresh.finally(() => {
+      refreshInFlight = null;
+    });
+  }
+  return refreshInFlight;
+}
+
+export async function fetchWithRefresh(input: RequestInfo | URL, init?: RequestInit): Promise<Response> {
+  const response = await fetch(input, init);
+  if (response.status !== 401) {
+    return response;
+  }
+
+  const refreshed = await refreshSession();
+  if (!refreshed) {
+    return response;
+  }
+
+  return fetch(input, init);
+}
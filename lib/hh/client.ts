@@ -0,0 +1,236 @@
+import { HHApiError } from './errors';
+import { createCallMetrics, type HHCallMetrics } from './metrics';
+import { getRateLimiter, type RateLimiter } from './rateLimiter';
+import { computeBackoffMs, getDefaultRetryPolicy, isRetryableError, type RetryPolicy } from './retry';
+import type {
+  HHAreaNode,
+  HHDictionaries,
+  HHEmployer,
+  HHIdName,
+  HHMe,
+  HHPaginated,
+  HHPayableAction,
+  HHQuery,
+  HHResume,
+  HHResumeSearchResponse,
+  HHVacancy
+} from './types';
+
+export const DEFAULT_HH_API_BASE_URL = 'https://api.hh.ru';
+const DEFAULT_USER_AGENT = 'hh-resume-app/1.0';
+const DEFAULT_TIMEOUT_MS = 15000;
+
+export interface HHClientOptions {
+  accessToken?: string | null;
+  baseUrl?: string;
+  userAgent?: string;
+  timeoutMs?: number;
+  // Counters for this client's calls; pass a shared object to aggregate several clients into one job
+  metrics?: HHCallMetrics;
+  retryPolicy?: Partial<RetryPolicy>;
+  // Defaults to the process-wide limiter for this access token
+  limiter?: RateLimiter;
+}
+
+export interface HHRequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  query?: HHQuery;
+  body?: BodyInit;
+  headers?: Record<string, string>;
+  timeoutMs?: number;
+  // false for calls that must not be sent twice, e.g. ones that spend a paid action
+  retry?: boolean;
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function getHHApiBaseUrl(): string {
+  return (process.env.HH_API_BASE_URL || DEFAULT_HH_API_BASE_URL).replace(/\/+$/, '');
+}
+
+export function buildQueryString(query: HHQuery = {}): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(query)) {
+    if (value === undefined || value === null || value === '') continue;
+    if (Array.isArray(value)) {
+      value.forEach(item => params.append(key, String(item)));
+    } else {
+      params.append(key, String(value));
+    }
+  }
+  return params.toString();
+}
+
+export class HHClient {
+  readonly baseUrl: string;
+  private readonly accessToken?: string | null;
+  private readonly userAgent: string;
+  private readonly timeoutMs: number;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly limiter: RateLimiter;
+  readonly metrics: HHCallMetrics;
+
+  constructor(options: HHClientOptions = {}) {
+    this.baseUrl = (options.baseUrl || getHHApiBaseUrl()).replace(/\/+$/, '');
+    this.accessToken = options.accessToken;
+    this.userAgent = options.userAgent || process.env.HH_USER_AGENT || DEFAULT_USER_AGENT;
+    this.timeoutMs = options.timeoutMs || DEFAULT_TIMEOUT_MS;
+    this.retryPolicy = { ...getDefaultRetryPolicy(), ...options.retryPolicy };
+    this.limiter = options.limiter || getRateLimiter(options.accessToken);
+    this.metrics = options.metrics || createCallMetrics();
+  }
+
+  // Accepts either a path relative to the base URL or an absolute URL returned by the API
+  // (e.g. `actions.get_with_contact.url`).
+  buildUrl(pathOrUrl: string, query?: HHQuery): string {
+    const base = /^https?:\/\//.test(pathOrUrl) ? pathOrUrl : `${this.baseUrl}${pathOrUrl.startsWith('/') ? '' : '/'}${pathOrUrl}`;
+    const queryString = buildQueryString(query);
+    if (!queryString) return base;
+    return `${base}${base.includes('?') ? '&' : '?'}${queryString}`;
+  }
+
+  // Sends the request through the shared limiter, retrying throttled and transient failures
+  async request<T>(pathOrUrl: string, options: HHRequestOptions = {}): Promise<T> {
+    const url = this.buildUrl(pathOrUrl, options.query);
+
+    for (let attempt = 0; ; attempt++) {
+      this.metrics.requests++;
+      try {
+        const { result, waitedMs } = await this.limiter.schedule(() => this.send<T>(url, options));
+        this.metrics.waitedMs += waitedMs;
+        this.metrics.succeeded++;
+        return result;
+      } catch (error) {
+        const retryAfterMs = error instanceof HHApiError ? error.retryAfterMs : undefined;
+        if (error instanceof HHApiError && error.status === 429) {
+          this.metrics.throttled++;
+          if (retryAfterMs !== undefined) {
+            this.limiter.pause(Date.now() + retryAfterMs);
+          }
+        }
+
+        if (options.retry === false || attempt >= this.retryPolicy.maxRetries || !isRetryableError(error)) {
+          this.metrics.failed++;
+          throw error;
+        }
+
+        const backoffMs = computeBackoffMs(attempt, this.retryPolicy, retryAfterMs);
+        this.metrics.retried++;
+        this.metrics.waitedMs += backoffMs;
+        await delay(backoffMs);
+      }
+    }
+  }
+
+  private async send<T>(url: string, options: HHRequestOptions): Promise<T> {
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'User-Agent': this.userAgent,
+      'HH-User-Agent': this.userAgent,
+      ...options.headers
+    };
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(url, {
+        method: options.method || 'GET',
+        headers,
+        body: options.body,
+        signal: AbortSignal.timeout(options.timeoutMs || this.timeoutMs),
+        cache: 'no-store'
+      });
+    } catch (error) {
+      const reason = error instanceof Error && error.name === 'TimeoutError' ? 'timed out' : 'failed';
+      throw new HHApiError(`HH API request ${reason}: ${error instanceof Error ? error.message : String(error)}`, {
+        status: 0,
+        url
+      });
+    }
+
+    if (!response.ok) {
+      throw await HHApiError.fromResponse(response, url);
+    }
+
+    if (response.status === 204) {
+      return undefined as T;
+    }
+
+    const text = await response.text();
+    try {
+      return (text ? JSON.parse(text) : undefined) as T;
+    } catch {
+      throw new HHApiError(`HH API returned invalid JSON: ${text.slice(0, 200)}`, {
+        status: response.status,
+        url,
+        requestId: response.headers.get('x-request-id') || undefined
+      });
+    }
+  }
+
+  searchResumes(query: HHQuery): Promise<HHResumeSearchResponse> {
+    return this.request<HHResumeSearchResponse>('/resumes', { query });
+  }
+
+  getResume(resumeId: string, options: { withJobSearchStatus?: boolean } = {}): Promise<HHResume> {
+    return this.request<HHResume>(`/resumes/${encodeURIComponent(resumeId)}`, {
+      query: { with_job_search_status: options.withJobSearchStatus || undefined }
+    });
+  }
+
+  // Opens contacts via the resume's `get_with_contact` action (spends a paid API action).
+  // Returns the resume unchanged when contacts are already visible or cannot be opened.
+  // Never retried: a 5xx or timeout may come after HH has already charged for the open.
+  async getResumeWithContacts(resume: HHResume): Promise<HHResume> {
+    const contactUrl = resume.actions?.get_with_contact?.url;
+    if (!contactUrl) return resume;
+    return this.request<HHResume>(contactUrl, { retry: false });
+  }
+
+  getVacancy(vacancyId: string): Promise<HHVacancy> {
+    return this.request<HHVacancy>(`/vacancies/${encodeURIComponent(vacancyId)}`);
+  }
+
+  searchVacancies(query: HHQuery): Promise<HHPaginated<HHVacancy>> {
+    return this.request<HHPaginated<HHVacancy>>('/vacancies', { query });
+  }
+
+  searchEmployers(query: HHQuery): Promise<HHPaginated<HHEmployer>> {
+    return this.request<HHPaginated<HHEmployer>>('/employers', { query });
+  }
+
+  getEmployer(employerId: string): Promise<HHEmployer> {
+    return this.request<HHEmployer>(`/employers/${encodeURIComponent(employerId)}`);
+  }
+
+  getDictionaries(): Promise<HHDictionaries> {
+    return this.request<HHDictionaries>('/dictionaries');
+  }
+
+  getAreas(): Promise<HHAreaNode[]> {
+    return this.request<HHAreaNode[]>('/areas');
+  }
+
+  getLanguages(): Promise<HHIdName[]> {
+    return this.request<HHIdName[]>('/languages');
+  }
+
+  getMe(): Promise<HHMe> {
+    return this.request<HHMe>('/me');
+  }
+
+  // Invalidates the client's access token at HH.ru (the refresh token dies with it)
+  revokeToken(): Promise<void> {
+    return this.request<void>('/oauth/token', { method: 'DELETE' });
+  }
+
+  // Active paid API action packs for the employer, or for a single manager when `managerId` is given
+  getPayableActions(employerId: string, managerId?: string): Promise<HHPaginated<HHPayableAction>> {
+    const path = managerId
+      ? `/employers/${employerId}/managers/${managerId}/services/payable_api_actions/active`
+      : `/employers/${employerId}/services/payable_api_actions/active`;
+    return this.request<HHPaginated<HHPayableAction>>(path);
+  }
+}
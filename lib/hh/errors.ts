@@ -0,0 +1,76 @@
+import type { HHErrorBody, HHErrorItem } from './types';
+
+// Single error type for every failed HH.ru call.
+// `status` is 0 when the request never got a response (timeout, network error).
+export class HHApiError extends Error {
+  readonly status: number;
+  readonly errors: HHErrorItem[];
+  readonly requestId?: string;
+  readonly url: string;
+  readonly retryAfterMs?: number;
+
+  constructor(
+    message: string,
+    options: { status: number; url: string; errors?: HHErrorItem[]; requestId?: string; retryAfterMs?: number }
+  ) {
+    super(message);
+    this.name = 'HHApiError';
+    this.status = options.status;
+    this.url = options.url;
+    this.errors = options.errors || [];
+    this.requestId = options.requestId;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  // HH error codes, e.g. ["oauth:token_expired", "resumes:not_found"]
+  get codes(): string[] {
+    return this.errors.map(error => (error.value ? `${error.type}:${error.value}` : error.type));
+  }
+
+  hasError(type: string, value?: string): boolean {
+    return this.errors.some(error => error.type === type && (value === undefined || error.value === value));
+  }
+
+  static async fromResponse(response: Response, url: string): Promise<HHApiError> {
+    const bodyText = await response.text().catch(() => '');
+    let body: HHErrorBody = {};
+    try {
+      body = bodyText ? JSON.parse(bodyText) : {};
+    } catch {
+      // Non-JSON error body (HTML error page etc.)
+    }
+
+    const requestId = body.request_id || response.headers.get('x-request-id') || undefined;
+    const errors = Array.isArray(body.errors) ? body.errors : [];
+    const details = errors.length
+      ? errors.map(error => (error.value ? `${error.type}:${error.value}` : error.type)).join(', ')
+      : body.description || bodyText.slice(0, 200) || response.statusText;
+
+    return new HHApiError(`HH API request failed: ${response.status} ${details}`, {
+      status: response.status,
+      url,
+      errors,
+      requestId,
+      retryAfterMs: parseRetryAfter(response.headers.get('retry-after'))
+    });
+  }
+}
+
+export function isHHApiError(error: unknown): error is HHApiError {
+  return error instanceof HHApiError;
+}
+
+// An expired or revoked token: fails every following call too, so per-item error handling
+// must let it through to authErrorResponse instead of recording a failed row
+export function isSessionExpiredError(error: unknown): error is HHApiError {
+  return error instanceof HHApiError && error.status === 401;
+}
+
+// Parses Retry-After as either delta-seconds or an HTTP date
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
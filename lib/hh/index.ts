@@ -0,0 +1,16 @@
+export * from './types';
+export { HHApiError, isHHApiError, isSessionExpiredError, parseRetryAfter } from './errors';
+export { HHClient, getHHApiBaseUrl, buildQueryString, DEFAULT_HH_API_BASE_URL } from './client';
+export type { HHClientOptions, HHRequestOptions } from './client';
+export { createCallMetrics } from './metrics';
+export type { HHCallMetrics } from './metrics';
+export { RateLimiter, dropRateLimiter, getRateLimiter, getMaxConcurrency, mapWithConcurrency } from './rateLimiter';
+export type { RateLimiterOptions } from './rateLimiter';
+export { computeBackoffMs, getDefaultRetryPolicy, isRetryableError } from './retry';
+export type { RetryPolicy } from './retry';
+export { ACCESS_TOKEN_COOKIE, REFRESH_TOKEN_COOKIE, refreshAccessToken, setTokenCookies } from './oauth';
+export type { HHTokenResponse } from './oauth';
+export { HHSessionError, authErrorResponse, requireHHSession, resolveSessionUser } from './session';
+export type { HHSession } from './session';
+export { findVacanciesWithContacts, parseVacancyLink } from './vacancyLinks';
+export type { VacanciesWithContacts, VacancyLinkTarget } from './vacancyLinks';
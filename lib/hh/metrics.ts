@@ -0,0 +1,13 @@
+// Per-job counters for HH.ru calls, returned by routes so users can see why a job was slow.
+export interface HHCallMetrics {
+  requests: number;
+  succeeded: number;
+  failed: number;
+  throttled: number;
+  retried: number;
+  waitedMs: number;
+}
+
+export function createCallMetrics(): HHCallMetrics {
+  return { requests: 0, succeeded: 0, failed: 0, throttled: 0, retried: 0, waitedMs: 0 };
+}
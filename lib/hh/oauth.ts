@@ -0,0 +1,88 @@
+import type { NextResponse } from 'next/server';
+import { getHHApiBaseUrl } from './client';
+import { HHApiError } from './errors';
+
+// Kept free of Node-only imports: this module also runs in middleware (edge runtime).
+
+export const ACCESS_TOKEN_COOKIE = 'hh_access_token';
+export const REFRESH_TOKEN_COOKIE = 'hh_refresh_token';
+
+export interface HHTokenResponse {
+  access_token: string;
+  token_type: string;
+  expires_in: number;
+  refresh_token: string;
+}
+
+const cookieOptions = () => ({
+  httpOnly: true,
+  secure: process.env.NODE_ENV === 'production',
+  sameSite: 'strict' as const,
+  path: '/'
+});
+
+// Writes both token cookies. The access cookie expires together with the token,
+// so a missing access cookie next to a refresh cookie means "refresh needed".
+export function setTokenCookies(response: NextResponse, tokenData: HHTokenResponse) {
+  response.cookies.set(ACCESS_TOKEN_COOKIE, tokenData.access_token, {
+    ...cookieOptions(),
+    maxAge: tokenData.expires_in
+  });
+  response.cookies.set(REFRESH_TOKEN_COOKIE, tokenData.refresh_token, cookieOptions());
+}
+
+// HH.ru refresh tokens are single-use: when several requests notice the expired token at
+// once, they must share one exchange instead of racing and invalidating each other. The
+// middleware refreshes server-side; /api/oauth-refresh is the browser's fallback, and the
+// browser serializes its calls to it (see lib/fetchWithRefresh).
+const REFRESH_RESULT_TTL_MS = 60 * 1000;
+const refreshes = new Map<string, { promise: Promise<HHTokenResponse>; createdAt: number }>();
+
+async function exchangeRefreshToken(refreshToken: string): Promise<HHTokenResponse> {
+  const url = `${getHHApiBaseUrl()}/token`;
+  const body = new URLSearchParams({
+    grant_type: 'refresh_token',
+    refresh_token: refreshToken
+  });
+
+  let response: Response;
+  try {
+    response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        'Accept': 'application/json',
+        'HH-User-Agent': process.env.HH_USER_AGENT || 'hh-resume-app/1.0'
+      },
+      body,
+      cache: 'no-store',
+      signal: AbortSignal.timeout(10000)
+    });
+  } catch (error) {
+    throw new HHApiError(`Token refresh failed: ${error instanceof Error ? error.message : String(error)}`, {
+      status: 0,
+      url
+    });
+  }
+
+  if (!response.ok) {
+    throw await HHApiError.fromResponse(response, url);
+  }
+
+  return response.json();
+}
+
+export function refreshAccessToken(refreshToken: string): Promise<HHTokenResponse> {
+  const now = Date.now();
+  refreshes.forEach((entry, key) => {
+    if (now - entry.createdAt > REFRESH_RESULT_TTL_MS) refreshes.delete(key);
+  });
+
+  const existing = refreshes.get(refreshToken);
+  if (existing) return existing.promise;
+
+  const promise = exchangeRefreshToken(refreshToken);
+  refreshes.set(refreshToken, { promise, createdAt: now });
+  promise.catch(() => refreshes.delete(refreshToken));
+  return promise;
+}
@@ -0,0 +1,140 @@
+// Token-bucket limiter shared by every HH.ru call made with the same access token.
+// HH.ru throttles per token, so all routes and jobs running for one user draw from one bucket.
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function readNumberEnv(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+export interface RateLimiterOptions {
+  requestsPerSecond: number;
+  burst: number;
+  maxConcurrency: number;
+}
+
+export function getRateLimiterOptions(): RateLimiterOptions {
+  return {
+    requestsPerSecond: readNumberEnv('HH_RATE_LIMIT_PER_SECOND', 5),
+    burst: readNumberEnv('HH_RATE_LIMIT_BURST', 10),
+    maxConcurrency: readNumberEnv('HH_MAX_CONCURRENCY', 4)
+  };
+}
+
+export class RateLimiter {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private pausedUntil = 0;
+  private active = 0;
+  private readonly waiters: Array<() => void> = [];
+
+  constructor(readonly options: RateLimiterOptions) {
+    this.tokens = options.burst;
+  }
+
+  private refill() {
+    const now = Date.now();
+    const elapsedSec = (now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.options.burst, this.tokens + elapsedSec * this.options.requestsPerSecond);
+    this.lastRefill = now;
+  }
+
+  // Stops handing out tokens until `until` (used when HH.ru answers 429 with Retry-After)
+  pause(until: number) {
+    this.pausedUntil = Math.max(this.pausedUntil, until);
+  }
+
+  private async acquireSlot(): Promise<void> {
+    if (this.active < this.options.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    await new Promise<void>(resolve => this.waiters.push(resolve));
+  }
+
+  private releaseSlot() {
+    const next = this.waiters.shift();
+    if (next) {
+      next(); // hand the slot over without decrementing
+    } else {
+      this.active--;
+    }
+  }
+
+  private async takeToken(): Promise<number> {
+    let waitedMs = 0;
+    while (true) {
+      const pauseMs = this.pausedUntil - Date.now();
+      if (pauseMs > 0) {
+        await delay(pauseMs);
+        waitedMs += pauseMs;
+        continue;
+      }
+
+      this.refill();
+      if (this.tokens >= 1) {
+        this.tokens -= 1;
+        return waitedMs;
+      }
+
+      const waitMs = Math.ceil(((1 - this.tokens) / this.options.requestsPerSecond) * 1000);
+      await delay(waitMs);
+      waitedMs += waitMs;
+    }
+  }
+
+  // Runs `task` once a concurrency slot and a token are available. Resolves with the
+  // task result and how long the call was held back by the limiter.
+  async schedule<T>(task: () => Promise<T>): Promise<{ result: T; waitedMs: number }> {
+    await this.acquireSlot();
+    try {
+      const waitedMs = await this.takeToken();
+      const result = await task();
+      return { result, waitedMs };
+    } finally {
+      this.releaseSlot();
+    }
+  }
+}
+
+const limiters = new Map<string, RateLimiter>();
+
+export function getRateLimiter(key: string | null | undefined): RateLimiter {
+  const limiterKey = key || 'anonymous';
+  let limiter = limiters.get(limiterKey);
+  if (!limiter) {
+    limiter = new RateLimiter(getRateLimiterOptions());
+    limiters.set(limiterKey, limiter);
+  }
+  return limiter;
+}
+
+// Forgets the limiter of an ended session so its state doesn't outlive the token
+export function dropRateLimiter(key: string) {
+  limiters.delete(key);
+}
+
+export function getMaxConcurrency(): number {
+  return getRateLimiterOptions().maxConcurrency;
+}
+
+// Like Promise.all over `items`, but with at most `concurrency` calls in flight. Keeps result order.
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length) {
+      const index = nextIndex++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+}
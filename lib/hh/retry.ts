@@ -0,0 +1,30 @@
+import { HHApiError } from './errors';
+
+export interface RetryPolicy {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export function getDefaultRetryPolicy(): RetryPolicy {
+  const maxRetries = Number(process.env.HH_MAX_RETRIES);
+  return {
+    maxRetries: Number.isInteger(maxRetries) && maxRetries >= 0 ? maxRetries : 4,
+    baseDelayMs: 500,
+    maxDelayMs: 30000
+  };
+}
+
+// Network errors/timeouts (status 0), throttling and transient server errors are worth retrying.
+// Other 4xx mean the request itself is wrong and would fail again.
+export function isRetryableError(error: unknown): boolean {
+  if (!(error instanceof HHApiError)) return false;
+  return error.status === 0 || error.status === 429 || error.status >= 500;
+}
+
+// Exponential backoff with full jitter; never shorter than what the server asked for
+export function computeBackoffMs(attempt: number, policy: RetryPolicy, retryAfterMs?: number): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** attempt);
+  const jittered = Math.random() * ceiling;
+  return retryAfterMs !== undefined ? Math.max(retryAfterMs, jittered) : jittered;
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import { findSessionUser, registerSession } from '@/lib/db/sessions';
+import { HHClient } from './client';
+import { isSessionExpiredError } from './errors';
+import { ACCESS_TOKEN_COOKIE } from './oauth';
+
+// The HH.ru access token only ever lives in the httpOnly cookie set by /api/oauth-callback.
+// Routes read it here; it is never accepted from query strings or request bodies.
+
+export interface HHSession {
+  accessToken: string;
+}
+
+export class HHSessionError extends Error {
+  readonly status = 401;
+
+  constructor(message = 'Not authenticated') {
+    super(message);
+    this.name = 'HHSessionError';
+  }
+}
+
+export function requireHHSession(request: NextRequest): HHSession {
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  if (!accessToken) {
+    throw new HHSessionError();
+  }
+  return { accessToken };
+}
+
+// HH.ru user id behind a session; stored so ownership checks don't cost an API call each time
+export async function resolveSessionUser(session: HHSession): Promise<string> {
+  const known = findSessionUser(session.accessToken);
+  if (known) return known;
+
+  const me = await new HHClient({ accessToken: session.accessToken }).getMe();
+  registerSession(me.id, session.accessToken);
+  return me.id;
+}
+
+// Maps a missing session or an HH.ru 401 to a 401 response, so the browser can refresh the
+// token (see lib/fetchWithRefresh) and retry. Returns null for any other error.
+export function authErrorResponse(error: unknown): NextResponse | null {
+  if (error instanceof HHSessionError) {
+    return NextResponse.json({ error: error.message }, { status: 401 });
+  }
+  if (isSessionExpiredError(error)) {
+    return NextResponse.json({ error: 'HH.ru session expired', errors: error.codes }, { status: 401 });
+  }
+  return null;
+}
@@ -0,0 +1,206 @@
+// Typed models for the subset of the HH.ru API used by this app.
+// Field names mirror the API responses (snake_case) so they can be passed through as-is.
+
+export interface HHIdName {
+  id: string;
+  name: string;
+}
+
+export interface HHArea extends HHIdName {
+  url?: string;
+}
+
+// Node of the /areas tree
+export interface HHAreaNode extends HHIdName {
+  parent_id: string | null;
+  areas: HHAreaNode[];
+}
+
+export interface HHCurrency {
+  code: string;
+  abbr: string;
+  name: string;
+}
+
+// The /dictionaries lists used by the resume search filters; the response has many more
+export interface HHDictionaries {
+  currency: HHCurrency[];
+  experience: HHIdName[];
+  education_level: HHIdName[];
+  employment: HHIdName[];
+  schedule: HHIdName[];
+  language_level: HHIdName[];
+  resume_search_order: HHIdName[];
+  resume_search_relocation: HHIdName[];
+  job_search_statuses_employer?: HHIdName[];
+}
+
+export interface HHPaginated<T> {
+  items: T[];
+  found: number;
+  pages: number;
+  per_page: number;
+  page: number;
+}
+
+export interface HHSalary {
+  amount?: number;
+  currency?: string;
+}
+
+export interface HHExperience {
+  company?: string;
+  company_id?: string | null;
+  company_url?: string | null;
+  area?: HHArea | null;
+  start?: string;
+  end?: string | null;
+  position?: string;
+  description?: string;
+  industries?: HHIdName[];
+}
+
+export interface HHPhoneValue {
+  country?: string;
+  city?: string;
+  number?: string;
+  formatted?: string;
+}
+
+export interface HHResumeContact {
+  type: HHIdName;
+  value: string | HHPhoneValue;
+  preferred?: boolean;
+  comment?: string | null;
+}
+
+export interface HHResume {
+  id: string;
+  title?: string;
+  first_name?: string | null;
+  last_name?: string | null;
+  middle_name?: string | null;
+  age?: number | null;
+  birth_date?: string | null;
+  gender?: HHIdName | null;
+  area?: HHArea | null;
+  salary?: HHSalary | null;
+  experience?: HHExperience[];
+  total_experience?: { months: number } | null;
+  skill_set?: string[];
+  last_visit?: string;
+  created_at?: string;
+  updated_at?: string;
+  url?: string;
+  alternate_url?: string;
+  job_search_status?: HHIdName | null;
+  contact?: HHResumeContact[];
+  actions?: {
+    download?: unknown;
+    get_with_contact?: { url: string };
+  };
+}
+
+export interface HHResumeSearchResponse extends HHPaginated<HHResume> {
+  clusters?: unknown;
+  arguments?: unknown;
+}
+
+export interface HHVacancyPhone {
+  country?: string;
+  city?: string;
+  number?: string;
+  formatted?: string;
+  comment?: string | null;
+}
+
+export interface HHVacancyContacts {
+  name?: string | null;
+  email?: string | null;
+  phones?: HHVacancyPhone[];
+}
+
+export interface HHVacancySalary {
+  from?: number | null;
+  to?: number | null;
+  currency?: string;
+  gross?: boolean;
+}
+
+export interface HHEmployerRef {
+  id?: string;
+  name: string;
+  url?: string;
+  alternate_url?: string;
+}
+
+export interface HHVacancy {
+  id: string;
+  name: string;
+  url?: string;
+  alternate_url?: string;
+  area?: HHArea;
+  salary?: HHVacancySalary | null;
+  employer?: HHEmployerRef;
+  contacts?: HHVacancyContacts | null;
+  snippet?: {
+    requirement?: string | null;
+    responsibility?: string | null;
+  };
+  published_at?: string;
+}
+
+export interface HHEmployer {
+  id: string;
+  name: string;
+  url?: string;
+  alternate_url?: string;
+  vacancies_url?: string;
+  open_vacancies?: number;
+  logo_urls?: Record<string, string> | null;
+  area?: HHArea;
+  site_url?: string;
+}
+
+export interface HHMe {
+  id: string;
+  first_name: string;
+  last_name: string;
+  middle_name?: string | null;
+  email: string;
+  is_admin: boolean;
+  is_applicant: boolean;
+  is_employer: boolean;
+  employer?: {
+    id: string;
+    name: string;
+    manager_id?: string;
+  } | null;
+  manager?: { id: string } | null;
+}
+
+export interface HHPayableAction {
+  id: string;
+  service_type: HHIdName;
+  activated_at: string;
+  expires_at: string;
+  balance: {
+    actual: number;
+    initial: number;
+  };
+}
+
+export interface HHErrorItem {
+  type: string;
+  value?: string;
+  [key: string]: unknown;
+}
+
+export interface HHErrorBody {
+  errors?: HHErrorItem[];
+  description?: string;
+  request_id?: string;
+}
+
+export type HHQueryValue = string | number | boolean | undefined | null | Array<string | number>;
+export type HHQuery = Record<string, HHQueryValue>;
@@ -0,0 +1,36 @@
+import { describe, expect, it } from 'vitest';
+import { parseVacancyLink } from './vacancyLinks';
+
+describe('parseVacancyLink', () => {
+  it('reads a vacancy id from vacancy pages on any hh.ru or hh.kz host', () => {
+    expect(parseVacancyLink('https://hh.ru/vacancy/12345678')).toEqual({ kind: 'vacancy', vacancyId: '12345678' });
+    expect(parseVacancyLink(' https://spb.hh.ru/vacancy/87654321?from=main ')).toEqual({ kind: 'vacancy', vacancyId: '87654321' });
+    expect(parseVacancyLink('https://almaty.hh.kz/vacancy/42')).toEqual({ kind: 'vacancy', vacancyId: '42' });
+  });
+
+  it('turns employer pages into an employer_id query', () => {
+    const target = { kind: 'vacancies', query: { employer_id: '1740' } };
+    expect(parseVacancyLink('https://hh.ru/employer/1740')).toEqual(target);
+    expect(parseVacancyLink('https://hh.ru/employer/vacancies?employer=1740')).toEqual(target);
+  });
+
+  it('keeps the search page parameters the API understands, repeated ones as a list', () => {
+    expect(parseVacancyLink(
+      'https://hh.ru/search/vacancy?text=Java&area=1&area=2&employer_id=1740&hhtmFrom=main&experience=&order_by=publication_time'
+    )).toEqual({
+      kind: 'vacancies',
+      query: { text: 'Java', area: ['1', '2'], employer_id: '1740', order_by: 'publication_time' }
+    });
+  });
+
+  it('leaves other hosts, other pages and malformed links unknown', () => {
+    [
+      'https://example.com/vacancy/123',
+      'https://hh.ru.example.com/vacancy/123',
+      'https://hh.ru/resume/abc',
+      'https://hh.ru/employer/vacancies?employer=abc',
+      'hh.ru/vacancy/123',
+      ''
+    ].forEach(link => expect(parseVacancyLink(link)).toEqual({ kind: 'unknown' }));
+  });
+});
@@ -0,0 +1,84 @@
+import type { HHClient } from './client';
+import type { HHQuery, HHVacancy } from './types';
+
+// What a vacancy-sheet link points at, in terms of the HH API
+export type VacancyLinkTarget =
+  | { kind: 'vacancy'; vacancyId: string }
+  // Employer pages and vacancy search pages both become a /vacancies query
+  | { kind: 'vacancies'; query: HHQuery }
+  | { kind: 'unknown' };
+
+// Search page parameters the /vacancies API understands the same way as hh.ru does
+const SEARCH_PARAMS = [
+  'text', 'employer_id', 'area', 'professional_role', 'industry', 'experience', 'employment', 'schedule',
+  'salary', 'currency', 'only_with_salary', 'search_field', 'label', 'education', 'order_by', 'period'
+];
+
+const PER_PAGE = 100;
+// The API returns at most 2000 vacancies per query anyway
+const MAX_PAGES = 20;
+
+function isHHHost(hostname: string): boolean {
+  return hostname === 'hh.ru' || hostname.endsWith('.hh.ru') || hostname === 'hh.kz' || hostname.endsWith('.hh.kz');
+}
+
+// hh.ru/vacancy/123, hh.ru/employer/456 (or /employer/vacancies?employer=456) and
+// hh.ru/search/vacancy?employer_id=456&... ; anything else is "unknown" and may be a short link
+export function parseVacancyLink(link: string): VacancyLinkTarget {
+  let url: URL;
+  try {
+    url = new URL(link.trim());
+  } catch {
+    return { kind: 'unknown' };
+  }
+  if (!isHHHost(url.hostname)) return { kind: 'unknown' };
+
+  const vacancy = url.pathname.match(/^\/vacancy\/(\d+)/);
+  if (vacancy) return { kind: 'vacancy', vacancyId: vacancy[1] };
+
+  const employer = url.pathname.match(/^\/employer\/(\d+)/);
+  if (employer) return { kind: 'vacancies', query: { employer_id: employer[1] } };
+  if (url.pathname.startsWith('/employer/vacancies') && /^\d+$/.test(url.searchParams.get('employer') || '')) {
+    return { kind: 'vacancies', query: { employer_id: url.searchParams.get('employer') as string } };
+  }
+
+  if (url.pathname.startsWith('/search/vacancy')) {
+    const query: HHQuery = {};
+    SEARCH_PARAMS.forEach(param => {
+      const values = url.searchParams.getAll(param).filter(Boolean);
+      if (values.length > 0) query[param] = values.length === 1 ? values[0] : values;
+    });
+    return { kind: 'vacancies', query };
+  }
+  return { kind: 'unknown' };
+}
+
+export interface VacanciesWithContacts {
+  vacancies: HHVacancy[];
+  // Vacancies the query found in total and how many of the read ones had no contacts
+  found: number;
+  withoutContacts: number;
+}
+
+// Pages through /vacancies until `limit` vacancies with contacts are collected. Search results
+// carry `contacts` only when the employer shows them, so nothing has to be opened to find out.
+export async function findVacanciesWithContacts(client: HHClient, query: HHQuery, limit: number): Promise<VacanciesWithContacts> {
+  const vacancies: HHVacancy[] = [];
+  let found = 0;
+  let withoutContacts = 0;
+
+  for (let page = 0; page < MAX_PAGES && vacancies.length < limit; page++) {
+    const data = await client.searchVacancies({ ...query, page, per_page: PER_PAGE });
+    found = data.found;
+    for (const vacancy of data.items || []) {
+      if (!vacancy.contacts) {
+        withoutContacts++;
+        continue;
+      }
+      vacancies.push(vacancy);
+      if (vacancies.length >= limit) break;
+    }
+    if (page + 1 >= data.pages) break;
+  }
+  return { vacancies, found, withoutContacts };
+}
@@ -0,0 +1,82 @@
+// Browser-side helpers for the /api/jobs routes. A job only advances while someone calls
+// /run, so driveJob keeps calling it until the job is paused, cancelled or finished.
+import { fetchWithRefresh, refreshSession } from '@/lib/fetchWithRefresh';
+import type { JobAction, JobSummary } from '@/lib/jobs/types';
+import { EVENT_STREAM_HEADERS, readEventStream } from '@/lib/progress/client';
+import type { ProgressEvent } from '@/lib/progress/events';
+
+const MIN_RUN_INTERVAL_MS = 1000;
+
+async function readJob(response: Response): Promise<JobSummary> {
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `HTTP error! status: ${response.status}`);
+  }
+  return data;
+}
+
+export async function startJob(type: string, params: unknown): Promise<JobSummary> {
+  const response = await fetchWithRefresh('/api/jobs', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ type, params })
+  });
+  return readJob(response);
+}
+
+export async function listJobs(type?: string): Promise<JobSummary[]> {
+  const query = type ? `?type=${encodeURIComponent(type)}` : '';
+  const response = await fetchWithRefresh(`/api/jobs${query}`);
+  if (!response.ok) {
+    throw new Error(`HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
+
+export async function sendJobAction(id: string, action: JobAction): Promise<JobSummary> {
+  const response = await fetchWithRefresh(`/api/jobs/${id}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ action })
+  });
+  return readJob(response);
+}
+
+// Runs one chunk with its progress streamed to onEvent. A 401 inside the stream (token expired
+// mid-chunk) refreshes the session and runs the next chunk; the job lost nothing.
+async function runChunk(id: string, onEvent: (event: ProgressEvent) => void): Promise<JobSummary> {
+  const response = await fetchWithRefresh(`/api/jobs/${id}/run`, { method: 'POST', headers: EVENT_STREAM_HEADERS });
+  try {
+    return await readEventStream<JobSummary>(response, onEvent);
+  } catch (error) {
+    if ((error as { status?: number }).status === 401 && await refreshSession()) {
+      return readEventStream<JobSummary>(
+        await fetch(`/api/jobs/${id}/run`, { method: 'POST', headers: EVENT_STREAM_HEADERS }),
+        onEvent
+      );
+    }
+    throw error;
+  }
+}
+
+export async function driveJob(
+  id: string,
+  onUpdate: (job: JobSummary) => void,
+  onEvent: (event: ProgressEvent) => void = () => undefined
+): Promise<JobSummary> {
+  while (true) {
+    const startedAt = Date.now();
+    const job = await runChunk(id, onEvent);
+    onUpdate(job);
+
+    if (job.status !== 'pending' && job.status !== 'running') {
+      return job;
+    }
+
+    // A quick answer means another tab holds the job's lease; don't hammer the server
+    const elapsed = Date.now() - startedAt;
+    if (elapsed < MIN_RUN_INTERVAL_MS) {
+      await new Promise(resolve => setTimeout(resolve, MIN_RUN_INTERVAL_MS - elapsed));
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server';
+import { authErrorResponse } from '@/lib/hh';
+
+// Job failures that map directly to an HTTP status in the /api/jobs routes
+export class JobError extends Error {
+  readonly status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'JobError';
+    this.status = status;
+  }
+}
+
+export function jobErrorResponse(error: unknown): NextResponse {
+  const authResponse = authErrorResponse(error);
+  if (authResponse) return authResponse;
+
+  if (error instanceof JobError) {
+    return NextResponse.json({ error: error.message }, { status: error.status });
+  }
+
+  console.error('Job request failed:', error);
+  return NextResponse.json(
+    { error: error instanceof Error ? error.message : 'Unknown error occurred' },
+    { status: 500 }
+  );
+}
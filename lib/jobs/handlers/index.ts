@@ -0,0 +1,10 @@
+import type { JobHandler } from '../types';
+import { resumeSearchHandler } from './resumeSearch';
+
+const handlers: Record<string, JobHandler> = {
+  [resumeSearchHandler.type]: resumeSearchHandler
+};
+
+export function getJobHandler(type: string): JobHandler | undefined {
+  return handlers[type];
+}
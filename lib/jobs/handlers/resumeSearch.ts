@@ -0,0 +1,384 @@
+import { createCompanyNormalizer } from '@/lib/companyNames';
+import { loadCompanyNameRules } from '@/lib/companyNames/store';
+import { createInnResolver, loadEmployerIdSources } from '@/lib/employers';
+import { countRunResumes, createRun, finishRun, getRun, getRunResumes, saveRunResumes } from '@/lib/db';
+import { isSessionExpiredError } from '@/lib/hh';
+import { OUTPUT_FORMAT_LABELS, createSheetsSink, parseOutputFormat, runDownloadUrl } from '@/lib/output';
+import { parseQuery } from '@/lib/searchQuery';
+import {
+  ITEMS_PER_PAGE,
+  MAX_RESULTS_PER_COMPANY,
+  attachEmployerIds,
+  enrichResumes,
+  fetchCompanyRowsFromSheet,
+  groupCompaniesByCleanName,
+  mergeIntoRun,
+  parseExperienceMatchRules,
+  parseResumeSearchFilters,
+  searchCompanyPage,
+  toResumeTable,
+  withCandidateHistory,
+  type CompanyDedupeReport,
+  type CompanyGroup,
+  type Resume,
+  type ResumeSearchParams,
+  type ResumeSelection
+} from '@/lib/resumeSearch';
+import { parseColumnOverrides } from '@/lib/sheets/columns';
+import { extractSheetId } from '@/lib/sheets/google';
+import { parseSheetInput, parseWorksheetRef, toSheetInput } from '@/lib/sheets/source';
+import { parseSheetWriteMode } from '@/lib/sheets/writer';
+import { JobError } from '../errors';
+import type { JobHandler } from '../types';
+
+const ENRICH_BATCH_SIZE = 10;
+const MAX_TOTAL_LIMIT = 5000;
+// A page that keeps failing is given up after this many tries, not the company's other pages
+const MAX_PAGE_ATTEMPTS = 3;
+
+export interface ResumeSearchCursor {
+  phase: 'load' | 'search' | 'enrich' | 'write' | 'done';
+  companyIndex: number;
+  page: number;
+  // Failed tries of the current page
+  pageAttempts?: number;
+  // Total hits of the current company, once its first page was fetched
+  companyFound?: number;
+  enrichmentOffset: number;
+}
+
+export interface ResumeSearchState {
+  // Input companies grouped by cleaned name; de-duplication never leaves the job
+  groups: CompanyGroup[];
+  dedupe: CompanyDedupeReport;
+  // The resumes themselves are saved in the job's run as they are found
+  matched: number;
+  errors: number;
+  // Pages given up after MAX_PAGE_ATTEMPTS, e.g. "Acme page 3"
+  failedPages?: string[];
+}
+
+export interface ResumeSearchResult {
+  count: number;
+  // Unset when the results were only saved for download
+  sheetId?: string;
+  message: string;
+  // Where to download the results when they weren't written to the sheet
+  downloadUrl?: string;
+  dedupe: CompanyDedupeReport;
+}
+
+function parseNewSinceRunId(input: unknown, ownerId: string): string | undefined {
+  if (input === undefined || input === null || input === '') return undefined;
+  const run = typeof input === 'string' ? getRun(input) : null;
+  if (!run || run.ownerId !== ownerId || (run.type !== 'resume-search' && run.type !== 'resume-preview')) {
+    throw new JobError('newSinceRunId must be one of your resume searches or previews');
+  }
+  return run.id;
+}
+
+function parseSelection(input: unknown, ownerId: string): ResumeSelection | undefined {
+  if (input === undefined || input === null) return undefined;
+  const { runId, resumeIds } = input as Partial<ResumeSelection>;
+  const run = typeof runId === 'string' ? getRun(runId) : null;
+  if (!run || run.ownerId !== ownerId || run.type !== 'resume-preview') {
+    throw new JobError('selection.runId must be one of your previews');
+  }
+  if (!Array.isArray(resumeIds) || resumeIds.length === 0 || resumeIds.some(id => typeof id !== 'string')) {
+    throw new JobError('selection.resumeIds must list at least one resume id');
+  }
+  if (resumeIds.length > MAX_TOTAL_LIMIT) {
+    throw new JobError(`At most ${MAX_TOTAL_LIMIT} resumes can be selected`);
+  }
+  return { runId: run.id, resumeIds };
+}
+
+export const resumeSearchHandler: JobHandler<ResumeSearchParams, ResumeSearchCursor, ResumeSearchState, ResumeSearchResult> = {
+  type: 'resume-search',
+
+  parseParams(input, { ownerId }) {
+    const {
+      text, sheetUrl, uploadId, totalLimit, filters, experienceRules, selection, newSinceRunId, sheetMode, columns, worksheet, output,
+      useEmployerIds
+    } = (input || {}) as Partial<ResumeSearchParams>;
+    const limit = Number(totalLimit ?? 100);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_TOTAL_LIMIT) {
+      throw new JobError(`totalLimit must be an integer between 1 and ${MAX_TOTAL_LIMIT}`);
+    }
+    const queryText = typeof text === 'string' ? text : '';
+    let criteria;
+    try {
+      parseQuery(queryText);
+      criteria = {
+        filters: parseResumeSearchFilters(filters),
+        experienceRules: parseExperienceMatchRules(experienceRules),
+        sheetMode: parseSheetWriteMode(sheetMode),
+        columns: parseColumnOverrides(columns),
+        worksheet: parseWorksheetRef(worksheet),
+        output: parseOutputFormat(output)
+      };
+      // Companies come from the sheet or an uploaded file; a selection needs neither
+      if (!selection) parseSheetInput({ sheetUrl, uploadId }, ownerId);
+    } catch (error) {
+      throw new JobError(error instanceof Error ? error.message : String(error));
+    }
+    if (criteria.output === 'sheets' && (typeof sheetUrl !== 'string' || !extractSheetId(sheetUrl))) {
+      throw new JobError('A valid Google Sheet URL is required to write the results to a sheet');
+    }
+    return {
+      text: queryText,
+      sheetUrl: typeof sheetUrl === 'string' && sheetUrl ? sheetUrl : undefined,
+      uploadId: !selection && typeof uploadId === 'string' && uploadId ? uploadId : undefined,
+      useEmployerIds: useEmployerIds === true,
+      totalLimit: limit,
+      ...criteria,
+      selection: parseSelection(selection, ownerId),
+      newSinceRunId: parseNewSinceRunId(newSinceRunId, ownerId),
+      rules: loadCompanyNameRules(ownerId)
+    };
+  },
+
+  initialCursor() {
+    return { phase: 'load', companyIndex: 0, page: 0, enrichmentOffset: 0 };
+  },
+
+  initialState() {
+    return { groups: [], dedupe: { merged: [], skipped: [] }, matched: 0, errors: 0 };
+  },
+
+  initialProgress() {
+    return { phase: 'load', completed: 0, total: 0, message: 'Waiting to start' };
+  },
+
+  async runChunk(job, { client, log, checkpoint, shouldStop }) {
+    const { params, cursor, state } = job;
+    const sheetId = extractSheetId(params.sheetUrl || '');
+    const normalizer = createCompanyNormalizer(params.rules);
+    const query = parseQuery(params.text);
+    const counters = () => ({
+      page: cursor.page,
+      matched: state.matched,
+      enriched: cursor.enrichmentOffset,
+      errors: state.errors
+    });
+
+    if (cursor.phase === 'load') {
+      // The run shares the job's id, so a resumed job keeps recording into the same run
+      createRun('resume-search', job.ownerId, params, job.id);
+    }
+
+    if (cursor.phase === 'load' && params.selection) {
+      // Resumes picked in a preview are already known; only their details are still missing
+      const selected = new Set(params.selection.resumeIds);
+      const items = getRunResumes<Resume>(params.selection.runId)
+        .filter(resume => selected.has(resume.id))
+        .map(resume => ({ ...resume.data, matchedCompany: resume.company || resume.data.matchedCompany }));
+      saveRunResumes(job.id, items, item => item.matchedCompany || null);
+      state.matched = items.length;
+      log(`Writing ${state.matched} resumes selected in the preview`);
+      cursor.phase = 'enrich';
+      job.progress = {
+        phase: 'enrich',
+        completed: 0,
+        total: state.matched,
+        message: 'Fetching resume details',
+        counters: counters()
+      };
+      await checkpoint();
+    }
+
+    if (cursor.phase === 'load') {
+      const rows = await fetchCompanyRowsFromSheet(toSheetInput(params), { columns: params.columns, worksheet: params.worksheet });
+      const companies = rows.map(row => row.name);
+      const { groups, report } = groupCompaniesByCleanName(companies, normalizer);
+      state.groups = groups;
+      state.dedupe = report;
+      log(`Fetched ${companies.length} companies from ${params.uploadId ? 'the uploaded file' : 'sheet'}, ${groups.length} after de-duplication`);
+      if (params.useEmployerIds) {
+        const { validated, decisions, fromInn } = await loadEmployerIdSources(toSheetInput(params), job.ownerId, {
+          rows,
+          resolveInn: createInnResolver(client, normalizer)
+        });
+        const attached = attachEmployerIds(groups, validated, normalizer, decisions);
+        state.groups = attached.groups;
+        if (fromInn > 0) log(`Resolved HH employers of ${fromInn} companies by INN`);
+        log(`${attached.withIds} of ${groups.length} companies have HH employer ids, the rest are matched by name`);
+      }
+      report.merged.forEach(group => log(`Merged ${group.companies.map(name => `"${name}"`).join(', ')} as "${group.cleanName}"`));
+      report.skipped.forEach(company => log(`Skipping "${company}": empty after cleaning`));
+      cursor.phase = 'search';
+      job.progress = {
+        phase: 'search',
+        completed: 0,
+        total: state.groups.length,
+        message: 'Searching resumes',
+        counters: counters()
+      };
+      await checkpoint();
+    }
+
+    while (cursor.phase === 'search') {
+      if (await shouldStop()) return undefined;
+
+      // The limit counts candidates after merging and filtering, so it is checked against the run
+      if (cursor.companyIndex >= state.groups.length || state.matched >= params.totalLimit) {
+        log(`Search finished with ${state.matched} resumes`);
+        if (state.failedPages?.length) {
+          log(`Pages that could not be fetched: ${state.failedPages.join(', ')}`, 'error');
+        }
+        cursor.phase = 'enrich';
+        job.progress = {
+          phase: 'enrich',
+          completed: 0,
+          total: state.matched,
+          message: 'Fetching resume details',
+          counters: counters()
+        };
+        await checkpoint();
+        break;
+      }
+
+      const group = state.groups[cursor.companyIndex];
+      const { cleanName } = group;
+      const company = group.companies[0];
+
+      try {
+        const result = await searchCompanyPage(
+          client, group, query, cursor.page, normalizer, params.filters, params.experienceRules
+        );
+        // The same candidate can be found through several companies; they are kept once
+        const { merged, skipped } = mergeIntoRun(
+          job.id,
+          result.items.map(item => ({ ...item, matchedCompany: company })),
+          { limit: params.totalLimit, newSinceRunId: params.newSinceRunId }
+        );
+        state.matched = countRunResumes(job.id);
+        log(`Found ${result.items.length} matches on page ${cursor.page} for ${cleanName} (${result.found} total hits)`);
+        if (merged > 0) log(`Merged ${merged} duplicate candidates`);
+        if (skipped > 0) log(`Skipped ${skipped} candidates already found by the earlier run`);
+
+        cursor.pageAttempts = 0;
+        cursor.companyFound = result.found;
+        if (result.hasMore) {
+          cursor.page++;
+        } else {
+          cursor.companyIndex++;
+          cursor.page = 0;
+          cursor.companyFound = undefined;
+        }
+      } catch (error) {
+        if (isSessionExpiredError(error)) throw error;
+        const attempts = (cursor.pageAttempts || 0) + 1;
+        const message = error instanceof Error ? error.message : String(error);
+        if (attempts < MAX_PAGE_ATTEMPTS) {
+          log(`Error fetching page ${cursor.page} for company ${cleanName}, retrying (${attempts}/${MAX_PAGE_ATTEMPTS}): ${message}`);
+          cursor.pageAttempts = attempts;
+        } else {
+          log(`Giving up on page ${cursor.page} for company ${cleanName} after ${attempts} attempts: ${message}`, 'error');
+          state.errors++;
+          state.failedPages = [...(state.failedPages || []), `${cleanName} page ${cursor.page}`];
+          cursor.pageAttempts = 0;
+          // The company's later pages are still searched when its first page told how many there are
+          const nextPage = cursor.page + 1;
+          const available = Math.min(cursor.companyFound || 0, MAX_RESULTS_PER_COMPANY);
+          if (nextPage * ITEMS_PER_PAGE < available) {
+            cursor.page = nextPage;
+          } else {
+            cursor.companyIndex++;
+            cursor.page = 0;
+            cursor.companyFound = undefined;
+          }
+        }
+      }
+
+      job.progress = {
+        phase: 'search',
+        completed: cursor.companyIndex,
+        total: state.groups.length,
+        message: `${state.matched} resumes matched`,
+        current: company,
+        counters: counters()
+      };
+      await checkpoint();
+    }
+
+    while (cursor.phase === 'enrich') {
+      if (await shouldStop()) return undefined;
+
+      if (cursor.enrichmentOffset >= state.matched) {
+        cursor.phase = 'write';
+        await checkpoint();
+        break;
+      }
+
+      const batch = getRunResumes<Resume>(job.id, { offset: cursor.enrichmentOffset, limit: ENRICH_BATCH_SIZE })
+        .map(resume => resume.data);
+      const enriched = await enrichResumes(client, batch);
+      // Appending keeps each resume at its place in the run
+      saveRunResumes(job.id, enriched, item => item.matchedCompany || null, { append: true });
+      cursor.enrichmentOffset += batch.length;
+
+      job.progress = {
+        phase: 'enrich',
+        completed: cursor.enrichmentOffset,
+        total: state.matched,
+        message: 'Fetching resume details',
+        counters: counters()
+      };
+      await checkpoint();
+    }
+
+    if (cursor.phase === 'write') {
+      if (await shouldStop()) return undefined;
+
+      const output = params.output || 'sheets';
+      const items = getRunResumes<Resume>(job.id).map(resume => resume.data);
+      job.progress = {
+        phase: 'write',
+        completed: 0,
+        total: items.length,
+        message: output === 'sheets' ? 'Writing to Google Sheet' : 'Saving results',
+        counters: counters()
+      };
+      await checkpoint();
+      // The resumes were saved in the run as they were found, so a Sheets failure doesn't lose
+      // them. File outputs are rendered from the run when they are downloaded.
+      if (output === 'sheets') {
+        const written = await createSheetsSink({ spreadsheetId: sheetId as string, mode: params.sheetMode })
+          .write(toResumeTable(withCandidateHistory(items, job.ownerId, job.id)));
+        if (written.format === 'sheets') {
+          log(`Written ${items.length} resumes to sheet (${written.appended} added, ${written.updated} updated)`);
+        }
+      } else {
+        log(`Saved ${items.length} resumes, ready to download as ${OUTPUT_FORMAT_LABELS[output]}`);
+      }
+
+      cursor.phase = 'done';
+      job.progress = {
+        phase: 'done',
+        completed: items.length,
+        total: items.length,
+        message: 'Done',
+        counters: counters()
+      };
+      return {
+        count: items.length,
+        sheetId: sheetId || undefined,
+        message: output === 'sheets' ? 'Data successfully written to sheet' : 'Results are ready to download',
+        dedupe: state.dedupe,
+        downloadUrl: output === 'sheets' ? undefined : runDownloadUrl(job.id, output)
+      };
+    }
+
+    return undefined;
+  },
+
+  onSettled(job) {
+    finishRun(job.id, {
+      status: job.status === 'completed' ? 'completed' : job.status === 'cancelled' ? 'cancelled' : 'failed',
+      resultCount: countRunResumes(job.id),
+      error: job.error,
+      apiCalls: job.apiCalls
+    });
+  }
+};
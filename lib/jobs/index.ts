@@ -0,0 +1,5 @@
+export * from './types';
+export { JobError, jobErrorResponse } from './errors';
+export { CHUNK_BUDGET_MS, cancelActiveJobs, controlJob, createJob, getOwnedJob, runJobChunk, toJobSummary } from './runner';
+export { deleteJob, listJobs, loadJob, saveJob } from './store';
+export { getJobHandler } from './handlers';
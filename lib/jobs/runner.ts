@@ -0,0 +1,228 @@
+import { v4 as uuidv4 } from 'uuid';
+import { claimJobLease, isJobLeased, releaseJobLease } from '@/lib/db';
+import { HHClient, createCallMetrics, isHHApiError, type HHCallMetrics } from '@/lib/hh';
+import { logEvent, type ProgressEmitter, type ProgressLogLevel } from '@/lib/progress/events';
+import { JobError } from './errors';
+import { getJobHandler } from './handlers';
+import { listJobs, loadJob, saveJob } from './store';
+import { ACTIVE_JOB_STATUSES, FINISHED_JOB_STATUSES, type Job, type JobAction, type JobSummary } from './types';
+
+// A chunk must finish inside the 60s function limit, including the final checkpoint
+export const CHUNK_BUDGET_MS = 45 * 1000;
+const LEASE_MS = CHUNK_BUDGET_MS + 15 * 1000;
+const MAX_LOG_LINES = 200;
+
+export function toJobSummary(job: Job): JobSummary {
+  const summary: Partial<Job> = { ...job };
+  delete summary.state;
+  return summary as JobSummary;
+}
+
+// Handler hooks must never turn a settled job back into a failure
+function settle(job: Job) {
+  if (!FINISHED_JOB_STATUSES.includes(job.status)) return;
+  try {
+    getJobHandler(job.type)?.onSettled?.(job);
+  } catch (error) {
+    console.error(`onSettled failed for job ${job.id}:`, error);
+  }
+}
+
+function addMetrics(total: HHCallMetrics, chunk: HHCallMetrics) {
+  (Object.keys(total) as (keyof HHCallMetrics)[]).forEach(key => {
+    total[key] += chunk[key];
+  });
+}
+
+export async function createJob(type: string, ownerId: string, input: unknown): Promise<Job> {
+  const handler = getJobHandler(type);
+  if (!handler) {
+    throw new JobError(`Unknown job type: ${type}`);
+  }
+
+  const params = handler.parseParams(input, { ownerId });
+  const now = new Date().toISOString();
+  const job: Job = {
+    id: uuidv4(),
+    type,
+    ownerId,
+    status: 'pending',
+    params,
+    cursor: handler.initialCursor(params),
+    state: handler.initialState(params),
+    progress: handler.initialProgress(params),
+    logs: [],
+    apiCalls: createCallMetrics(),
+    createdAt: now,
+    updatedAt: now
+  };
+
+  await saveJob(job);
+  return job;
+}
+
+export async function getOwnedJob(id: string, ownerId: string): Promise<Job> {
+  const job = await loadJob(id);
+  // Someone else's job is reported as missing rather than forbidden
+  if (!job || job.ownerId !== ownerId) {
+    throw new JobError('Job not found', 404);
+  }
+  return job;
+}
+
+// Pause/cancel requests are written to the job file by another request; adopt them
+// before every save so a running chunk never overwrites them.
+async function syncControlState(job: Job) {
+  const stored = await loadJob(job.id);
+  if (stored && (stored.status === 'paused' || stored.status === 'cancelled')) {
+    job.status = stored.status;
+  }
+}
+
+// Runs one time-boxed chunk of the job. Returns immediately when the job is not active
+// or another chunk currently holds its lease. `onEvent` receives a log event per log line
+// and a progress event per checkpoint, for streaming to the browser.
+export async function runJobChunk(
+  id: string,
+  options: { ownerId: string; accessToken: string; budgetMs?: number; onEvent?: ProgressEmitter }
+): Promise<Job> {
+  const emit: ProgressEmitter = options.onEvent || (() => undefined);
+  const job = await getOwnedJob(id, options.ownerId);
+  if (!ACTIVE_JOB_STATUSES.includes(job.status)) return job;
+
+  const handler = getJobHandler(job.type);
+  if (!handler) {
+    throw new JobError(`Unknown job type: ${job.type}`, 500);
+  }
+
+  const leaseHolder = uuidv4();
+  if (!claimJobLease(job.id, leaseHolder, LEASE_MS)) return job;
+
+  // The job may have been paused, cancelled or finished by the chunk that held the lease before
+  const current = await loadJob(job.id);
+  if (!current || !ACTIVE_JOB_STATUSES.includes(current.status)) {
+    releaseJobLease(job.id, leaseHolder);
+    return current || job;
+  }
+  Object.assign(job, current);
+
+  job.status = 'running';
+  try {
+    await saveJob(job);
+  } catch (error) {
+    releaseJobLease(job.id, leaseHolder);
+    throw error;
+  }
+
+  const deadline = Date.now() + (options.budgetMs || CHUNK_BUDGET_MS);
+  const client = new HHClient({ accessToken: options.accessToken });
+
+  const context = {
+    client,
+    log(message: string, level: ProgressLogLevel = 'info') {
+      const event = logEvent(message, level);
+      emit(event);
+      (level === 'error' ? console.error : console.log)(`[job ${job.id}] ${message}`);
+      job.logs.push(`${event.timestamp} ${level === 'error' ? 'ERROR ' : ''}${message}`);
+      if (job.logs.length > MAX_LOG_LINES) {
+        job.logs.splice(0, job.logs.length - MAX_LOG_LINES);
+      }
+    },
+    async checkpoint() {
+      await syncControlState(job);
+      await saveJob(job);
+      emit({ type: 'progress', ...job.progress });
+    },
+    async shouldStop() {
+      if (Date.now() > deadline) return true;
+      const stored = await loadJob(job.id);
+      return !stored || !ACTIVE_JOB_STATUSES.includes(stored.status);
+    }
+  };
+
+  let authError: unknown = null;
+  try {
+    const result = await handler.runChunk(job, context);
+    await syncControlState(job);
+    if (result !== undefined && job.status === 'running') {
+      job.status = 'completed';
+      job.result = result;
+      context.log('Job completed');
+    }
+  } catch (error) {
+    await syncControlState(job);
+    if (isHHApiError(error) && error.status === 401) {
+      // Nothing is lost: the job stays active and continues once the token is refreshed
+      context.log('HH.ru session expired, waiting for a new token');
+      authError = error;
+    } else if (!FINISHED_JOB_STATUSES.includes(job.status)) {
+      job.status = 'failed';
+      job.error = error instanceof Error ? error.message : String(error);
+      context.log(`Job failed: ${job.error}`, 'error');
+    }
+  } finally {
+    addMetrics(job.apiCalls, client.metrics);
+    try {
+      await syncControlState(job);
+      await saveJob(job);
+    } finally {
+      releaseJobLease(job.id, leaseHolder);
+    }
+  }
+
+  settle(job);
+
+  if (authError) throw authError;
+  return job;
+}
+
+export async function controlJob(id: string, ownerId: string, action: JobAction): Promise<Job> {
+  const job = await getOwnedJob(id, ownerId);
+
+  switch (action) {
+    case 'pause':
+      if (!ACTIVE_JOB_STATUSES.includes(job.status)) {
+        throw new JobError(`Cannot pause a ${job.status} job`, 409);
+      }
+      job.status = 'paused';
+      break;
+    case 'resume':
+      // Failed jobs resume from their last checkpoint, e.g. after a Sheets outage
+      if (job.status !== 'paused' && job.status !== 'failed') {
+        throw new JobError(`Cannot resume a ${job.status} job`, 409);
+      }
+      job.status = 'pending';
+      job.error = undefined;
+      break;
+    case 'cancel':
+      if (FINISHED_JOB_STATUSES.includes(job.status)) {
+        throw new JobError(`Cannot cancel a ${job.status} job`, 409);
+      }
+      job.status = 'cancelled';
+      break;
+    default:
+      throw new JobError(`Unknown action: ${action}`);
+  }
+
+  await saveJob(job);
+  // A running chunk notices the cancellation itself; an idle job is settled here
+  if (action === 'cancel' && !isJobLeased(job.id)) {
+    settle(job);
+  }
+  return job;
+}
+
+// Used by logout: unfinished jobs would otherwise keep running with the revoked token
+export async function cancelActiveJobs(ownerId: string): Promise<number> {
+  const jobs = await listJobs(ownerId);
+  const active = jobs.filter(job => !FINISHED_JOB_STATUSES.includes(job.status));
+  await Promise.all(active.map(job => {
+    job.status = 'cancelled';
+    job.error = 'Cancelled on logout';
+    // As in controlJob: a job with a running chunk is settled by that chunk
+    return saveJob(job).then(() => {
+      if (!isJobLeased(job.id)) settle(job);
+    });
+  }));
+  return active.length;
+}
@@ -0,0 +1,64 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { validate as isUuid } from 'uuid';
+import type { Job } from './types';
+
+// One JSON file per job under JOBS_DIR (default .data/jobs). No external broker: any
+// instance with access to the directory can pick a job up from its persisted cursor.
+
+function getJobsDir(): string {
+  return process.env.JOBS_DIR || path.join(process.cwd(), '.data', 'jobs');
+}
+
+function jobPath(id: string): string {
+  if (!isUuid(id)) {
+    throw new Error(`Invalid job id: ${id}`);
+  }
+  return path.join(getJobsDir(), `${id}.json`);
+}
+
+export async function saveJob(job: Job): Promise<void> {
+  const filePath = jobPath(job.id);
+  await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+  job.updatedAt = new Date().toISOString();
+
+  // Write to a temp file and rename so readers never see a half-written job
+  const tmpPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+  await fs.writeFile(tmpPath, JSON.stringify(job), 'utf8');
+  await fs.rename(tmpPath, filePath);
+}
+
+export async function loadJob(id: string): Promise<Job | null> {
+  if (!isUuid(id)) return null;
+  try {
+    return JSON.parse(await fs.readFile(jobPath(id), 'utf8'));
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return null;
+    throw error;
+  }
+}
+
+export async function listJobs(ownerId: string): Promise<Job[]> {
+  let files: string[];
+  try {
+    files = await fs.readdir(getJobsDir());
+  } catch (error: any) {
+    if (error?.code === 'ENOENT') return [];
+    throw error;
+  }
+
+  const jobs = await Promise.all(
+    files
+      .filter(file => file.endsWith('.json'))
+      .map(file => loadJob(file.replace(/\.json$/, '')).catch(() => null))
+  );
+
+  return jobs
+    .filter((job): job is Job => job !== null && job.ownerId === ownerId)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteJob(id: string): Promise<void> {
+  await fs.rm(jobPath(id), { force: true });
+}
@@ -0,0 +1,59 @@
+import type { HHCallMetrics, HHClient } from '@/lib/hh';
+import type { ProgressLogLevel, ProgressSnapshot } from '@/lib/progress/events';
+
+export type JobStatus = 'pending' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// Jobs in these states still have work to do and accept /run calls
+export const ACTIVE_JOB_STATUSES: JobStatus[] = ['pending', 'running'];
+export const FINISHED_JOB_STATUSES: JobStatus[] = ['completed', 'failed', 'cancelled'];
+
+export type JobAction = 'pause' | 'resume' | 'cancel';
+
+// Also what the progress panel renders while a chunk streams its events
+export type JobProgress = ProgressSnapshot;
+
+export interface Job<TParams = unknown, TCursor = unknown, TState = unknown, TResult = unknown> {
+  id: string;
+  type: string;
+  ownerId: string;
+  status: JobStatus;
+  params: TParams;
+  // Where the next chunk picks up; persisted after every unit of work
+  cursor: TCursor;
+  // Data accumulated between chunks (e.g. resumes found so far)
+  state: TState;
+  progress: JobProgress;
+  result?: TResult;
+  error?: string;
+  logs: string[];
+  apiCalls: HHCallMetrics;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Job as returned to the browser: without the (potentially large) accumulated state
+export type JobSummary = Omit<Job, 'state'>;
+
+export interface JobContext {
+  client: HHClient;
+  log(message: string, level?: ProgressLogLevel): void;
+  // Persists cursor, state and progress so an interrupted chunk resumes from here
+  checkpoint(): Promise<void>;
+  // True when the chunk's time budget is used up or the job was paused/cancelled meanwhile
+  shouldStop(): Promise<boolean>;
+}
+
+export interface JobHandler<TParams = any, TCursor = any, TState = any, TResult = any> {
+  type: string;
+  // Throws JobError(400) for invalid input. Runs once, when the job is created, so it is also
+  // where per-user settings get snapshotted into the params.
+  parseParams(input: unknown, context: { ownerId: string }): TParams;
+  initialCursor(params: TParams): TCursor;
+  initialState(params: TParams): TState;
+  initialProgress(params: TParams): JobProgress;
+  // Does as much work as the context allows. Returns the result once the job is finished,
+  // undefined when more chunks are needed.
+  runChunk(job: Job<TParams, TCursor, TState, TResult>, context: JobContext): Promise<TResult | undefined>;
+  // Called once the job is completed, failed or cancelled, e.g. to close its search run
+  onSettled?(job: Job<TParams, TCursor, TState, TResult>): void;
+}
@@ -0,0 +1,20 @@
+export * from './types';
+export {
+  createSheetsSink,
+  csvSink,
+  fileResponseHeaders,
+  getFileSink,
+  jsonlSink,
+  renderOutputFile,
+  xlsxSink
+} from './sinks';
+export type { OutputDelivery, OutputFile, OutputSink, OutputTable, SheetsSinkOptions } from './sinks';
+export {
+  RESUME_CONTACT_OUTPUT_HEADERS,
+  VACANCY_OUTPUT_HEADERS,
+  VACANCY_SEARCH_OUTPUT_HEADERS,
+  toResumeContactTable,
+  toVacancyContactTable,
+  toVacancySearchTable
+} from './tables';
+export type { ResumeContactRow, VacancyContactRow } from './tables';
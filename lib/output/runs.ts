@@ -0,0 +1,72 @@
+import { findLatestContact, getRunCompanies, getRunContacts, getRunResumes, getRunVacancies, type SearchRun } from '@/lib/db';
+import { toValidationTable, type CompanyValidation } from '@/lib/employers/validation';
+import type { HHResume, HHResumeContact } from '@/lib/hh';
+import { toResumeTable, withCandidateHistory, type Resume } from '@/lib/resumeSearch';
+import type { OutputTable } from './sinks';
+import { toResumeContactTable, toVacancyContactTable, toVacancySearchTable } from './tables';
+
+// Phone and email from a resume's contact list, as HH returns it once contacts are opened
+export function readResumeContacts(contacts: HHResumeContact[] | undefined): { phone: string; email: string } {
+  const result = { phone: '', email: '' };
+  if (!Array.isArray(contacts)) return result;
+
+  const phoneContact = contacts.find(c => c.type.id === 'cell' || c.type.id === 'phone');
+  const emailContact = contacts.find(c => c.type.id === 'email');
+
+  if (phoneContact && typeof phoneContact.value !== 'string') {
+    result.phone = phoneContact.value.formatted || phoneContact.value.number || '';
+  }
+  if (emailContact && typeof emailContact.value === 'string') {
+    result.email = emailContact.value;
+  }
+  return result;
+}
+
+function resumeContactTable(run: SearchRun): OutputTable {
+  const contacts = new Map(getRunContacts(run.id).map(contact => [contact.sourceId, contact]));
+  return toResumeContactTable(getRunResumes<HHResume>(run.id).map(({ id, data }) => {
+    // Contacts reused from an earlier run are stored with that run
+    const contact = contacts.get(id) || findLatestContact(run.ownerId, 'resume', id);
+    const own = readResumeContacts(data.contact);
+    return {
+      resumeLink: data.alternate_url || `https://hh.ru/resume/${id}`,
+      fullName: contact?.fullName || [data.last_name, data.first_name].filter(Boolean).join(' '),
+      currentTitle: data.title || '',
+      phone: contact?.phone || own.phone,
+      email: contact?.email || own.email
+    };
+  }));
+}
+
+// Rebuilds a run's results from the local database, so any format can be downloaded later
+export function runOutputTable(run: SearchRun): OutputTable {
+  if (run.type === 'vacancy-contacts') {
+    const contacts = new Map(getRunContacts(run.id).map(contact => [contact.sourceId, contact]));
+    return toVacancyContactTable(getRunVacancies(run.id).map(({ vacancy, companyName, inn, innCheck, registryName }) => {
+      const contact = contacts.get(vacancy.id);
+      return {
+        companyName: companyName || '',
+        inn: inn || '',
+        fullName: contact?.fullName || '',
+        email: contact?.email || '',
+        phone: contact?.phone || '',
+        phoneComment: contact?.phoneComment || '',
+        individualVacancyLink: vacancy.alternate_url || '',
+        innCheck: innCheck || '',
+        registryName: registryName || ''
+      };
+    }));
+  }
+  if (run.type === 'resume-contacts') {
+    return resumeContactTable(run);
+  }
+  if (run.type === 'vacancy-search') {
+    return toVacancySearchTable(getRunVacancies(run.id).map(({ vacancy }) => vacancy));
+  }
+  if (run.type === 'company-validation') {
+    return toValidationTable(getRunCompanies<CompanyValidation>(run.id));
+  }
+
+  const items = getRunResumes<Resume>(run.id).map(resume => resume.data);
+  return toResumeTable(withCandidateHistory(items, run.ownerId, run.id));
+}
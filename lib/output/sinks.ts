@@ -0,0 +1,121 @@
+import * as XLSX from 'xlsx';
+import { toCsv } from '@/lib/csv';
+import { writeSheetTable, type SheetWriteMode } from '@/lib/sheets/writer';
+import type { FileOutputFormat, OutputFormat } from './types';
+
+type Cell = string | number | null | undefined;
+
+// What every tool hands to a sink: one header row and data rows in the same column order
+export interface OutputTable {
+  // Worksheet name, also used for file names
+  name: string;
+  headers: string[];
+  rows: Cell[][];
+  // Column identifying a row when a sheet is upserted
+  keyHeader?: string;
+}
+
+export interface OutputFile {
+  filename: string;
+  contentType: string;
+  body: Buffer | string;
+}
+
+export type OutputDelivery =
+  | { format: 'sheets'; sheet: string; appended: number; updated: number }
+  | { format: FileOutputFormat; file: OutputFile };
+
+export interface OutputSink {
+  readonly format: OutputFormat;
+  write(table: OutputTable): Promise<OutputDelivery>;
+}
+
+export interface SheetsSinkOptions {
+  spreadsheetId: string;
+  mode?: SheetWriteMode;
+}
+
+// Excel caps worksheet names at 31 characters and forbids a few symbols
+function toWorksheetName(name: string): string {
+  return name.replace(/[\\/?*[\]:]/g, ' ').slice(0, 31) || 'Sheet1';
+}
+
+function toFilename(name: string, extension: string): string {
+  return `${name.replace(/[^\w.-]+/g, '_')}.${extension}`;
+}
+
+export function createSheetsSink({ spreadsheetId, mode = 'overwrite' }: SheetsSinkOptions): OutputSink {
+  return {
+    format: 'sheets',
+    async write(table) {
+      const written = await writeSheetTable(spreadsheetId, {
+        sheet: table.name,
+        headers: table.headers,
+        rows: table.rows,
+        mode,
+        keyHeader: table.keyHeader
+      });
+      return { format: 'sheets', sheet: table.name, ...written };
+    }
+  };
+}
+
+// Renders the table as a file; nothing is stored, the caller sends it to the browser
+function createFileSink(format: FileOutputFormat, render: (table: OutputTable) => Omit<OutputFile, 'filename'>, extension: string): OutputSink {
+  return {
+    format,
+    async write(table) {
+      return { format, file: { filename: toFilename(table.name, extension), ...render(table) } };
+    }
+  };
+}
+
+export const xlsxSink = createFileSink('xlsx', table => {
+  const workbook = XLSX.utils.book_new();
+  const worksheet = XLSX.utils.aoa_to_sheet([table.headers, ...table.rows.map(row => row.map(cell => cell ?? ''))]);
+  XLSX.utils.book_append_sheet(workbook, worksheet, toWorksheetName(table.name));
+  return {
+    contentType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    body: XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer
+  };
+}, 'xlsx');
+
+// The byte order mark makes Excel open the file as UTF-8 instead of the system code page
+export const csvSink = createFileSink('csv', table => ({
+  contentType: 'text/csv; charset=utf-8',
+  body: `\uFEFF${toCsv([table.headers, ...table.rows])}`
+}), 'csv');
+
+// One JSON object per row, keyed by header
+export const jsonlSink = createFileSink('jsonl', table => ({
+  contentType: 'application/x-ndjson; charset=utf-8',
+  body: table.rows
+    .map(row => JSON.stringify(Object.fromEntries(table.headers.map((header, index) => [header, row[index] ?? null]))))
+    .join('\n')
+}), 'jsonl');
+
+const FILE_SINKS: Record<FileOutputFormat, OutputSink> = {
+  xlsx: xlsxSink,
+  csv: csvSink,
+  jsonl: jsonlSink
+};
+
+export function getFileSink(format: FileOutputFormat): OutputSink {
+  return FILE_SINKS[format];
+}
+
+// Renders a table with one of the file sinks
+export async function renderOutputFile(format: FileOutputFormat, table: OutputTable): Promise<OutputFile> {
+  const delivery = await getFileSink(format).write(table);
+  if (delivery.format === 'sheets') {
+    throw new Error('Expected a file output');
+  }
+  return delivery.file;
+}
+
+export function fileResponseHeaders(file: OutputFile): Record<string, string> {
+  return {
+    'Content-Type': file.contentType,
+    'Content-Disposition': `attachment; filename="${file.filename}"`
+  };
+}
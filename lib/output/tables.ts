@@ -0,0 +1,80 @@
+import type { HHVacancy } from '@/lib/hh';
+import type { OutputTable } from './sinks';
+
+// Tables of the contact and vacancy tools; the resume search builds its own (toResumeTable)
+
+export interface VacancyContactRow {
+  companyName: string;
+  inn: string;
+  fullName: string;
+  email: string;
+  phone: string;
+  phoneComment: string;
+  individualVacancyLink: string;
+  // Whether the vacancy's employer is the company of the row's INN; empty without an INN
+  innCheck: string;
+  registryName: string;
+}
+
+export const VACANCY_OUTPUT_HEADERS = [
+  'Company name', 'INN', 'Full name', 'Email', 'Phone', 'Phone Comment', 'Individual Vacancy Link',
+  'INN check', 'Registry name'
+];
+
+// Vacancies are keyed by their link when a sheet is upserted
+export function toVacancyContactTable(rows: VacancyContactRow[]): OutputTable {
+  return {
+    name: 'Vacancies_output',
+    headers: VACANCY_OUTPUT_HEADERS,
+    rows: rows.map(row => [
+      row.companyName,
+      row.inn,
+      row.fullName,
+      row.email,
+      row.phone,
+      row.phoneComment,
+      row.individualVacancyLink,
+      row.innCheck,
+      row.registryName
+    ]),
+    keyHeader: 'Individual Vacancy Link'
+  };
+}
+
+export interface ResumeContactRow {
+  resumeLink: string;
+  fullName: string;
+  currentTitle: string;
+  phone: string;
+  email: string;
+}
+
+export const RESUME_CONTACT_OUTPUT_HEADERS = ['Link to resume', 'Full name', 'Current title', 'Phone', 'Email'];
+
+export function toResumeContactTable(rows: ResumeContactRow[]): OutputTable {
+  return {
+    name: 'Resume_contacts',
+    headers: RESUME_CONTACT_OUTPUT_HEADERS,
+    rows: rows.map(row => [row.resumeLink, row.fullName, row.currentTitle, row.phone, row.email]),
+    keyHeader: 'Link to resume'
+  };
+}
+
+export const VACANCY_SEARCH_OUTPUT_HEADERS = ['ID', 'Name', 'Employer', 'Salary From', 'Salary To', 'Currency', 'URL'];
+
+export function toVacancySearchTable(items: HHVacancy[]): OutputTable {
+  return {
+    name: 'vacancies',
+    headers: VACANCY_SEARCH_OUTPUT_HEADERS,
+    rows: items.map(item => [
+      item.id,
+      item.name,
+      item.employer?.name || '',
+      item.salary?.from ?? '',
+      item.salary?.to ?? '',
+      item.salary?.currency || '',
+      item.alternate_url || ''
+    ]),
+    keyHeader: 'ID'
+  };
+}
@@ -0,0 +1,32 @@
+// Where a run's results go. Shared with the browser, so nothing here may import server code.
+
+// sheets: written to the Google Sheet; the others are downloaded from the run afterwards
+export type OutputFormat = 'sheets' | 'xlsx' | 'csv' | 'jsonl';
+
+export type FileOutputFormat = Exclude<OutputFormat, 'sheets'>;
+
+export const OUTPUT_FORMAT_LABELS: Record<OutputFormat, string> = {
+  sheets: 'Google Sheet',
+  xlsx: 'Excel (.xlsx)',
+  csv: 'CSV',
+  jsonl: 'JSON Lines'
+};
+
+export const FILE_OUTPUT_FORMATS: FileOutputFormat[] = ['xlsx', 'csv', 'jsonl'];
+
+export function isFileOutputFormat(value: unknown): value is FileOutputFormat {
+  return FILE_OUTPUT_FORMATS.includes(value as FileOutputFormat);
+}
+
+export function parseOutputFormat(input: unknown): OutputFormat {
+  if (input === undefined || input === null || input === '') return 'sheets';
+  if (input !== 'sheets' && !isFileOutputFormat(input)) {
+    throw new Error(`output must be one of: ${Object.keys(OUTPUT_FORMAT_LABELS).join(', ')}`);
+  }
+  return input;
+}
+
+// Where the browser downloads a run's results in a file format
+export function runDownloadUrl(runId: string, format: FileOutputFormat): string {
+  return `/api/runs/${runId}?format=${format}`;
+}
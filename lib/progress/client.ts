@@ -0,0 +1,66 @@
+// Browser-side reader for the text/event-stream responses of createEventStream. EventSource
+// can't be used because the streaming routes are POSTs.
+import type { ProgressEvent } from './events';
+
+export const EVENT_STREAM_HEADERS = { Accept: 'text/event-stream' };
+
+function parseBlock(block: string): ProgressEvent | null {
+  const data = block
+    .split('\n')
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).trimStart())
+    .join('\n');
+  if (!data) return null;
+
+  try {
+    return JSON.parse(data);
+  } catch {
+    return null;
+  }
+}
+
+// Calls onEvent for every event and resolves with the `result` payload. Throws on an `error`
+// event; the thrown error carries the event's status.
+export async function readEventStream<T = unknown>(
+  response: Response,
+  onEvent: (event: ProgressEvent) => void
+): Promise<T> {
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => ({}));
+    throw Object.assign(new Error(data.error || `HTTP error! status: ${response.status}`), { status: response.status });
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let result: { value: T } | null = null;
+
+  const handle = (event: ProgressEvent) => {
+    onEvent(event);
+    if (event.type === 'result') {
+      result = { value: event.data as T };
+    } else if (event.type === 'error') {
+      throw Object.assign(new Error(event.error), { status: event.status });
+    }
+  };
+
+  while (true) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+
+    let boundary = buffer.indexOf('\n\n');
+    while (boundary !== -1) {
+      const event = parseBlock(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+      if (event) handle(event);
+      boundary = buffer.indexOf('\n\n');
+    }
+
+    if (done) break;
+  }
+
+  if (!result) {
+    throw new Error('The progress stream ended without a result');
+  }
+  return (result as { value: T }).value;
+}
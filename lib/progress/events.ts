@@ -0,0 +1,34 @@
+// Structured progress events shared by the streaming routes and the browser progress panel
+
+export interface ProgressSnapshot {
+  phase: string;
+  completed: number;
+  total: number;
+  message?: string;
+  // What is being worked on right now, e.g. the company name
+  current?: string;
+  // Running totals such as { page: 2, matched: 40, enriched: 10, errors: 1 }
+  counters?: Record<string, number>;
+}
+
+export type ProgressLogLevel = 'info' | 'error';
+
+export interface ProgressLogEvent {
+  type: 'log';
+  level: ProgressLogLevel;
+  message: string;
+  timestamp: string;
+}
+
+export type ProgressEvent =
+  | ({ type: 'progress' } & ProgressSnapshot)
+  | ProgressLogEvent
+  // Final payload of the route, the same body the non-streaming response would have
+  | { type: 'result'; data: unknown }
+  | { type: 'error'; error: string; status: number };
+
+export type ProgressEmitter = (event: ProgressEvent) => void;
+
+export function logEvent(message: string, level: ProgressLogLevel = 'info'): ProgressLogEvent {
+  return { type: 'log', level, message, timestamp: new Date().toISOString() };
+}
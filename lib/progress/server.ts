@@ -0,0 +1,65 @@
+import type { NextRequest } from 'next/server';
+import type { ProgressEmitter } from './events';
+
+const HEARTBEAT_MS = 15 * 1000;
+
+// Routes stream Server-Sent Events when the client asks for them and answer with plain JSON otherwise
+export function wantsEventStream(request: NextRequest): boolean {
+  return (request.headers.get('accept') || '').includes('text/event-stream');
+}
+
+function errorStatus(error: unknown): number {
+  const status = (error as { status?: unknown } | null)?.status;
+  return typeof status === 'number' && status >= 400 && status < 600 ? status : 500;
+}
+
+// Runs `work` while streaming every emitted event to the client. Errors become a final `error`
+// event carrying the HTTP status the JSON route would have answered with (401 → refresh and retry).
+export function createEventStream(work: (emit: ProgressEmitter) => Promise<void>): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      let closed = false;
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          // The client went away; the work itself keeps going and persists what it can
+          closed = true;
+        }
+      };
+
+      const emit: ProgressEmitter = event => write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+      // Comment lines keep proxies from closing an idle connection during slow HH calls
+      const heartbeat = setInterval(() => write(': ping\n\n'), HEARTBEAT_MS);
+
+      try {
+        await work(emit);
+      } catch (error) {
+        console.error('Streamed request failed:', error);
+        emit({
+          type: 'error',
+          error: error instanceof Error ? error.message : String(error),
+          status: errorStatus(error)
+        });
+      } finally {
+        clearInterval(heartbeat);
+        if (!closed) {
+          closed = true;
+          controller.close();
+        }
+      }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream; charset=utf-8',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'
+    }
+  });
+}
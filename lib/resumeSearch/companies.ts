@@ -0,0 +1,110 @@
+import { createCompanyNormalizer, type CompanyNormalizer } from '@/lib/companyNames';
+
+const defaultNormalizer = createCompanyNormalizer();
+
+// Cleaned name with the default rules; see lib/companyNames for configurable normalisation
+export function cleanCompanyName(company: string): string {
+  return defaultNormalizer.clean(company);
+}
+
+export interface CompanyGroup {
+  // Comparable key the group was formed by (transliterated, aliases resolved)
+  key: string;
+  cleanName: string;
+  // Cleaned name plus configured aliases, all searched for this group
+  searchTerms: string[];
+  // Input names that clean to the same name, in sheet order; searched once
+  companies: string[];
+  // HH employer ids confirmed for these names (company review or Company_Validation); matched before names
+  employerIds?: string[];
+}
+
+export interface CompanyDedupeReport {
+  // Groups of two or more input companies that were merged into a single search (same key,
+  // e.g. "Яндекс" and "Yandex", or names listed as aliases of one company)
+  merged: CompanyGroup[];
+  // Input names that are empty after cleaning and were not searched at all
+  skipped: string[];
+}
+
+// De-duplication is scoped to one search run: callers group the run's own company list
+// and nothing is remembered between runs.
+export function groupCompaniesByCleanName(
+  companies: string[],
+  normalizer: CompanyNormalizer = defaultNormalizer
+): { groups: CompanyGroup[]; report: CompanyDedupeReport } {
+  const groups = new Map<string, CompanyGroup>();
+  const skipped: string[] = [];
+
+  companies.forEach(company => {
+    const key = normalizer.key(company);
+    if (!key) {
+      skipped.push(company);
+      return;
+    }
+
+    const group = groups.get(key);
+    if (group) {
+      group.companies.push(company);
+    } else {
+      groups.set(key, {
+        key,
+        cleanName: normalizer.clean(company),
+        searchTerms: normalizer.searchTerms(company),
+        companies: [company]
+      });
+    }
+  });
+
+  const allGroups = Array.from(groups.values());
+  return {
+    groups: allGroups,
+    report: {
+      merged: allGroups.filter(group => group.companies.length > 1),
+      skipped
+    }
+  };
+}
+
+// A company review verdict, as far as the search cares
+export interface EmployerVerdict {
+  company: string;
+  employerId: string;
+  status: 'confirmed' | 'rejected';
+}
+
+function addIds(map: Map<string, string[]>, key: string, ids: string[]) {
+  if (!key) return;
+  map.set(key, Array.from(new Set([...(map.get(key) || []), ...ids])));
+}
+
+// Gives each group the HH employer ids of its input names: the ones confirmed in the company
+// review when there are any, else the Company_Validation ids the review didn't reject. Names
+// are compared by their key, so the validation sheet may spell them slightly differently.
+export function attachEmployerIds(
+  groups: CompanyGroup[],
+  validated: { name: string; employerIds: string[] }[],
+  normalizer: CompanyNormalizer = defaultNormalizer,
+  verdicts: EmployerVerdict[] = []
+): { groups: CompanyGroup[]; withIds: number } {
+  const validatedIds = new Map<string, string[]>();
+  const confirmedIds = new Map<string, string[]>();
+  const rejectedIds = new Map<string, string[]>();
+  validated.forEach(({ name, employerIds }) => addIds(validatedIds, normalizer.key(name), employerIds));
+  verdicts.forEach(verdict => addIds(
+    verdict.status === 'confirmed' ? confirmedIds : rejectedIds,
+    normalizer.key(verdict.company),
+    [verdict.employerId]
+  ));
+
+  let withIds = 0;
+  const result = groups.map(group => {
+    const rejected = rejectedIds.get(group.key) || [];
+    const employerIds = confirmedIds.get(group.key)
+      || (validatedIds.get(group.key) || []).filter(id => !rejected.includes(id));
+    if (employerIds.length === 0) return group;
+    withIds++;
+    return { ...group, employerIds };
+  });
+  return { groups: result, withIds };
+}
@@ -0,0 +1,95 @@
+import { countRunResumes, findRunResumes, getCandidateHistory, getRunIdentities, personKey, saveRunResumes } from '@/lib/db';
+import type { Resume } from './types';
+
+export interface ResumeMergeResult {
+  items: Resume[];
+  // Entries folded into an earlier one: same resume id, or same person with another resume
+  merged: number;
+}
+
+// A candidate found through several input companies (or with several resumes) is kept once,
+// at the first position, with every company that found them
+export function mergeResumes(items: Resume[]): ResumeMergeResult {
+  const result: Resume[] = [];
+  const byId = new Map<string, Resume>();
+  const byPerson = new Map<string, Resume>();
+  let merged = 0;
+
+  items.forEach(item => {
+    const key = personKey(item);
+    const existing = byId.get(item.id) || (key ? byPerson.get(key) : undefined);
+    const companies = item.matchedCompanies || (item.matchedCompany ? [item.matchedCompany] : []);
+
+    if (!existing) {
+      const entry = { ...item, matchedCompanies: companies };
+      result.push(entry);
+      byId.set(item.id, entry);
+      if (key) byPerson.set(key, entry);
+      return;
+    }
+
+    merged++;
+    companies.forEach(company => {
+      if (!existing.matchedCompanies?.includes(company)) {
+        existing.matchedCompanies = [...(existing.matchedCompanies || []), company];
+      }
+    });
+    if (item.id !== existing.id && !existing.duplicateResumeIds?.includes(item.id)) {
+      existing.duplicateResumeIds = [...(existing.duplicateResumeIds || []), item.id];
+      byId.set(item.id, existing);
+    }
+  });
+
+  return { items: result, merged };
+}
+
+// Drops candidates (by resume id or person fingerprint) that the given run already found
+export function filterNewSinceRun(items: Resume[], runId: string): Resume[] {
+  const known = getRunIdentities(runId);
+  return items.filter(item => {
+    if (known.ids.has(item.id) || item.duplicateResumeIds?.some(id => known.ids.has(id))) return false;
+    const key = personKey(item);
+    return !key || !known.personKeys.has(key);
+  });
+}
+
+export interface RunMergeResult {
+  // Candidates the run didn't have yet, in the order they were saved
+  added: Resume[];
+  // Entries folded into another one, found earlier in the run or in the same batch
+  merged: number;
+  // Candidates left out because the `newSinceRunId` run already found them
+  skipped: number;
+}
+
+// Saves a batch of found resumes into the run, merged with what the run already has: known
+// candidates only gain the new companies, the others are appended until the run holds `limit`
+export function mergeIntoRun(
+  runId: string,
+  items: Resume[],
+  options: { limit?: number; newSinceRunId?: string } = {}
+): RunMergeResult {
+  const keys = items.map(personKey).filter((key): key is string => !!key);
+  const stored = findRunResumes<Resume>(runId, items.map(item => item.id), keys).map(resume => resume.data);
+  const { items: all, merged } = mergeResumes([...stored, ...items]);
+
+  const changed = all.slice(0, stored.length).filter((entry, index) =>
+    entry.matchedCompanies?.length !== stored[index].matchedCompanies?.length
+    || entry.duplicateResumeIds?.length !== stored[index].duplicateResumeIds?.length);
+  const found = all.slice(stored.length);
+  const fresh = options.newSinceRunId ? filterNewSinceRun(found, options.newSinceRunId) : found;
+  const room = options.limit === undefined ? fresh.length : Math.max(0, options.limit - countRunResumes(runId));
+  const added = fresh.slice(0, room);
+
+  saveRunResumes(runId, [...changed, ...added], item => item.matchedCompany || null, { append: true });
+  return { added, merged, skipped: found.length - fresh.length };
+}
+
+// Adds when the owner's other runs first and last found each candidate; null = new
+export function withCandidateHistory(items: Resume[], ownerId: string, runId: string): Resume[] {
+  const history = getCandidateHistory(ownerId, items.map(item => item.id), { excludeRunId: runId });
+  return items.map(item => {
+    const seen = history.get(item.id);
+    return { ...item, firstSeenAt: seen?.firstSeenAt ?? null, lastSeenAt: seen?.lastSeenAt ?? null };
+  });
+}
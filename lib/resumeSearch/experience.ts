@@ -0,0 +1,116 @@
+import type { CompanyNormalizer } from '@/lib/companyNames';
+import type { HHExperience } from '@/lib/hh';
+
+// How a resume's work history must relate to the searched company
+export interface ExperienceMatchRules {
+  // How long ago the person may have left the company; 0 = only current employees
+  windowMonths: number;
+  // The company must be the resume's latest job, not just any job in the window
+  latestJobOnly: boolean;
+  // Minimum time spent at the company
+  minTenureMonths: number;
+}
+
+// The one-year window the search always used
+export const DEFAULT_EXPERIENCE_MATCH_RULES: ExperienceMatchRules = {
+  windowMonths: 12,
+  latestJobOnly: false,
+  minTenureMonths: 0
+};
+
+const MAX_MONTHS = 50 * 12;
+
+// employer_id: the job's HH employer is one of the validated ids; name: the employer name matched
+export type CompanyMatchMethod = 'employer_id' | 'name';
+
+export interface ExperienceMatch {
+  experience: HHExperience;
+  // Employer name as written in the resume, and how closely it matched (0..1; 1 for an id match)
+  company: string;
+  score: number;
+  method: CompanyMatchMethod;
+  tenureMonths: number;
+  // null while the person still works there
+  leftMonthsAgo: number | null;
+}
+
+// Whole calendar months from `from` to `to` (HH dates are YYYY-MM-DD)
+export function monthsBetween(from: Date, to: Date): number {
+  return Math.max(0, (to.getFullYear() - from.getFullYear()) * 12 + to.getMonth() - from.getMonth());
+}
+
+function toMonths(value: unknown, field: string, fallback: number): number {
+  if (value === undefined || value === null || value === '') return fallback;
+  const months = Number(value);
+  if (!Number.isInteger(months) || months < 0 || months > MAX_MONTHS) {
+    throw new Error(`${field} must be a whole number of months between 0 and ${MAX_MONTHS}`);
+  }
+  return months;
+}
+
+// Validates rules coming from the UI or the API; missing fields fall back to the defaults
+export function parseExperienceMatchRules(input: unknown): ExperienceMatchRules {
+  if (input === undefined || input === null) return { ...DEFAULT_EXPERIENCE_MATCH_RULES };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('experience rules must be an object');
+  }
+  const value = input as Partial<Record<keyof ExperienceMatchRules, unknown>>;
+
+  const latestJobOnly = value.latestJobOnly ?? DEFAULT_EXPERIENCE_MATCH_RULES.latestJobOnly;
+  if (typeof latestJobOnly !== 'boolean') {
+    throw new Error('latestJobOnly must be true or false');
+  }
+  return {
+    windowMonths: toMonths(value.windowMonths, 'windowMonths', DEFAULT_EXPERIENCE_MATCH_RULES.windowMonths),
+    latestJobOnly,
+    minTenureMonths: toMonths(value.minTenureMonths, 'minTenureMonths', DEFAULT_EXPERIENCE_MATCH_RULES.minTenureMonths)
+  };
+}
+
+// Finds the job at `company` that satisfies the rules, preferring the closest name match and,
+// among equally close ones, the most recent job. A job without an end date is current.
+// With validated `employerIds` a job linked to an HH employer only matches by that id; names
+// are compared only for jobs the resume doesn't link to an employer.
+export function matchExperience(
+  experiences: HHExperience[] | undefined,
+  company: string,
+  normalizer: CompanyNormalizer,
+  rules: ExperienceMatchRules = DEFAULT_EXPERIENCE_MATCH_RULES,
+  employerIds: string[] = [],
+  now: Date = new Date()
+): ExperienceMatch | null {
+  // HH lists experience newest first
+  const candidates = (rules.latestJobOnly ? (experiences || []).slice(0, 1) : experiences || [])
+    .filter(exp => exp.company || exp.company_id)
+    .map(exp => ({
+      experience: exp,
+      tenureMonths: exp.start ? monthsBetween(new Date(exp.start), exp.end ? new Date(exp.end) : now) : 0,
+      leftMonthsAgo: exp.end ? monthsBetween(new Date(exp.end), now) : null
+    }))
+    .filter(candidate => candidate.leftMonthsAgo === null
+      || (rules.windowMonths > 0 && candidate.leftMonthsAgo <= rules.windowMonths))
+    .filter(candidate => candidate.tenureMonths >= rules.minTenureMonths);
+
+  if (employerIds.length > 0) {
+    const byId = candidates.find(item => item.experience.company_id && employerIds.includes(item.experience.company_id));
+    if (byId) {
+      return { ...byId, company: byId.experience.company || company, score: 1, method: 'employer_id' };
+    }
+  }
+
+  const byName = employerIds.length > 0 ? candidates.filter(item => !item.experience.company_id) : candidates;
+  const names = byName.map(item => item.experience.company).filter((name): name is string => Boolean(name));
+  const match = normalizer.bestMatch(company, names);
+  if (!match) return null;
+
+  const candidate = byName.find(item => item.experience.company === match.company);
+  return candidate ? { ...candidate, company: match.company, score: match.score, method: 'name' } : null;
+}
+
+// "2 г. 3 мес." style durations for the sheet and the preview
+export function formatMonths(months: number): string {
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (years === 0) return `${rest} мес.`;
+  return rest === 0 ? `${years} г.` : `${years} г. ${rest} мес.`;
+}
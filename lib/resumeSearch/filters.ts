@@ -0,0 +1,137 @@
+import type { HHQuery } from '@/lib/hh';
+
+// Recruiter-facing resume search filters. Option ids are HH.ru dictionary ids
+// (/dictionaries, /areas, /languages), so they pass through to the API unchanged.
+export interface ResumeSearchFilters {
+  // Region ids; empty means the whole of HH.ru
+  areas: string[];
+  ageFrom?: number;
+  ageTo?: number;
+  salaryFrom?: number;
+  salaryTo?: number;
+  // Currency code (RUR, USD, ...) the salary range is given in
+  currency?: string;
+  experience: string[];
+  educationLevel?: string;
+  employment: string[];
+  schedule: string[];
+  jobSearchStatus: string[];
+  // "<language id>.<level id>", e.g. "eng.b2"
+  languages: string[];
+  // Only resumes updated within this many days
+  period?: number;
+  relocation?: string;
+  orderBy?: string;
+  searchFields: string[];
+}
+
+// What the search always used before filters were configurable: Russia, last year,
+// living in or willing to relocate to the region
+export const DEFAULT_RESUME_SEARCH_FILTERS: ResumeSearchFilters = {
+  areas: ['113'],
+  experience: [],
+  employment: [],
+  schedule: [],
+  jobSearchStatus: [],
+  languages: [],
+  period: 365,
+  relocation: 'living_or_relocation',
+  orderBy: 'relevance',
+  searchFields: ['company_name', 'position', 'skill_set']
+};
+
+const MAX_PERIOD_DAYS = 365 * 5;
+
+function toIdList(value: unknown, field: string): string[] {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.some(item => typeof item !== 'string' && typeof item !== 'number')) {
+    throw new Error(`${field} must be a list of ids`);
+  }
+  return value.map(item => String(item).trim()).filter(Boolean);
+}
+
+function toOptionalId(value: unknown, field: string): string | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  if (typeof value !== 'string') {
+    throw new Error(`${field} must be a string`);
+  }
+  return value.trim() || undefined;
+}
+
+function toOptionalNumber(value: unknown, field: string, max: number): number | undefined {
+  if (value === undefined || value === null || value === '') return undefined;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0 || number > max) {
+    throw new Error(`${field} must be a whole number between 0 and ${max}`);
+  }
+  return number;
+}
+
+function checkRange(from: number | undefined, to: number | undefined, field: string) {
+  if (from !== undefined && to !== undefined && from > to) {
+    throw new Error(`${field}: "from" must not be greater than "to"`);
+  }
+}
+
+// Validates filters coming from the UI or the API; missing fields fall back to the defaults
+export function parseResumeSearchFilters(input: unknown): ResumeSearchFilters {
+  if (input === undefined || input === null) return { ...DEFAULT_RESUME_SEARCH_FILTERS };
+  if (typeof input !== 'object' || Array.isArray(input)) {
+    throw new Error('filters must be an object');
+  }
+  const value = input as Partial<Record<keyof ResumeSearchFilters, unknown>>;
+  const orDefault = <K extends keyof ResumeSearchFilters>(key: K): unknown =>
+    value[key] === undefined ? DEFAULT_RESUME_SEARCH_FILTERS[key] : value[key];
+
+  const filters: ResumeSearchFilters = {
+    areas: toIdList(orDefault('areas'), 'areas'),
+    ageFrom: toOptionalNumber(value.ageFrom, 'ageFrom', 100),
+    ageTo: toOptionalNumber(value.ageTo, 'ageTo', 100),
+    salaryFrom: toOptionalNumber(value.salaryFrom, 'salaryFrom', Number.MAX_SAFE_INTEGER),
+    salaryTo: toOptionalNumber(value.salaryTo, 'salaryTo', Number.MAX_SAFE_INTEGER),
+    currency: toOptionalId(value.currency, 'currency'),
+    experience: toIdList(value.experience, 'experience'),
+    educationLevel: toOptionalId(value.educationLevel, 'educationLevel'),
+    employment: toIdList(value.employment, 'employment'),
+    schedule: toIdList(value.schedule, 'schedule'),
+    jobSearchStatus: toIdList(value.jobSearchStatus, 'jobSearchStatus'),
+    languages: toIdList(value.languages, 'languages'),
+    period: toOptionalNumber(orDefault('period'), 'period', MAX_PERIOD_DAYS),
+    relocation: toOptionalId(orDefault('relocation'), 'relocation'),
+    orderBy: toOptionalId(orDefault('orderBy'), 'orderBy'),
+    searchFields: toIdList(orDefault('searchFields'), 'searchFields')
+  };
+
+  checkRange(filters.ageFrom, filters.ageTo, 'age');
+  checkRange(filters.salaryFrom, filters.salaryTo, 'salary');
+  if (filters.languages.some(language => !/^[^.\s]+\.[^.\s]+$/.test(language))) {
+    throw new Error('languages must look like "<language>.<level>", e.g. "eng.b2"');
+  }
+  if (filters.searchFields.length === 0) {
+    throw new Error('searchFields must name at least one field');
+  }
+  return filters;
+}
+
+// Maps the filters to /resumes query parameters; unset filters are left out entirely
+export function toResumeSearchQuery(filters: ResumeSearchFilters): HHQuery {
+  const hasSalary = filters.salaryFrom !== undefined || filters.salaryTo !== undefined;
+  return {
+    area: filters.areas,
+    age_from: filters.ageFrom,
+    age_to: filters.ageTo,
+    salary_from: filters.salaryFrom,
+    salary_to: filters.salaryTo,
+    currency: hasSalary ? filters.currency : undefined,
+    experience: filters.experience,
+    education_level: filters.educationLevel,
+    employment: filters.employment,
+    schedule: filters.schedule,
+    job_search_status: filters.jobSearchStatus,
+    language: filters.languages,
+    period: filters.period,
+    relocation: filters.relocation,
+    order_by: filters.orderBy,
+    search_field: filters.searchFields.join(',')
+  };
+}
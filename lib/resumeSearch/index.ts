@@ -0,0 +1,45 @@
+export * from './types';
+export { attachEmployerIds, cleanCompanyName, groupCompaniesByCleanName } from './companies';
+export type { CompanyDedupeReport, CompanyGroup, EmployerVerdict } from './companies';
+export { filterNewSinceRun, mergeIntoRun, mergeResumes, withCandidateHistory } from './dedupe';
+export type { ResumeMergeResult, RunMergeResult } from './dedupe';
+export {
+  DEFAULT_EXPERIENCE_MATCH_RULES,
+  formatMonths,
+  matchExperience,
+  monthsBetween,
+  parseExperienceMatchRules
+} from './experience';
+export type { CompanyMatchMethod, ExperienceMatch, ExperienceMatchRules } from './experience';
+export {
+  DEFAULT_RESUME_SEARCH_FILTERS,
+  parseResumeSearchFilters,
+  toResumeSearchQuery
+} from './filters';
+export type { ResumeSearchFilters } from './filters';
+export {
+  ITEMS_PER_PAGE,
+  MAX_RESULTS_PER_COMPANY,
+  enrichResumes,
+  searchCompanyPage,
+  toQueryDocument
+} from './search';
+export type { CompanyPageResult } from './search';
+export {
+  decodePreviewCursor,
+  encodePreviewCursor,
+  fetchPreviewChunk,
+  initialPreviewCursor
+} from './preview';
+export type { PreviewChunk, PreviewCursor } from './preview';
+export {
+  RESUME_OUTPUT_HEADERS,
+  RESUME_OUTPUT_SHEET,
+  fetchCompaniesFromSheet,
+  fetchCompanyRowsFromSheet,
+  fetchValidatedCompanies,
+  formatDate,
+  toResumeRow,
+  toResumeTable
+} from './sheet';
+export type { CompanyRow, ValidatedCompany } from './sheet';
@@ -0,0 +1,112 @@
+import type { CompanyNormalizer } from '@/lib/companyNames';
+import { HHClient, isHHApiError } from '@/lib/hh';
+import { logEvent, type ProgressEmitter } from '@/lib/progress/events';
+import type { QueryNode } from '@/lib/searchQuery';
+import type { CompanyGroup } from './companies';
+import type { ExperienceMatchRules } from './experience';
+import type { ResumeSearchFilters } from './filters';
+import { searchCompanyPage } from './search';
+import type { Resume } from './types';
+
+// Where the next preview request continues: the companies still to fetch on `page`, and
+// those that have more results for `page + 1`. Indexes point into the run's company groups.
+export interface PreviewCursor {
+  runId: string;
+  page: number;
+  pending: number[];
+  more: number[];
+}
+
+export interface PreviewChunk {
+  items: Resume[];
+  // null once every company's results have been fetched
+  cursor: PreviewCursor | null;
+  errors: number;
+}
+
+// The cursor travels to the browser and back as an opaque string
+export function encodePreviewCursor(cursor: PreviewCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+}
+
+export function decodePreviewCursor(value: string): PreviewCursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+    const isIndexList = (list: unknown) => Array.isArray(list) && list.every(index => Number.isInteger(index) && index >= 0);
+    if (typeof cursor.runId === 'string' && Number.isInteger(cursor.page) && isIndexList(cursor.pending) && isIndexList(cursor.more)) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new Error('Invalid preview cursor');
+}
+
+export function initialPreviewCursor(runId: string, groups: CompanyGroup[]): PreviewCursor {
+  return { runId, page: 0, pending: groups.map((_, index) => index), more: [] };
+}
+
+// Fetches one page per pending company until the deadline. The first call covers page 0 of
+// every company; following calls go one page deeper for companies that have more results.
+export async function fetchPreviewChunk(
+  client: HHClient,
+  groups: CompanyGroup[],
+  cursor: PreviewCursor,
+  options: {
+    query: QueryNode | null;
+    filters: ResumeSearchFilters;
+    experienceRules: ExperienceMatchRules;
+    normalizer: CompanyNormalizer;
+    deadline: number;
+    emit?: ProgressEmitter;
+  }
+): Promise<PreviewChunk> {
+  const emit: ProgressEmitter = options.emit || (() => undefined);
+  const pending = cursor.pending.filter(index => index < groups.length);
+  const more = [...cursor.more];
+  const items: Resume[] = [];
+  let errors = 0;
+  let done = 0;
+
+  while (done < pending.length && Date.now() < options.deadline) {
+    const group = groups[pending[done]];
+    const company = group.companies[0];
+    emit({
+      type: 'progress',
+      phase: 'search',
+      completed: done,
+      total: pending.length,
+      current: company,
+      counters: { page: cursor.page, matched: items.length, errors }
+    });
+
+    try {
+      const result = await searchCompanyPage(
+        client, group, options.query, cursor.page, options.normalizer, options.filters, options.experienceRules
+      );
+      items.push(...result.items.map(item => ({ ...item, matchedCompany: company })));
+      if (result.hasMore) more.push(pending[done]);
+    } catch (error) {
+      // An expired token fails every following call too; let the client refresh and retry
+      if (isHHApiError(error) && error.status === 401) throw error;
+      console.error(`Error fetching page ${cursor.page} for company ${group.cleanName}:`, error);
+      emit(logEvent(`Error fetching page ${cursor.page} for ${group.cleanName}: ${error instanceof Error ? error.message : String(error)}`, 'error'));
+      errors++;
+    }
+    done++;
+  }
+
+  emit({
+    type: 'progress',
+    phase: 'search',
+    completed: done,
+    total: pending.length,
+    counters: { page: cursor.page, matched: items.length, errors }
+  });
+
+  let next: PreviewCursor | null = { ...cursor, pending: pending.slice(done), more };
+  if (next.pending.length === 0) {
+    next = more.length > 0 ? { runId: cursor.runId, page: cursor.page + 1, pending: more, more: [] } : null;
+  }
+  return { items, cursor: next, errors };
+}
@@ -0,0 +1,124 @@
+import type { CompanyNormalizer } from '@/lib/companyNames';
+import { HHClient, getMaxConcurrency, mapWithConcurrency, type HHQuery } from '@/lib/hh';
+import { createQueryDocument, matchesQuery, toHHTextBlocks, type QueryDocument, type QueryNode } from '@/lib/searchQuery';
+import type { CompanyGroup } from './companies';
+import { DEFAULT_EXPERIENCE_MATCH_RULES, matchExperience, type ExperienceMatchRules } from './experience';
+import { DEFAULT_RESUME_SEARCH_FILTERS, toResumeSearchQuery, type ResumeSearchFilters } from './filters';
+import type { Resume } from './types';
+
+export const ITEMS_PER_PAGE = 100;
+export const MAX_RESULTS_PER_COMPANY = 1000;
+
+const RESUME_FIELDS = 'last_name,first_name,middle_name,age,area,salary,title,experience,total_experience,last_visit,updated_at';
+
+export interface CompanyPageResult {
+  items: Resume[];
+  found: number;
+  // False once this was the last page or the per-company cap is reached
+  hasMore: boolean;
+}
+
+function companyQuery(terms: string[]): string {
+  const quoted = terms.map(term => `"${term}"`);
+  return quoted.length === 1 ? quoted[0] : `(${quoted.join(' OR ')})`;
+}
+
+// HH.ru `text.field` the company block is always searched in: the employer names of the
+// work history, which is also where matchExperience looks for the company afterwards
+const COMPANY_TEXT_FIELD = 'experience_company';
+
+// The company condition goes out as its own text block whatever the query looks like; the
+// query's unscoped part searches everywhere and its title:/skills:/experience: parts their
+// own sections. HH ANDs the blocks; `text.field` pairs with `text` by position.
+function toTextQuery(group: CompanyGroup, query: QueryNode | null): HHQuery {
+  const blocks = toHHTextBlocks(query);
+  return {
+    text: [companyQuery(group.searchTerms), ...blocks.map(block => block.text)],
+    'text.field': [COMPANY_TEXT_FIELD, ...blocks.map(block => block.field || 'everywhere')]
+  };
+}
+
+// The resume's sections as the local query matcher sees them
+export function toQueryDocument(item: Resume): QueryDocument {
+  const experience = item.experience || [];
+  return createQueryDocument({
+    title: [item.title || ''],
+    skills: item.skill_set || [],
+    experience: experience.flatMap(exp => [exp.company || '', exp.position || '', exp.description || '']),
+    other: [item.lastJobDescription || '']
+  });
+}
+
+// Fetches one page of resumes mentioning the company (or one of its aliases) and keeps only
+// those with a job at it (per the normaliser's threshold) that satisfies the experience rules.
+export async function searchCompanyPage(
+  client: HHClient,
+  group: CompanyGroup,
+  query: QueryNode | null,
+  page: number,
+  normalizer: CompanyNormalizer,
+  filters: ResumeSearchFilters = DEFAULT_RESUME_SEARCH_FILTERS,
+  experienceRules: ExperienceMatchRules = DEFAULT_EXPERIENCE_MATCH_RULES
+): Promise<CompanyPageResult> {
+  const data = await client.searchResumes({
+    ...toResumeSearchQuery(filters),
+    ...toTextQuery(group, query),
+    per_page: ITEMS_PER_PAGE,
+    clusters: 'true',
+    no_magic: 'true',
+    fields: RESUME_FIELDS,
+    page
+  });
+
+  if (!data.items || data.items.length === 0) {
+    return { items: [], found: data.found || 0, hasMore: false };
+  }
+
+  // Keep resumes whose work history matches the company, with the matched job's details
+  const items = data.items.reduce<Resume[]>((matched, item: Resume) => {
+    const match = matchExperience(item.experience, group.companies[0], normalizer, experienceRules, group.employerIds);
+    if (match) {
+      matched.push({
+        ...item,
+        matchedEmployer: match.company,
+        companyMatchScore: Math.round(match.score * 100) / 100,
+        companyMatchMethod: match.method,
+        tenureMonths: match.tenureMonths,
+        leftMonthsAgo: match.leftMonthsAgo,
+        // Only a warning for the results table, never a filter: the search results carry a few
+        // sections of the resume, so a local miss doesn't mean HH.ru matched wrongly
+        queryMatch: matchesQuery(query, toQueryDocument(item))
+      });
+    }
+    return matched;
+  }, []);
+
+  const fetchedSoFar = (page + 1) * ITEMS_PER_PAGE;
+  return {
+    items,
+    found: data.found,
+    hasMore: fetchedSoFar < data.found && fetchedSoFar < MAX_RESULTS_PER_COMPANY
+  };
+}
+
+async function fetchResumeDetails(resumeId: string, client: HHClient): Promise<{ status: string; lastJobDescription: string } | null> {
+  try {
+    const data = await client.getResume(resumeId, { withJobSearchStatus: true });
+    return {
+      status: data.job_search_status?.name || 'N/A',
+      lastJobDescription: data.experience?.[0]?.description || 'N/A'
+    };
+  } catch (error) {
+    console.error(`Failed to fetch details for resume ${resumeId}:`, error);
+    return null;
+  }
+}
+
+// Adds job search status and last job description; resumes whose details fail stay as they are.
+// Pacing and retries are handled by the client's shared rate limiter.
+export function enrichResumes(client: HHClient, items: Resume[]): Promise<Resume[]> {
+  return mapWithConcurrency(items, getMaxConcurrency(), async (item) => {
+    const details = await fetchResumeDetails(item.id, client);
+    return details ? { ...item, status: details.status, lastJobDescription: details.lastJobDescription } : item;
+  });
+}
@@ -0,0 +1,155 @@
+import { normalizeInn } from '@/lib/companyNames';
+import type { OutputTable } from '@/lib/output';
+import { isSheetColumnsError, readCell, resolveColumns } from '@/lib/sheets/columns';
+import { readInputSheet, type InputSheetOptions, type SheetInput } from '@/lib/sheets/source';
+import { COMPANY_LIST_SCHEMA, COMPANY_VALIDATION_SCHEMA } from '@/lib/sheets/schemas';
+import { formatMonths, type CompanyMatchMethod } from './experience';
+import type { Resume } from './types';
+
+export const RESUME_OUTPUT_SHEET = 'Resume_output';
+
+export const RESUME_OUTPUT_HEADERS = [
+  'Искомая должность',
+  'Последнее место работы - Компания',
+  'Последнее место работы - Должность',
+  'Последнее место работы - Описание',
+  'Последнее место работы - Период',
+  'Статус поиска работы',
+  'Ссылка',
+  'Возраст',
+  'Желаемая зарплата',
+  'Обновлено',
+  'Город',
+  'Общий опыт работы',
+  'Совпадение компании',
+  'Стаж в компании',
+  'Ушёл из компании',
+  'Компании из списка',
+  'Впервые найден',
+  'Последний раз найден',
+  'Способ совпадения'
+];
+
+// The resume link, which carries the HH resume id
+const RESUME_KEY_HEADER = 'Ссылка';
+
+export function formatDate(dateString: string | null | undefined): string {
+  if (!dateString) return 'N/A';
+  return new Date(dateString).toLocaleDateString('ru-RU');
+}
+
+function formatLeft(leftMonthsAgo: number | null | undefined): string {
+  if (leftMonthsAgo === undefined) return '';
+  if (leftMonthsAgo === null) return 'Работает сейчас';
+  return leftMonthsAgo === 0 ? 'В этом месяце' : `${leftMonthsAgo} мес. назад`;
+}
+
+const MATCH_METHOD_LABELS: Record<CompanyMatchMethod, string> = {
+  employer_id: 'ID работодателя',
+  name: 'Название'
+};
+
+function formatSeen(seenAt: string | null | undefined): string {
+  return seenAt ? formatDate(seenAt) : '';
+}
+
+export function toResumeRow(item: Resume): (string | number)[] {
+  const lastJob = item.experience?.[0] || {};
+  return [
+    item.title || '',
+    lastJob.company || '',
+    lastJob.position || '',
+    item.lastJobDescription || '',
+    `${formatDate(lastJob.start)} - ${formatDate(lastJob.end)}`,
+    item.status || '',
+    `https://hh.ru/resume/${item.id}`,
+    item.age || '',
+    item.salary ? `${item.salary.amount || ''} ${item.salary.currency || ''}` : '',
+    item.updated_at || '',
+    item.area?.name || '',
+    item.total_experience?.months 
+      ? `${Math.floor(item.total_experience.months / 12)} лет ${item.total_experience.months % 12} месяцев`
+      : '',
+    item.companyMatchScore !== undefined ? `${item.matchedEmployer} (${item.companyMatchScore})` : '',
+    item.tenureMonths !== undefined ? formatMonths(item.tenureMonths) : '',
+    formatLeft(item.leftMonthsAgo),
+    (item.matchedCompanies || (item.matchedCompany ? [item.matchedCompany] : [])).join(', '),
+    item.firstSeenAt === null ? 'Новый' : formatSeen(item.firstSeenAt),
+    formatSeen(item.lastSeenAt),
+    item.companyMatchMethod ? MATCH_METHOD_LABELS[item.companyMatchMethod] : ''
+  ];
+}
+
+export interface CompanyRow {
+  name: string;
+  // Empty when the sheet has no INN column or the cell is blank
+  inn: string;
+}
+
+// Reads the company list from the first (or the picked) worksheet of the sheet or uploaded
+// file, finding the columns by their headers; the first row of a repeated name wins
+export async function fetchCompanyRowsFromSheet(source: SheetInput, input: InputSheetOptions = {}): Promise<CompanyRow[]> {
+  try {
+    const { rows } = await readInputSheet(source, COMPANY_LIST_SCHEMA, input.worksheet);
+    if (rows.length === 0) {
+      throw new Error('No companies found in the sheet');
+    }
+    const mapping = resolveColumns(COMPANY_LIST_SCHEMA, rows[0], input.columns);
+
+    const companies = new Map<string, CompanyRow>();
+    rows.slice(1).forEach(row => {
+      const name = readCell(row, mapping, 'company');
+      if (name && !companies.has(name)) {
+        companies.set(name, { name, inn: normalizeInn(readCell(row, mapping, 'inn')) });
+      }
+    });
+    return Array.from(companies.values());
+  } catch (error) {
+    if (isSheetColumnsError(error)) throw error;
+    const from = source.uploadId ? 'the uploaded file' : 'Google Sheet';
+    console.error(`Error fetching from ${from}:`, error);
+    throw new Error(`Failed to fetch companies from ${from}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+// Unique company names of the list
+export async function fetchCompaniesFromSheet(source: SheetInput, input: InputSheetOptions = {}): Promise<string[]> {
+  return (await fetchCompanyRowsFromSheet(source, input)).map(row => row.name);
+}
+
+export interface ValidatedCompany {
+  // Input company name as listed in Company_Validation
+  name: string;
+  employerIds: string[];
+}
+
+// Reads the HH employer ids validate-companies found for each input company. Rows marked as
+// not found or ambiguous, or without a numeric id, are left out; delete a row to drop a wrong
+// employer, or set Found to Yes to use an ambiguous one.
+export async function fetchValidatedCompanies(source: SheetInput): Promise<ValidatedCompany[]> {
+  const { rows } = await readInputSheet(source, COMPANY_VALIDATION_SCHEMA);
+  if (rows.length === 0) return [];
+  const mapping = resolveColumns(COMPANY_VALIDATION_SCHEMA, rows[0]);
+
+  const companies = new Map<string, string[]>();
+  rows.slice(1).forEach(row => {
+    const name = readCell(row, mapping, 'company');
+    const employerId = readCell(row, mapping, 'employerId');
+    const found = readCell(row, mapping, 'found').toLowerCase();
+    if (!name || !/^\d+$/.test(employerId) || ['no', 'нет', 'false', 'ambiguous'].includes(found)) return;
+    const ids = companies.get(name) || [];
+    if (!ids.includes(employerId)) ids.push(employerId);
+    companies.set(name, ids);
+  });
+  return Array.from(companies.entries()).map(([name, employerIds]) => ({ name, employerIds }));
+}
+
+// Resumes are keyed by their link, so upserting a sheet refreshes known candidates in place
+export function toResumeTable(items: Resume[]): OutputTable {
+  return {
+    name: RESUME_OUTPUT_SHEET,
+    headers: RESUME_OUTPUT_HEADERS,
+    rows: items.map(toResumeRow),
+    keyHeader: RESUME_KEY_HEADER
+  };
+}
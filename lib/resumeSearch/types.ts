@@ -0,0 +1,70 @@
+import type { CompanyNameRules } from '@/lib/companyNames';
+import type { HHResume } from '@/lib/hh';
+import type { OutputFormat } from '@/lib/output/types';
+import type { ColumnOverrides } from '@/lib/sheets/columns';
+import type { WorksheetRef } from '@/lib/sheets/source';
+import type { SheetWriteMode } from '@/lib/sheets/writer';
+import type { CompanyMatchMethod, ExperienceMatchRules } from './experience';
+import type { ResumeSearchFilters } from './filters';
+
+// Resume as returned by search, enriched with details from the single-resume endpoint
+export interface Resume extends HHResume {
+  status?: string;
+  lastJobDescription?: string;
+  // Company from the input sheet whose search found this resume
+  matchedCompany?: string;
+  // Every input company that found this candidate, once duplicates are merged
+  matchedCompanies?: string[];
+  // The same person's other resumes that were merged into this one
+  duplicateResumeIds?: string[];
+  // When earlier runs first and last found this candidate; null = new
+  firstSeenAt?: string | null;
+  lastSeenAt?: string | null;
+  // Employer from the resume's experience that matched it, and how closely (0..1)
+  matchedEmployer?: string;
+  companyMatchScore?: number;
+  // Whether the employer was matched by its validated HH id or by name
+  companyMatchMethod?: CompanyMatchMethod;
+  // Time at the matched employer, and months since leaving it (null = still works there)
+  tenureMonths?: number;
+  leftMonthsAgo?: number | null;
+  // Whether the search text also matches locally on the fields we received; HH.ru can
+  // match sections (or word forms) the search results don't include. Shown as a warning
+  // only, results are never dropped on it.
+  queryMatch?: boolean;
+}
+
+export interface ResumeSelection {
+  // The preview run the resumes were found by
+  runId: string;
+  resumeIds: string[];
+}
+
+export interface ResumeSearchParams {
+  text: string;
+  // Output sheet, and the companies' sheet unless a file was uploaded; unset for file outputs
+  sheetUrl?: string;
+  // Uploaded XLSX/CSV file with the companies
+  uploadId?: string;
+  totalLimit: number;
+  // HH.ru filters (regions, age, salary, ...); older jobs were created without them
+  filters?: ResumeSearchFilters;
+  // Which jobs at the company count: recency window, latest job only, minimum tenure
+  experienceRules?: ExperienceMatchRules;
+  // Resumes picked in a preview: the job writes these instead of searching again
+  selection?: ResumeSelection;
+  // Only write candidates that this earlier run didn't find
+  newSinceRunId?: string;
+  // How the results are written to Resume_output; older jobs always overwrote it
+  sheetMode?: SheetWriteMode;
+  // Google Sheet or a file downloaded from the run; older jobs always wrote the sheet
+  output?: OutputFormat;
+  // Headers picked for the company column when it isn't recognised automatically
+  columns?: ColumnOverrides;
+  // Worksheet with the companies; unset = the first one
+  worksheet?: WorksheetRef;
+  // Match employers by the HH ids in the Company_Validation worksheet, names only as a fallback
+  useEmployerIds?: boolean;
+  // Normalisation rules in effect when the search started
+  rules?: CompanyNameRules;
+}
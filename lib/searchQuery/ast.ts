@@ -0,0 +1,49 @@
+// Boolean search query over resume text: terms combined with AND/OR/NOT, optionally scoped
+// to one resume section. Parsed from the search box, built by the visual builder, and
+// serialised both to HH.ru's query syntax and to a local matcher.
+
+export type QueryField = 'title' | 'skills' | 'experience';
+
+export const QUERY_FIELDS: QueryField[] = ['title', 'skills', 'experience'];
+
+export type QueryNode =
+  // A single word (may end with * for a prefix), or a quoted phrase, optionally with
+  // proximity ("a b"~3: the words within 3 words of each other)
+  | { type: 'term'; value: string; phrase: boolean; proximity?: number }
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }
+  // `title:(...)`: the subquery must match within that section
+  | { type: 'field'; field: QueryField; child: QueryNode };
+
+export class QuerySyntaxError extends Error {
+  // Character offset in the query text, when the error has one
+  readonly position?: number;
+
+  constructor(message: string, position?: number) {
+    super(position === undefined ? message : `${message} (at character ${position + 1})`);
+    this.name = 'QuerySyntaxError';
+    this.position = position;
+  }
+}
+
+export function term(value: string, options: { phrase?: boolean; proximity?: number } = {}): QueryNode {
+  return { type: 'term', value, phrase: options.phrase ?? /\s/.test(value), proximity: options.proximity };
+}
+
+// AND/OR with a single child collapse to the child; nested nodes of the same kind are merged
+export function and(children: QueryNode[]): QueryNode {
+  return combine('and', children);
+}
+
+export function or(children: QueryNode[]): QueryNode {
+  return combine('or', children);
+}
+
+function combine(type: 'and' | 'or', children: QueryNode[]): QueryNode {
+  const flat = children.flatMap(child => child.type === type ? child.children : [child]);
+  if (flat.length === 0) {
+    throw new QuerySyntaxError(`Empty ${type.toUpperCase()} group`);
+  }
+  return flat.length === 1 ? flat[0] : { type, children: flat };
+}
@@ -0,0 +1,56 @@
+import type { QueryField, QueryNode } from './ast';
+
+// HH.ru `text.field` values for the section scopes
+const HH_TEXT_FIELDS: Record<QueryField, string> = {
+  title: 'title',
+  skills: 'skills',
+  experience: 'experience'
+};
+
+function formatTerm(node: Extract<QueryNode, { type: 'term' }>): string {
+  if (!node.phrase) return node.value;
+  return `"${node.value}"${node.proximity !== undefined ? `~${node.proximity}` : ''}`;
+}
+
+// Query text in the search box syntax; parseQuery(formatQuery(node)) gives the node back
+export function formatQuery(node: QueryNode, nested = false): string {
+  switch (node.type) {
+    case 'term':
+      return formatTerm(node);
+    case 'not':
+      return `NOT ${formatQuery(node.child, true)}`;
+    case 'field':
+      return `${node.field}:${formatQuery(node.child, true)}`;
+    case 'and':
+    case 'or': {
+      const text = node.children.map(child => formatQuery(child, true)).join(node.type === 'and' ? ' AND ' : ' OR ');
+      return nested ? `(${text})` : text;
+    }
+  }
+}
+
+// One HH.ru text block: the query text plus the resume section it is searched in
+export interface HHTextBlock {
+  text: string;
+  // undefined = anywhere in the resume
+  field?: string;
+}
+
+// Splits a validated query into HH.ru text blocks: unscoped parts stay together in the first
+// block, every `field:` part becomes its own block. HH ANDs the blocks.
+export function toHHTextBlocks(node: QueryNode | null): HHTextBlock[] {
+  if (!node) return [];
+  const parts = node.type === 'and' ? node.children : [node];
+  const unscoped = parts.filter(part => part.type !== 'field');
+  const blocks: HHTextBlock[] = [];
+
+  if (unscoped.length > 0) {
+    blocks.push({ text: formatQuery(unscoped.length === 1 ? unscoped[0] : { type: 'and', children: unscoped }) });
+  }
+  parts.forEach(part => {
+    if (part.type === 'field') {
+      blocks.push({ text: formatQuery(part.child), field: HH_TEXT_FIELDS[part.field] });
+    }
+  });
+  return blocks;
+}
@@ -0,0 +1,7 @@
+export { QUERY_FIELDS, QuerySyntaxError, and, or, term } from './ast';
+export type { QueryField, QueryNode } from './ast';
+export { parseQuery, validateQuery } from './parse';
+export { formatQuery, toHHTextBlocks } from './format';
+export type { HHTextBlock } from './format';
+export { createQueryDocument, matchesQuery } from './match';
+export type { QueryDocument } from './match';
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { createQueryDocument, matchesQuery } from './match';
+import { parseQuery } from './parse';
+
+const document = createQueryDocument({
+  title: ['Senior Java Developer'],
+  skills: ['Spring Boot', 'PostgreSQL', 'C++', '1С:Предприятие 8.3'],
+  experience: ['ПАО Сбербанк', 'Ведущий разработчик', 'Разработка платёжных сервисов и коммуникаций с партнёрами'],
+  other: ['Remote only']
+});
+
+const matches = (text: string) => matchesQuery(parseQuery(text), document);
+
+describe('matchesQuery', () => {
+  it('matches everything without a query', () => {
+    expect(matchesQuery(null, document)).toBe(true);
+  });
+
+  it('evaluates AND, OR and NOT', () => {
+    expect(matches('java spring')).toBe(true);
+    expect(matches('java kotlin')).toBe(false);
+    expect(matches('kotlin OR postgresql')).toBe(true);
+    expect(matches('java NOT junior')).toBe(true);
+    expect(matches('java NOT senior')).toBe(false);
+  });
+
+  it('keeps section scopes to their section', () => {
+    expect(matches('title:java')).toBe(true);
+    expect(matches('skills:java')).toBe(false);
+    expect(matches('experience:сбербанк')).toBe(true);
+    // `other` text is only searched by unscoped terms
+    expect(matches('remote')).toBe(true);
+    expect(matches('title:remote')).toBe(false);
+  });
+
+  it('matches prefixes, other word forms of long words and symbols in skills', () => {
+    expect(matches('разраб*')).toBe(true);
+    expect(matches('коммуникации')).toBe(true);
+    expect(matches('платежный')).toBe(true);
+    expect(matches('c++')).toBe(true);
+    expect(matches('c#')).toBe(false);
+  });
+
+  it('matches the words of a term with a colon in a row', () => {
+    expect(matches('1С:Предприятие')).toBe(true);
+    expect(matches('skills:1с:предприятие')).toBe(true);
+    expect(matches('1С:Бухгалтерия')).toBe(false);
+  });
+
+  it('matches phrases in order, or within the proximity window', () => {
+    expect(matches('"java developer"')).toBe(true);
+    expect(matches('"developer java"')).toBe(false);
+    expect(matches('"senior developer"~1')).toBe(true);
+    expect(matches('"senior boot"~1')).toBe(false);
+  });
+});
@@ -0,0 +1,76 @@
+import type { QueryField, QueryNode } from './ast';
+
+// Resume text by section, as the local matcher sees it. `any` covers the whole resume.
+export type QueryDocument = Record<QueryField | 'any', string[]>;
+
+// Word characters for Russian and English text; "c++" and "c#" stay whole
+const SEPARATOR = /[^a-zа-яё0-9+#]+/;
+// The same for query terms, which may also end with a * prefix marker
+const TERM_SEPARATOR = /[^a-zа-яё0-9+#*]+/i;
+
+function tokenize(text: string): string[] {
+  return text.toLowerCase().replace(/ё/g, 'е').split(SEPARATOR).filter(Boolean);
+}
+
+// Rough stand-in for HH.ru's morphology: long words also match their other forms
+// ("коммуникации" finds "коммуникаций"), `*` marks an explicit prefix
+function wordMatcher(word: string): (token: string) => boolean {
+  const normalized = word.toLowerCase().replace(/ё/g, 'е');
+  if (normalized.endsWith('*')) {
+    const prefix = normalized.slice(0, -1);
+    return token => token.startsWith(prefix);
+  }
+  if (normalized.length > 5) {
+    const stem = normalized.slice(0, normalized.length - 2);
+    return token => token.startsWith(stem) && token.length <= normalized.length + 2;
+  }
+  return token => token === normalized;
+}
+
+// Tokens of each section, computed once per resume
+export function createQueryDocument(sections: Partial<Record<QueryField, string[]>> & { other?: string[] }): QueryDocument {
+  const title = (sections.title || []).flatMap(tokenize);
+  const skills = (sections.skills || []).flatMap(tokenize);
+  const experience = (sections.experience || []).flatMap(tokenize);
+  const other = (sections.other || []).flatMap(tokenize);
+  return { title, skills, experience, any: [...title, ...skills, ...experience, ...other] };
+}
+
+function matchesTerm(tokens: string[], node: Extract<QueryNode, { type: 'term' }>): boolean {
+  // "1С:Предприятие" or "e-commerce" match their words in a row, like a phrase
+  const matchers = node.value.split(TERM_SEPARATOR).filter(Boolean).map(wordMatcher);
+  if (matchers.length === 0) return false;
+  if (matchers.length === 1) return tokens.some(matchers[0]);
+
+  // A phrase matches its words in order; with ~N they may come in any order within
+  // the phrase length plus N words
+  const window = matchers.length + (node.proximity ?? 0);
+  for (let start = 0; start < tokens.length; start++) {
+    if (node.proximity === undefined) {
+      if (matchers.every((matches, offset) => start + offset < tokens.length && matches(tokens[start + offset]))) {
+        return true;
+      }
+    } else if (matchers.some(matches => matches(tokens[start]))) {
+      const slice = tokens.slice(start, start + window);
+      if (matchers.every(matches => slice.some(matches))) return true;
+    }
+  }
+  return false;
+}
+
+// Evaluates the query against a resume the same way the HH.ru query is meant to
+export function matchesQuery(node: QueryNode | null, document: QueryDocument, field: QueryField | 'any' = 'any'): boolean {
+  if (!node) return true;
+  switch (node.type) {
+    case 'term':
+      return matchesTerm(document[field], node);
+    case 'and':
+      return node.children.every(child => matchesQuery(child, document, field));
+    case 'or':
+      return node.children.some(child => matchesQuery(child, document, field));
+    case 'not':
+      return !matchesQuery(node.child, document, field);
+    case 'field':
+      return matchesQuery(node.child, document, node.field);
+  }
+}
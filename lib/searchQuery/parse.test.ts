@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { QuerySyntaxError, and, or, term } from './ast';
+import { formatQuery, toHHTextBlocks } from './format';
+import { parseQuery } from './parse';
+
+describe('parseQuery', () => {
+  it('returns null for an empty query', () => {
+    expect(parseQuery('   ')).toBeNull();
+  });
+
+  it('ANDs adjacent terms and binds AND tighter than OR', () => {
+    expect(parseQuery('java spring OR kotlin')).toEqual(or([and([term('java'), term('spring')]), term('kotlin')]));
+  });
+
+  it('reads phrases with proximity, NOT and section scopes', () => {
+    expect(parseQuery('"product manager"~2 NOT junior title:(lead OR head)')).toEqual(and([
+      term('product manager', { phrase: true, proximity: 2 }),
+      { type: 'not', child: term('junior') },
+      { type: 'field', field: 'title', child: or([term('lead'), term('head')]) }
+    ]));
+  });
+
+  it('keeps words with a colon that is not a field as plain terms', () => {
+    expect(parseQuery('1С:Предприятие')).toEqual(term('1С:Предприятие'));
+    expect(parseQuery('title:1С:Бухгалтерия')).toEqual({ type: 'field', field: 'title', child: term('1С:Бухгалтерия') });
+  });
+
+  it.each([
+    'java',
+    '1С:Предприятие OR "1С:ERP"',
+    'java AND spring',
+    '"data engineer" OR (python AND NOT junior)',
+    '"team lead"~3 skills:(sql OR "power bi") title:аналитик*',
+    'NOT (intern OR стажер) experience:"b2b sales"'
+  ])('gives the node back from its formatted text: %s', text => {
+    const node = parseQuery(text);
+    expect(parseQuery(formatQuery(node!))).toEqual(node);
+  });
+
+  it.each([
+    ['"unclosed', 'Unclosed quote'],
+    ['(java OR kotlin', 'Unclosed parenthesis'],
+    ['java)', 'Unbalanced closing parenthesis'],
+    ['java AND', 'Query ends unexpectedly'],
+    ['java OR title:lead', 'can only be combined with AND']
+  ])('rejects %s', (text, message) => {
+    expect(() => parseQuery(text)).toThrow(QuerySyntaxError);
+    expect(() => parseQuery(text)).toThrow(message);
+  });
+});
+
+describe('toHHTextBlocks', () => {
+  it('keeps unscoped parts together and gives every scope its own block', () => {
+    expect(toHHTextBlocks(parseQuery('java spring title:lead skills:(sql OR python)'))).toEqual([
+      { text: 'java AND spring' },
+      { text: 'lead', field: 'title' },
+      { text: 'sql OR python', field: 'skills' }
+    ]);
+  });
+
+  it('has no blocks without a query', () => {
+    expect(toHHTextBlocks(null)).toEqual([]);
+  });
+});
@@ -0,0 +1,172 @@
+import { QUERY_FIELDS, QuerySyntaxError, and, or, type QueryField, type QueryNode } from './ast';
+
+type Token =
+  | { kind: '(' | ')' | 'AND' | 'OR' | 'NOT'; position: number }
+  | { kind: 'word'; value: string; position: number }
+  | { kind: 'phrase'; value: string; proximity?: number; position: number }
+  | { kind: 'field'; field: QueryField; position: number };
+
+const OPERATORS = ['AND', 'OR', 'NOT'];
+// Characters with a meaning in the query syntax can't appear inside a bare word
+const WORD_PATTERN = /^[^\s()"]+/;
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ kind: char, position: index });
+      index++;
+    } else if (char === '"') {
+      const end = text.indexOf('"', index + 1);
+      if (end === -1) {
+        throw new QuerySyntaxError('Unclosed quote', index);
+      }
+      const value = text.slice(index + 1, end).trim().replace(/\s+/g, ' ');
+      if (!value) {
+        throw new QuerySyntaxError('Empty phrase', index);
+      }
+      const proximity = /^~(\d+)/.exec(text.slice(end + 1));
+      tokens.push({ kind: 'phrase', value, proximity: proximity ? Number(proximity[1]) : undefined, position: index });
+      index = end + 1 + (proximity ? proximity[0].length : 0);
+    } else {
+      const word = (WORD_PATTERN.exec(text.slice(index)) as RegExpExecArray)[0];
+      const scope = /^(\w+):(.*)$/.exec(word);
+      if (OPERATORS.includes(word)) {
+        tokens.push({ kind: word as 'AND' | 'OR' | 'NOT', position: index });
+        index += word.length;
+      } else if (scope && QUERY_FIELDS.includes(scope[1] as QueryField)) {
+        // `title:` scopes whatever follows it, so only the prefix is consumed here
+        tokens.push({ kind: 'field', field: scope[1] as QueryField, position: index });
+        index += scope[1].length + 1;
+      } else {
+        // Other words with a colon ("1С:Предприятие") are plain terms
+        tokens.push({ kind: 'word', value: word, position: index });
+        index += word.length;
+      }
+    }
+  }
+  return tokens;
+}
+
+// Recursive descent over: or := and (OR and)*; and := unary (AND? unary)*;
+// unary := NOT unary | field: unary | word | phrase | ( or )
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[], private readonly length: number) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new QuerySyntaxError(token.kind === ')' ? 'Unbalanced closing parenthesis' : `Unexpected ${describe(token)}`, token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+    while (this.peek()?.kind === 'OR') {
+      this.index++;
+      children.push(this.parseAnd());
+    }
+    return or(children);
+  }
+
+  private parseAnd(): QueryNode {
+    const children = [this.parseUnary()];
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind === 'AND') {
+        this.index++;
+        children.push(this.parseUnary());
+      } else if (token && token.kind !== 'OR' && token.kind !== ')') {
+        // Adjacent terms are ANDed, as on HH.ru
+        children.push(this.parseUnary());
+      } else {
+        return and(children);
+      }
+    }
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+    if (!token) {
+      throw new QuerySyntaxError('Query ends unexpectedly', this.length);
+    }
+    this.index++;
+
+    switch (token.kind) {
+      case 'NOT':
+        return { type: 'not', child: this.parseUnary() };
+      case 'field':
+        return { type: 'field', field: token.field, child: this.parseUnary() };
+      case 'word':
+        return { type: 'term', value: token.value, phrase: false };
+      case 'phrase':
+        return { type: 'term', value: token.value, phrase: true, proximity: token.proximity };
+      case '(': {
+        const node = this.parseOr();
+        if (this.peek()?.kind !== ')') {
+          throw new QuerySyntaxError('Unclosed parenthesis', token.position);
+        }
+        this.index++;
+        return node;
+      }
+      default:
+        throw new QuerySyntaxError(`Unexpected ${describe(token)}`, token.position);
+    }
+  }
+}
+
+function describe(token: Token): string {
+  switch (token.kind) {
+    case 'word':
+      return `word "${token.value}"`;
+    case 'phrase':
+      return `phrase "${token.value}"`;
+    case 'field':
+      return `"${token.field}:"`;
+    default:
+      return `"${token.kind}"`;
+  }
+}
+
+// Checks the rules HH.ru can't express: a section scope can only be one of the top-level
+// AND parts (HH searches each section as a separate text block), and can't be nested.
+export function validateQuery(node: QueryNode): void {
+  const topLevel = node.type === 'and' ? node.children : [node];
+  topLevel.forEach(part => assertNoField(part.type === 'field' ? part.child : part));
+}
+
+function assertNoField(node: QueryNode): void {
+  switch (node.type) {
+    case 'field':
+      throw new QuerySyntaxError(`"${node.field}:" can only be combined with AND at the top level of the query`);
+    case 'and':
+    case 'or':
+      node.children.forEach(assertNoField);
+      break;
+    case 'not':
+      assertNoField(node.child);
+      break;
+  }
+}
+
+// Parses the search box text; an empty query is null (search by company name only).
+// Throws QuerySyntaxError with the offending position.
+export function parseQuery(text: string): QueryNode | null {
+  if (!text.trim()) return null;
+  const node = new Parser(tokenize(text), text.length).parse();
+  validateQuery(node);
+  return node;
+}
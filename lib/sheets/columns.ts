@@ -0,0 +1,103 @@
+// Finds a tool's columns in an input sheet by header instead of by position. Used on both
+// sides: routes resolve columns before reading rows, the UI uses it to offer a mapping step.
+
+export interface ColumnSpec {
+  field: string;
+  label: string;
+  required: boolean;
+  // Header spellings recognised automatically, Russian and English
+  aliases: string[];
+}
+
+export interface SheetSchema {
+  id: string;
+  // Worksheet the tool reads; unset = the spreadsheet's first worksheet
+  worksheet?: string;
+  columns: ColumnSpec[];
+}
+
+// Column index per field; optional fields the sheet doesn't have are left out
+export type ColumnMapping = Record<string, number>;
+
+// Header chosen by the user per field, for sheets whose headers aren't recognised
+export type ColumnOverrides = Record<string, string>;
+
+export interface ColumnDetection {
+  mapping: ColumnMapping;
+  missing: ColumnSpec[];
+}
+
+export class SheetColumnsError extends Error {
+  readonly status = 400;
+
+  constructor(
+    readonly schemaId: string,
+    readonly missing: ColumnSpec[],
+    readonly headers: string[]
+  ) {
+    super(`Required columns not found: ${missing.map(column => `"${column.label}"`).join(', ')}. `
+      + `Sheet headers: ${headers.filter(Boolean).map(header => `"${header}"`).join(', ') || 'none'}`);
+    this.name = 'SheetColumnsError';
+  }
+}
+
+// Case, ё/е, punctuation and extra spaces don't matter: "E-mail", "email" and "EMAIL " all match
+export function normalizeHeader(header: string): string {
+  return header
+    .toLowerCase()
+    .replace(/ё/g, 'е')
+    .replace(/[^a-zа-я0-9]+/g, ' ')
+    .trim();
+}
+
+export function parseColumnOverrides(input: unknown): ColumnOverrides | undefined {
+  if (input === undefined || input === null) return undefined;
+  if (typeof input !== 'object' || Array.isArray(input)
+    || Object.values(input).some(value => typeof value !== 'string')) {
+    throw new Error('columns must map field names to sheet headers');
+  }
+  const overrides = Object.fromEntries(Object.entries(input as Record<string, string>).filter(([, header]) => header));
+  return Object.keys(overrides).length > 0 ? overrides : undefined;
+}
+
+// Chosen headers win over aliases; a chosen header that isn't in the sheet counts as missing
+export function detectColumns(schema: SheetSchema, headers: string[], overrides: ColumnOverrides = {}): ColumnDetection {
+  const normalized = headers.map(header => normalizeHeader(header || ''));
+  const mapping: ColumnMapping = {};
+  const missing: ColumnSpec[] = [];
+
+  for (const column of schema.columns) {
+    const chosen = overrides[column.field];
+    // Aliases are tried in order, so "Link to vacancy" beats a generic "Link" column
+    const candidates = chosen ? [chosen] : column.aliases;
+    const index = candidates.reduce(
+      (found, alias) => found !== -1 ? found : normalized.indexOf(normalizeHeader(alias)),
+      -1
+    );
+
+    if (index !== -1) {
+      mapping[column.field] = index;
+    } else if (column.required || chosen) {
+      missing.push(column);
+    }
+  }
+  return { mapping, missing };
+}
+
+// Throws SheetColumnsError listing every required column that couldn't be found
+export function resolveColumns(schema: SheetSchema, headers: string[], overrides?: ColumnOverrides): ColumnMapping {
+  const { mapping, missing } = detectColumns(schema, headers, overrides);
+  if (missing.length > 0) {
+    throw new SheetColumnsError(schema.id, missing, headers);
+  }
+  return mapping;
+}
+
+export function readCell(row: string[], mapping: ColumnMapping, field: string): string {
+  const index = mapping[field];
+  return index === undefined ? '' : (row[index] ?? '').trim();
+}
+
+export function isSheetColumnsError(error: unknown): error is SheetColumnsError {
+  return error instanceof SheetColumnsError;
+}
@@ -0,0 +1,36 @@
+import { google } from 'googleapis';
+
+export async function getGoogleAuth() {
+  const credentialsString = process.env.GOOGLE_APPLICATION_CREDENTIALS;
+  if (!credentialsString) {
+    throw new Error('GOOGLE_APPLICATION_CREDENTIALS environment variable is not set');
+  }
+
+  let credentials;
+  try {
+    credentials = JSON.parse(credentialsString);
+  } catch (error) {
+    throw new Error('Failed to parse GOOGLE_APPLICATION_CREDENTIALS: ' + (error instanceof Error ? error.message : String(error)));
+  }
+
+  const auth = new google.auth.GoogleAuth({
+    credentials,
+    scopes: ['https://www.googleapis.com/auth/spreadsheets'],
+  });
+  return auth;
+}
+
+export async function getSheetsApi() {
+  const auth = await getGoogleAuth();
+  return google.sheets({ version: 'v4', auth });
+}
+
+export function extractSheetId(url: string): string | null {
+  const match = decodeURIComponent(url).match(/\/d\/([a-zA-Z0-9-_]+)/);
+  return match ? match[1] : null;
+}
+
+// Worksheet names with spaces or quotes must be quoted in A1 ranges
+export function quoteSheet(sheet: string): string {
+  return `'${sheet.replace(/'/g, "''")}'`;
+}
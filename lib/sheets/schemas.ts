@@ -0,0 +1,161 @@
+import type { SheetSchema } from './columns';
+
+// Companies to search resumes for (and to validate against HH.ru); the INN helps to tell
+// employers with similar names apart in the company review
+export const COMPANY_LIST_SCHEMA: SheetSchema = {
+  id: 'companies',
+  columns: [
+    {
+      field: 'company',
+      label: 'Company name',
+      required: true,
+      aliases: [
+        'Company', 'Company name', 'Companies', 'Employer', 'Organization', 'Name',
+        'Компания', 'Название компании', 'Компании', 'Работодатель', 'Организация', 'Название'
+      ]
+    },
+    {
+      field: 'inn',
+      label: 'INN',
+      required: false,
+      aliases: ['INN', 'Tax ID', 'ИНН']
+    }
+  ]
+};
+
+// Vacancy links to collect contacts from
+export const VACANCY_SHEET_SCHEMA: SheetSchema = {
+  id: 'vacancies',
+  worksheet: 'Vacancies',
+  columns: [
+    {
+      field: 'company',
+      label: 'Company name',
+      required: false,
+      aliases: ['Company name', 'Company', 'Employer', 'Компания', 'Название компании', 'Работодатель']
+    },
+    {
+      field: 'inn',
+      label: 'INN',
+      required: false,
+      aliases: ['INN', 'Tax ID', 'ИНН']
+    },
+    {
+      field: 'link',
+      label: 'Link to vacancy',
+      required: true,
+      aliases: [
+        'Link to vacancy', 'Vacancy link', 'Vacancy URL', 'Link', 'URL',
+        'Ссылка на вакансию', 'Ссылка на вакансии', 'Вакансия', 'Ссылка'
+      ]
+    }
+  ]
+};
+
+// Resume links to open contacts for; the contact columns are filled in by the tool and are
+// added to the header row when the sheet doesn't have them
+export const RESUME_CONTACT_SCHEMA: SheetSchema = {
+  id: 'resume-contacts',
+  worksheet: 'Resume',
+  columns: [
+    {
+      field: 'link',
+      label: 'Link to resume',
+      required: true,
+      aliases: ['Link to resume', 'Resume link', 'Resume URL', 'Link', 'URL', 'Ссылка на резюме', 'Резюме', 'Ссылка']
+    },
+    {
+      field: 'fullName',
+      label: 'Full name',
+      required: false,
+      aliases: ['Full name', 'Name', 'ФИО', 'Имя', 'Полное имя']
+    },
+    {
+      field: 'currentTitle',
+      label: 'Current title',
+      required: false,
+      aliases: ['Current title', 'Title', 'Position', 'Должность', 'Текущая должность']
+    },
+    {
+      field: 'phone',
+      label: 'Phone',
+      required: false,
+      aliases: ['Phone', 'Phone number', 'Телефон', 'Номер телефона']
+    },
+    {
+      field: 'email',
+      label: 'Email',
+      required: false,
+      aliases: ['Email', 'E-mail', 'Mail', 'Почта', 'Электронная почта']
+    }
+  ]
+};
+
+// HH employers found for each input company, as written by validate-companies
+export const COMPANY_VALIDATION_SCHEMA: SheetSchema = {
+  id: 'company-validation',
+  worksheet: 'Company_Validation',
+  columns: [
+    {
+      field: 'company',
+      label: 'Original name',
+      required: true,
+      aliases: ['Original Name', 'Company', 'Company name', 'Компания', 'Исходное название']
+    },
+    {
+      field: 'employerId',
+      label: 'HH ID',
+      required: true,
+      aliases: ['HH ID', 'Employer ID', 'HH employer ID', 'ID работодателя', 'ID HH']
+    },
+    {
+      field: 'found',
+      label: 'Found',
+      required: false,
+      aliases: ['Found', 'Найдено', 'Найден']
+    }
+  ]
+};
+
+// INN registry import (e.g. an EGRUL export): legal and short names plus the brands a company
+// hires under. Brands may be listed in one cell, separated by commas or semicolons.
+export const INN_REGISTRY_SCHEMA: SheetSchema = {
+  id: 'inn-registry',
+  columns: [
+    {
+      field: 'inn',
+      label: 'INN',
+      required: true,
+      aliases: ['INN', 'Tax ID', 'ИНН', 'ИННЮЛ', 'ИНН ЮЛ']
+    },
+    {
+      field: 'legalName',
+      label: 'Legal name',
+      required: true,
+      aliases: [
+        'Legal name', 'Company name', 'Company', 'Name',
+        'Полное наименование', 'Наименование', 'НаимЮЛПолн', 'Название', 'Компания'
+      ]
+    },
+    {
+      field: 'shortName',
+      label: 'Short name',
+      required: false,
+      aliases: ['Short name', 'Сокращенное наименование', 'Сокращённое наименование', 'НаимЮЛСокр']
+    },
+    {
+      field: 'brands',
+      label: 'Brands',
+      required: false,
+      aliases: ['Brand', 'Brands', 'Trade name', 'Бренд', 'Бренды', 'Торговая марка', 'Коммерческое обозначение']
+    }
+  ]
+};
+
+export const SHEET_SCHEMAS: Record<string, SheetSchema> = {
+  [COMPANY_LIST_SCHEMA.id]: COMPANY_LIST_SCHEMA,
+  [COMPANY_VALIDATION_SCHEMA.id]: COMPANY_VALIDATION_SCHEMA,
+  [VACANCY_SHEET_SCHEMA.id]: VACANCY_SHEET_SCHEMA,
+  [RESUME_CONTACT_SCHEMA.id]: RESUME_CONTACT_SCHEMA,
+  [INN_REGISTRY_SCHEMA.id]: INN_REGISTRY_SCHEMA
+};
@@ -0,0 +1,183 @@
+import { parseCsv } from '@/lib/csv';
+import { getUpload, type StoredUpload } from '@/lib/db';
+import { extractSheetId, getSheetsApi, quoteSheet } from './google';
+import type { ColumnOverrides, SheetSchema } from './columns';
+
+// A worksheet picked by its tab name or by the gid from its URL (`#gid=123`); neither means
+// the spreadsheet's first worksheet
+export interface WorksheetRef {
+  name?: string;
+  gid?: number;
+}
+
+export interface WorksheetData {
+  // Tab name; unknown when the CSV export was read by gid
+  title: string | null;
+  // All rows, header first; cells keep their line breaks
+  rows: string[][];
+}
+
+// Where input sheets are read from. The Sheets API needs the sheet shared with the service
+// account; the CSV export needs it shared by link; uploads need neither.
+export interface SheetSource {
+  readonly kind: 'api' | 'csv' | 'upload';
+  read(sheetId: string, worksheet?: WorksheetRef): Promise<WorksheetData>;
+}
+
+// Accepts a tab name, "gid=123", or a sheet URL containing a gid
+export function parseWorksheetRef(input: unknown): WorksheetRef | undefined {
+  if (input === undefined || input === null || input === '') return undefined;
+  if (typeof input === 'object' && !Array.isArray(input)) {
+    const { name, gid } = input as WorksheetRef;
+    if (typeof name === 'string' && name.trim()) return { name: name.trim() };
+    if (Number.isInteger(gid) && (gid as number) >= 0) return { gid };
+  }
+  if (typeof input === 'string' && input.trim()) {
+    const gid = input.match(/(?:^|[#?&])gid[=:]\s*(\d+)/i);
+    return gid ? { gid: Number(gid[1]) } : { name: input.trim() };
+  }
+  throw new Error('worksheet must be a worksheet name or "gid=<number>"');
+}
+
+export function describeWorksheet(worksheet?: WorksheetRef): string {
+  if (worksheet?.name) return `"${worksheet.name}"`;
+  return worksheet?.gid !== undefined ? `gid ${worksheet.gid}` : 'the first worksheet';
+}
+
+export function createApiSheetSource(): SheetSource {
+  return {
+    kind: 'api',
+    async read(sheetId, worksheet) {
+      const sheets = await getSheetsApi();
+      const spreadsheet = await sheets.spreadsheets.get({
+        spreadsheetId: sheetId,
+        fields: 'sheets.properties(sheetId,title)'
+      });
+      const tabs = (spreadsheet.data.sheets || []).map(sheet => sheet.properties || {});
+      const tab = worksheet?.name !== undefined
+        ? tabs.find(item => item.title === worksheet.name)
+        : worksheet?.gid !== undefined
+          ? tabs.find(item => item.sheetId === worksheet.gid)
+          : tabs[0];
+      if (!tab?.title) {
+        throw new Error(`Worksheet ${describeWorksheet(worksheet)} not found. `
+          + `The spreadsheet has: ${tabs.map(item => `"${item.title}"`).join(', ') || 'no worksheets'}`);
+      }
+
+      const response = await sheets.spreadsheets.values.get({ spreadsheetId: sheetId, range: quoteSheet(tab.title) });
+      return {
+        title: tab.title,
+        rows: (response.data.values || []).map(row => row.map(cell => String(cell ?? '')))
+      };
+    }
+  };
+}
+
+// The public export: gviz picks a tab by name, the plain export by gid
+export function createCsvSheetSource(): SheetSource {
+  return {
+    kind: 'csv',
+    async read(sheetId, worksheet) {
+      const base = `https://docs.google.com/spreadsheets/d/${sheetId}`;
+      const url = worksheet?.name !== undefined
+        ? `${base}/gviz/tq?tqx=out:csv&sheet=${encodeURIComponent(worksheet.name)}`
+        : `${base}/export?format=csv${worksheet?.gid !== undefined ? `&gid=${worksheet.gid}` : ''}`;
+      const response = await fetch(url);
+      if (!response.ok) {
+        throw new Error(`Failed to fetch sheet data: ${response.statusText}`);
+      }
+      return { title: worksheet?.name ?? null, rows: parseCsv(await response.text()) };
+    }
+  };
+}
+
+// The public CSV export is only tried when GOOGLE_SHEETS_CSV_FALLBACK is set, for sheets that
+// are shared by link but not with the service account
+function csvFallbackEnabled(): boolean {
+  return ['1', 'true', 'yes'].includes((process.env.GOOGLE_SHEETS_CSV_FALLBACK || '').toLowerCase());
+}
+
+export function getSheetSource(): SheetSource {
+  const api = createApiSheetSource();
+  if (!csvFallbackEnabled()) return api;
+
+  const csv = createCsvSheetSource();
+  return {
+    kind: 'api',
+    async read(sheetId, worksheet) {
+      try {
+        return await api.read(sheetId, worksheet);
+      } catch (error) {
+        console.warn(`Sheets API read failed, falling back to the CSV export: ${error instanceof Error ? error.message : String(error)}`);
+        return csv.read(sheetId, worksheet);
+      }
+    }
+  };
+}
+
+// Files have no gids, so worksheets are picked by name. A file with a single worksheet (every
+// CSV) is read whatever the tool expects its tab to be called.
+export function createUploadSheetSource(upload: StoredUpload): SheetSource {
+  return {
+    kind: 'upload',
+    async read(_sheetId, worksheet) {
+      const { worksheets } = upload;
+      const found = worksheet?.name !== undefined
+        ? worksheets.find(item => item.title === worksheet.name)
+        : worksheet?.gid === undefined ? worksheets[0] : undefined;
+      const tab = found || (worksheets.length === 1 ? worksheets[0] : undefined);
+      if (!tab) {
+        throw new Error(`Worksheet ${describeWorksheet(worksheet)} not found in ${upload.filename}. `
+          + `The file has: ${worksheets.map(item => `"${item.title}"`).join(', ')}`);
+      }
+      return { title: tab.title, rows: tab.rows };
+    }
+  };
+}
+
+// A tool's input: an uploaded file when one is given, else the Google Sheet
+export interface SheetInput {
+  sheetId?: string;
+  uploadId?: string;
+}
+
+// Checks the sheet URL or upload id sent by the browser; uploads are only readable by their owner
+export function parseSheetInput({ sheetUrl, uploadId }: { sheetUrl?: unknown; uploadId?: unknown }, ownerId: string): SheetInput {
+  if (uploadId !== undefined && uploadId !== null && uploadId !== '') {
+    const upload = typeof uploadId === 'string' ? getUpload(uploadId) : null;
+    if (!upload || upload.ownerId !== ownerId) {
+      throw new Error('Uploaded file not found, upload it again');
+    }
+    return { uploadId: upload.id };
+  }
+  const sheetId = typeof sheetUrl === 'string' ? extractSheetId(sheetUrl) : null;
+  if (!sheetId) {
+    throw new Error('A valid Google Sheet URL or an uploaded file is required');
+  }
+  return { sheetId };
+}
+
+// The input of params that were checked by parseSheetInput when the run started
+export function toSheetInput({ sheetUrl, uploadId }: { sheetUrl?: string; uploadId?: string }): SheetInput {
+  return uploadId ? { uploadId } : { sheetId: extractSheetId(sheetUrl || '') || undefined };
+}
+
+// The worksheet a tool reads: the one picked by the user, else the tool's usual tab
+export function inputWorksheet(schema: SheetSchema, worksheet?: WorksheetRef): WorksheetRef | undefined {
+  return worksheet || (schema.worksheet ? { name: schema.worksheet } : undefined);
+}
+
+// Where a tool finds its input: the worksheet and the headers picked by the user, if any
+export interface InputSheetOptions {
+  worksheet?: WorksheetRef;
+  columns?: ColumnOverrides;
+}
+
+export async function readInputSheet(input: SheetInput, schema: SheetSchema, worksheet?: WorksheetRef): Promise<WorksheetData> {
+  if (input.uploadId) {
+    const upload = getUpload(input.uploadId);
+    if (!upload) throw new Error('Uploaded file not found, upload it again');
+    return createUploadSheetSource(upload).read(upload.id, inputWorksheet(schema, worksheet));
+  }
+  return getSheetSource().read(input.sheetId as string, inputWorksheet(schema, worksheet));
+}
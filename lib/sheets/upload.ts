@@ -0,0 +1,74 @@
+import * as XLSX from 'xlsx';
+import { detectCsvDelimiter, parseCsv } from '@/lib/csv';
+import type { UploadedWorksheet } from '@/lib/db';
+
+export const MAX_UPLOAD_BYTES = 10 * 1024 * 1024;
+export const UPLOAD_EXTENSIONS = ['.xlsx', '.xls', '.csv', '.txt'];
+
+export class UploadError extends Error {
+  readonly status = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'UploadError';
+  }
+}
+
+// Also checked by the upload route against the declared size, before the file is read
+export function checkUploadSize(bytes: number) {
+  if (bytes > MAX_UPLOAD_BYTES) {
+    throw new UploadError(`The file is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB`);
+  }
+}
+
+function extensionOf(filename: string): string {
+  const match = filename.toLowerCase().match(/\.[a-z0-9]+$/);
+  return match ? match[0] : '';
+}
+
+// Excel on Windows often saves CSV in windows-1251 rather than UTF-8
+function decodeText(data: Buffer): string {
+  let text: string;
+  try {
+    text = new TextDecoder('utf-8', { fatal: true }).decode(data);
+  } catch {
+    text = new TextDecoder('windows-1251').decode(data);
+  }
+  return text.replace(/^\uFEFF/, '');
+}
+
+function parseWorkbook(data: Buffer): UploadedWorksheet[] {
+  const workbook = XLSX.read(data, { type: 'buffer' });
+  return workbook.SheetNames.map(title => ({
+    title,
+    // Formatted values, so dates and INNs read the way they look in Excel
+    rows: (XLSX.utils.sheet_to_json(workbook.Sheets[title], { header: 1, raw: false, defval: '' }) as unknown[][])
+      .map(row => row.map(cell => String(cell ?? '')))
+  }));
+}
+
+// Reads every worksheet of an uploaded XLSX/XLS file, or the single table of a CSV file
+export function parseUploadedFile(filename: string, data: Buffer): UploadedWorksheet[] {
+  const extension = extensionOf(filename);
+  if (!UPLOAD_EXTENSIONS.includes(extension)) {
+    throw new UploadError(`Unsupported file type "${extension || filename}", expected ${UPLOAD_EXTENSIONS.join(', ')}`);
+  }
+  checkUploadSize(data.length);
+
+  let worksheets: UploadedWorksheet[];
+  if (extension === '.csv' || extension === '.txt') {
+    const text = decodeText(data);
+    worksheets = [{ title: filename.slice(0, -extension.length), rows: parseCsv(text, detectCsvDelimiter(text)) }];
+  } else {
+    try {
+      worksheets = parseWorkbook(data);
+    } catch (error) {
+      throw new UploadError(`Failed to read the workbook: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (worksheets.every(worksheet => worksheet.rows.length === 0)) {
+    throw new UploadError('The file has no rows');
+  }
+  return worksheets;
+}
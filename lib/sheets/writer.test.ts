@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { getSheetsApi } from './google';
+import { columnLetter, writeSheetTable } from './writer';
+
+vi.mock('./google', async importOriginal => ({
+  ...await importOriginal<typeof import('./google')>(),
+  getSheetsApi: vi.fn()
+}));
+
+// A spreadsheet with one worksheet holding `existing`, recording every batch write
+function mockSheets(existing: string[][]) {
+  const writes: { range: string; values: unknown[][] }[] = [];
+  const sheets = {
+    spreadsheets: {
+      get: vi.fn(async () => ({ data: { sheets: [{ properties: { title: 'Results' } }] } })),
+      batchUpdate: vi.fn(),
+      values: {
+        get: vi.fn(async () => ({ data: { values: existing } })),
+        clear: vi.fn(),
+        batchUpdate: vi.fn(async ({ requestBody }) => {
+          writes.push(...requestBody.data);
+        })
+      }
+    }
+  };
+  vi.mocked(getSheetsApi).mockResolvedValue(sheets as never);
+  return { sheets, writes };
+}
+
+const headers = ['ID', 'Name'];
+
+describe('columnLetter', () => {
+  it('continues past Z with two letters', () => {
+    expect([0, 25, 26, 51, 52].map(columnLetter)).toEqual(['A', 'Z', 'AA', 'AZ', 'BA']);
+  });
+});
+
+describe('writeSheetTable', () => {
+  beforeEach(() => {
+    vi.mocked(getSheetsApi).mockReset();
+  });
+
+  it('appends below the existing rows', async () => {
+    const { writes } = mockSheets([headers, ['1', 'Anna'], ['2', 'Boris']]);
+
+    const result = await writeSheetTable('sheet-id', {
+      sheet: 'Results', headers, mode: 'append', rows: [['1', 'Anna'], ['3', 'Vera']]
+    });
+
+    expect(result).toEqual({ appended: 2, updated: 0 });
+    expect(writes).toEqual([
+      { range: "'Results'!A4", values: [['1', 'Anna']] },
+      { range: "'Results'!A5", values: [['3', 'Vera']] }
+    ]);
+  });
+
+  it('starts under the header row of an empty worksheet', async () => {
+    const { writes } = mockSheets([]);
+
+    await writeSheetTable('sheet-id', { sheet: 'Results', headers, mode: 'append', rows: [['1', 'Anna']] });
+
+    expect(writes).toEqual([
+      { range: "'Results'!A1", values: [headers] },
+      { range: "'Results'!A2", values: [['1', 'Anna']] }
+    ]);
+  });
+
+  it('updates rows whose key is in the sheet and appends the rest once', async () => {
+    const { writes } = mockSheets([headers, ['1', 'Anna'], ['', 'No key'], ['2', 'Boris']]);
+
+    const result = await writeSheetTable('sheet-id', {
+      sheet: 'Results',
+      headers,
+      mode: 'upsert',
+      keyHeader: 'ID',
+      rows: [['2', 'Boris K.'], ['3', 'Vera'], ['3', 'Vera P.'], [' 1 ', 'Anna S.']]
+    });
+
+    expect(result).toEqual({ appended: 1, updated: 3 });
+    expect(writes).toEqual([
+      { range: "'Results'!A4", values: [['2', 'Boris K.']] },
+      { range: "'Results'!A5", values: [['3', 'Vera']] },
+      { range: "'Results'!A5", values: [['3', 'Vera P.']] },
+      { range: "'Results'!A2", values: [[' 1 ', 'Anna S.']] }
+    ]);
+  });
+
+  it('extends an older header row that lacks the new columns', async () => {
+    const { writes } = mockSheets([['ID'], ['1']]);
+
+    await writeSheetTable('sheet-id', { sheet: 'Results', headers, mode: 'upsert', keyHeader: 'ID', rows: [['1', 'Anna']] });
+
+    expect(writes).toEqual([
+      { range: "'Results'!A1", values: [headers] },
+      { range: "'Results'!A2", values: [['1', 'Anna']] }
+    ]);
+  });
+
+  it('refuses to write under a header row that does not match', async () => {
+    const { writes } = mockSheets([['Name', 'ID']]);
+
+    await expect(writeSheetTable('sheet-id', { sheet: 'Results', headers, mode: 'append', rows: [['1', 'Anna']] }))
+      .rejects.toThrow(`Columns in "Results" don't match`);
+    expect(writes).toEqual([]);
+  });
+
+  it('needs a key column that is part of the output to upsert', async () => {
+    mockSheets([headers]);
+
+    await expect(writeSheetTable('sheet-id', { sheet: 'Results', headers, mode: 'upsert', rows: [] }))
+      .rejects.toThrow('Upsert mode needs a key column');
+    await expect(writeSheetTable('sheet-id', { sheet: 'Results', headers, mode: 'upsert', keyHeader: 'INN', rows: [] }))
+      .rejects.toThrow('Column "INN" not found in "Results", cannot upsert');
+  });
+});
@@ -0,0 +1,167 @@
+import type { sheets_v4 } from 'googleapis';
+import { getSheetsApi, quoteSheet } from './google';
+
+// overwrite: replace everything on the worksheet
+// append: add the rows under whatever is already there
+// upsert: update rows whose key is already in the sheet, append the rest
+export type SheetWriteMode = 'overwrite' | 'append' | 'upsert';
+
+export const SHEET_WRITE_MODES: SheetWriteMode[] = ['overwrite', 'append', 'upsert'];
+
+export function parseSheetWriteMode(input: unknown): SheetWriteMode {
+  if (input === undefined || input === null || input === '') return 'overwrite';
+  if (!SHEET_WRITE_MODES.includes(input as SheetWriteMode)) {
+    throw new Error(`sheetMode must be one of: ${SHEET_WRITE_MODES.join(', ')}`);
+  }
+  return input as SheetWriteMode;
+}
+
+type Cell = string | number | boolean | null | undefined;
+
+// One row written at an exact 1-based sheet row, starting at `column`
+export interface SheetRowUpdate {
+  rowIndex: number;
+  values: Cell[];
+  column?: string;
+}
+
+export interface SheetTable {
+  sheet: string;
+  headers: string[];
+  rows: Cell[][];
+  mode: SheetWriteMode;
+  // Header of the column that identifies a row in upsert mode
+  keyHeader?: string;
+}
+
+export interface SheetWriteResult {
+  appended: number;
+  updated: number;
+}
+
+// Sheets caps the request size, not the number of ranges; this keeps requests well under it
+const RANGES_PER_REQUEST = 500;
+
+// 0-based column index to its letter: 0 → A, 25 → Z, 26 → AA
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + (n - 1) % 26) + letter;
+  }
+  return letter;
+}
+
+export function toA1(sheet: string, column: string, rowIndex: number): string {
+  return `${quoteSheet(sheet)}!${column}${rowIndex}`;
+}
+
+// Creates the worksheet when the spreadsheet doesn't have one with this title yet
+export async function ensureWorksheet(sheets: sheets_v4.Sheets, spreadsheetId: string, sheet: string): Promise<void> {
+  const response = await sheets.spreadsheets.get({ spreadsheetId, fields: 'sheets.properties.title' });
+  const exists = (response.data.sheets || []).some(item => item.properties?.title === sheet);
+  if (exists) return;
+
+  await sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: [{ addSheet: { properties: { title: sheet } } }]
+    }
+  });
+}
+
+async function batchWrite(
+  sheets: sheets_v4.Sheets,
+  spreadsheetId: string,
+  sheet: string,
+  rows: SheetRowUpdate[]
+): Promise<void> {
+  for (let start = 0; start < rows.length; start += RANGES_PER_REQUEST) {
+    await sheets.spreadsheets.values.batchUpdate({
+      spreadsheetId,
+      requestBody: {
+        valueInputOption: 'RAW',
+        data: rows.slice(start, start + RANGES_PER_REQUEST).map(row => ({
+          range: toA1(sheet, row.column || 'A', row.rowIndex),
+          values: [row.values.map(value => value ?? '')]
+        }))
+      }
+    });
+  }
+}
+
+// Writes every row to its own sheet row, so gaps (skipped or failed rows) never shift the
+// data below them
+export async function writeSheetRows(spreadsheetId: string, sheet: string, rows: SheetRowUpdate[]): Promise<void> {
+  if (rows.length === 0) return;
+  const sheets = await getSheetsApi();
+  await batchWrite(sheets, spreadsheetId, sheet, rows);
+}
+
+// Writes a header row and data rows to a worksheet in the given mode, creating the
+// worksheet if needed
+export async function writeSheetTable(spreadsheetId: string, table: SheetTable): Promise<SheetWriteResult> {
+  const { sheet, headers, rows, mode } = table;
+  const sheets = await getSheetsApi();
+  await ensureWorksheet(sheets, spreadsheetId, sheet);
+
+  if (mode === 'overwrite') {
+    // Cleared first, otherwise a shorter result leaves the previous run's rows underneath
+    await sheets.spreadsheets.values.clear({ spreadsheetId, range: quoteSheet(sheet) });
+    await batchWrite(sheets, spreadsheetId, sheet, [headers, ...rows].map((values, index) => ({
+      rowIndex: index + 1,
+      values
+    })));
+    return { appended: rows.length, updated: 0 };
+  }
+
+  const response = await sheets.spreadsheets.values.get({ spreadsheetId, range: quoteSheet(sheet) });
+  const existing = (response.data.values || []) as string[][];
+  const updates: SheetRowUpdate[] = [];
+
+  // Rows are written in `headers` order, so the sheet's header row must agree with it. A sheet
+  // written before columns were added gets its header row extended.
+  const sheetHeaders = (existing[0] || []).map(header => String(header ?? '').trim());
+  if (sheetHeaders.some((header, index) => header !== headers[index])) {
+    throw new Error(`Columns in "${sheet}" don't match this output, overwrite the sheet or pick another one`);
+  }
+  if (sheetHeaders.length < headers.length) {
+    updates.push({ rowIndex: 1, values: headers });
+  }
+  let nextRow = Math.max(existing.length, 1) + 1;
+
+  // Sheet row of every key already present; in append mode nothing is ever matched
+  const rowByKey = new Map<string, number>();
+  let keyColumn = -1;
+  if (mode === 'upsert') {
+    if (!table.keyHeader) {
+      throw new Error('Upsert mode needs a key column');
+    }
+    keyColumn = headers.indexOf(table.keyHeader);
+    if (keyColumn === -1) {
+      throw new Error(`Column "${table.keyHeader}" not found in "${sheet}", cannot upsert`);
+    }
+    existing.slice(1).forEach((row, index) => {
+      const key = String(row[keyColumn] ?? '').trim();
+      if (key && !rowByKey.has(key)) rowByKey.set(key, index + 2);
+    });
+  }
+
+  let updated = 0;
+  let appended = 0;
+  for (const values of rows) {
+    const key = keyColumn === -1 ? '' : String(values[keyColumn] ?? '').trim();
+    const rowIndex = key ? rowByKey.get(key) : undefined;
+    if (rowIndex) {
+      updates.push({ rowIndex, values });
+      updated++;
+    } else {
+      // Keys repeated within the same write land on the row added for the first one
+      if (key) rowByKey.set(key, nextRow);
+      updates.push({ rowIndex: nextRow++, values });
+      appended++;
+    }
+  }
+
+  await batchWrite(sheets, spreadsheetId, sheet, updates);
+  return { appended, updated };
+}
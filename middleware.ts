@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import type { NextRequest } from 'next/server';
+import {
+  ACCESS_TOKEN_COOKIE,
+  REFRESH_TOKEN_COOKIE,
+  refreshAccessToken,
+  setTokenCookies
+} from '@/lib/hh/oauth';
+
+// Routes that manage the token cookies themselves
+const SKIP_PATHS = ['/api/oauth-callback', '/api/oauth-refresh', '/api/logout'];
+
+// When the access cookie has expired but a refresh token is still stored, refresh it before the
+// request reaches the route: the route sees a valid token and the browser gets rotated cookies.
+export async function middleware(request: NextRequest) {
+  if (SKIP_PATHS.some(path => request.nextUrl.pathname.startsWith(path))) {
+    return NextResponse.next();
+  }
+
+  const accessToken = request.cookies.get(ACCESS_TOKEN_COOKIE)?.value;
+  const refreshToken = request.cookies.get(REFRESH_TOKEN_COOKIE)?.value;
+
+  if (accessToken || !refreshToken) {
+    return NextResponse.next();
+  }
+
+  try {
+    const tokenData = await refreshAccessToken(refreshToken);
+
+    // Forward the new token to the route handler in this same request
+    request.cookies.set(ACCESS_TOKEN_COOKIE, tokenData.access_token);
+    request.cookies.set(REFRESH_TOKEN_COOKIE, tokenData.refresh_token);
+    const response = NextResponse.next({ request: { headers: request.headers } });
+
+    setTokenCookies(response, tokenData);
+    return response;
+  } catch (error) {
+    // Let the route answer 401; the client falls back to /api/oauth-refresh or re-authorization
+    console.error('Token refresh in middleware failed:', error instanceof Error ? error.message : String(error));
+    return NextResponse.next();
+  }
+}
+
+export const config = {
+  matcher: '/api/:path*'
+};